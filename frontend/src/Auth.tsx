@@ -62,10 +62,78 @@ const onLoginComplete = async () => {
   }
 };
 
+export const workerUrl = import.meta.env.VITE_WORKER_URL || "https://rec-us-mcp-server-auth.lizziepika.workers.dev";
+
+/**
+ * Hands the Stytch session token to the worker, which verifies it with Stytch.
+ * If an MCP client started this login via the worker's /authorize endpoint, the
+ * worker returns its consent page, where the user approves or denies the client.
+ */
+const syncWithWorker = async (sessionToken: string): Promise<string | null> => {
+  const oauthRequestId = localStorage.getItem("mcp_oauth_request");
+  
+  console.log('Notifying worker at:', `${workerUrl}/authenticate`);
+  
+  const workerResponse = await fetch(`${workerUrl}/authenticate`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Accept': 'application/json',
+    },
+    body: JSON.stringify({ sessionToken, oauthRequestId })
+  });
+  
+  if (oauthRequestId) {
+    // Authorization requests are single-use, whatever the outcome
+    localStorage.removeItem("mcp_oauth_request");
+  }
+  
+  const responseText = await workerResponse.text();
+  if (!workerResponse.ok) {
+    let errorMessage = responseText;
+    try {
+      const { error, message } = JSON.parse(responseText);
+      errorMessage = `${message} (${error})`;
+    } catch {
+      // Plain-text error from the worker
+    }
+    throw new Error(errorMessage);
+  }
+  
+  console.log('Worker notified successfully:', responseText);
+  return JSON.parse(responseText).redirectTo ?? null;
+};
+
 /**
  * The Login page implementation. Wraps the StytchLogin UI component.
+ * When opened by the worker's /authorize endpoint, remembers the pending MCP
+ * authorization request so it can be completed after the OAuth round trip.
  */
 export function Login() {
+  const stytch = useStytch();
+  const { user } = useStytchUser();
+  
+  useEffect(() => {
+    const oauthRequestId = new URLSearchParams(window.location.search).get("oauth_request");
+    if (!oauthRequestId) return;
+    
+    console.log('MCP client authorization request:', oauthRequestId);
+    localStorage.setItem("mcp_oauth_request", oauthRequestId);
+    
+    // Already signed in: go straight to the worker's consent page
+    const sessionToken = stytch.session.getTokens()?.session_token;
+    if (user && sessionToken) {
+      syncWithWorker(sessionToken)
+        .then((redirectTo) => {
+          window.location.href = redirectTo ?? "/dashboard";
+        })
+        .catch((error) => {
+          console.error('Failed to authorize MCP client:', error);
+          alert(`Failed to authorize MCP client: ${error.message}`);
+        });
+    }
+  }, [stytch, user]);
+  
   const loginConfig = useMemo<StytchLoginConfig>(
     () => ({
       oauthOptions: {
@@ -123,39 +191,16 @@ export function Authenticate() {
         localStorage.setItem("stytch_user_id", response.user.user_id);
         
         try {
-          const workerUrl = import.meta.env.VITE_WORKER_URL || "https://rec-us-mcp-server-auth.lizziepika.workers.dev";
-          
-          // 🔧 NEW: Send user info directly instead of token
-          const userInfo = {
-            userId: response.user.user_id,
-            email: response.user.emails[0]?.email,
-            verified: true,
-            sessionToken: response.session_token
-          };
-          
-          console.log('Notifying worker at:', `${workerUrl}/authenticate`);
-          console.log('Sending user info:', userInfo);
-          
-          const workerResponse = await fetch(`${workerUrl}/authenticate`, {
-            method: 'POST', // Changed to POST
-            headers: {
-              'Content-Type': 'application/json',
-              'Accept': 'text/plain',
-            },
-            body: JSON.stringify(userInfo) // Send user info instead of token
-          });
-          
-          if (!workerResponse.ok) {
-            const errorText = await workerResponse.text();
-            console.error('Worker notification failed:', errorText);
-            alert(`Worker authentication failed: ${errorText}`);
-          } else {
-            const successText = await workerResponse.text();
-            console.log('Worker notified successfully:', successText);
+          const redirectTo = await syncWithWorker(response.session_token);
+          if (redirectTo) {
+            // The worker's consent page asks the user to approve the MCP client
+            console.log('Redirecting to MCP client consent:', redirectTo);
+            window.location.href = redirectTo;
+            return;
           }
         } catch (error) {
           console.error('Failed to notify worker:', error);
-          alert(`Failed to sync with MCP server: ${error}`);
+          alert(`Failed to sync with MCP server: ${error instanceof Error ? error.message : error}`);
           // Continue anyway - the session is stored locally
         }
         
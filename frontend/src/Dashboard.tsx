@@ -1,5 +1,100 @@
-import { useStytchUser } from "@stytch/react";
-import { withLoginRequired } from "./Auth";
+import { useStytch, useStytchUser } from "@stytch/react";
+import { useCallback, useEffect, useState, type FormEvent } from "react";
+import { withLoginRequired, workerUrl } from "./Auth";
+
+interface RecUsLoginStatus {
+  saved: boolean;
+  email: string | null; // masked by the worker
+  updatedAt: number | null;
+  sharedFallback: boolean;
+}
+
+/**
+ * Shows, saves and removes the signed-in user's rec.us login. The worker encrypts
+ * it before storing it and never sends the password back.
+ */
+function RecUsLogin() {
+  const stytch = useStytch();
+  const [status, setStatus] = useState<RecUsLoginStatus | null>(null);
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const callWorker = useCallback(async (method: string, body?: object) => {
+    const sessionToken = stytch.session.getTokens()?.session_token;
+    const response = await fetch(`${workerUrl}/recus-login`, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${sessionToken ?? ''}`,
+      },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(`${result.message} (${result.error})`);
+    }
+    setStatus(result);
+  }, [stytch]);
+
+  useEffect(() => {
+    callWorker('GET').catch((e) => setError(e.message));
+  }, [callWorker]);
+
+  const run = async (method: string, body?: object) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await callWorker(method, body);
+      setPassword("");
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const save = (event: FormEvent) => {
+    event.preventDefault();
+    run('PUT', { email, password });
+  };
+
+  return (
+    <div style={{ 
+      background: "#f5f5f5", 
+      padding: "20px", 
+      borderRadius: "8px", 
+      marginTop: "20px" 
+    }}>
+      <h3>🎾 Your rec.us Login</h3>
+      <p>Bookings, cancellations and reservation lists use this account. It is stored encrypted and the password is never shown again.</p>
+      
+      {status?.saved ? (
+        <p>
+          Saved: <strong>{status.email}</strong>
+          {status.updatedAt && ` (updated ${new Date(status.updatedAt).toLocaleString()})`}{' '}
+          <button type="button" disabled={busy} onClick={() => run('DELETE')}>Remove</button>
+        </p>
+      ) : (
+        <p>
+          No login saved.{' '}
+          {status?.sharedFallback
+            ? "The shared account is used until you save yours."
+            : "Save yours before booking."}
+        </p>
+      )}
+      
+      <form onSubmit={save}>
+        <input type="email" placeholder="rec.us email" value={email} onChange={(e) => setEmail(e.target.value)} required />{' '}
+        <input type="password" placeholder="rec.us password" value={password} onChange={(e) => setPassword(e.target.value)} required />{' '}
+        <button type="submit" disabled={busy}>{status?.saved ? "Replace" : "Save"}</button>
+      </form>
+      
+      {error && <p style={{ color: "#b00020" }}>❌ {error}</p>}
+    </div>
+  );
+}
 
 function Dashboard() {
   const { user } = useStytchUser();
@@ -15,7 +110,7 @@ function Dashboard() {
         marginTop: "20px" 
       }}>
         <h3>✅ Authentication Successful</h3>
-        <p>Your session has been stored and you can now use the MCP tools in Claude Desktop.</p>
+        <p>You're signed in. MCP clients that connect to the server will send you here to authorize them, and each connection gets its own access token.</p>
         
         <h4>Available MCP Tools:</h4>
         <ul>
@@ -23,6 +118,7 @@ function Dashboard() {
           <li><code>book_and_request_sms</code> - Book a tennis court</li>
           <li><code>enter_sms_code_and_complete</code> - Complete booking with SMS code</li>
           <li><code>get_booking_history</code> - View your booking history</li>
+          <li><code>set_recus_login</code> - Save your rec.us login (or use the form below)</li>
           <li><code>auth_status</code> - Check authentication status</li>
         </ul>
         
@@ -40,10 +136,12 @@ function Dashboard() {
           border: "1px solid #ffeeba",
           borderRadius: "5px" 
         }}>
-          <p><strong>⚠️ Important:</strong> Authentication is now active for 24 hours</p>
-          <p>If MCP tools show "not authenticated", wait a few seconds for the session to sync, then try again.</p>
+          <p><strong>⚠️ Important:</strong> Signing in here does not connect an MCP client by itself</p>
+          <p>If MCP tools show "not authenticated", reconnect the MCP server in your client and sign in when this page opens.</p>
         </div>
       </div>
+      
+      <RecUsLogin />
     </div>
   );
 }
@@ -0,0 +1,170 @@
+import type { Page } from "@cloudflare/playwright";
+import type { SiteFailure } from "./failures";
+
+// ===== DEBUG ARTIFACTS =====
+// What the page looked like when a browser step failed: a screenshot and a trimmed DOM
+// snapshot, tagged with the ID of the tool call (or scheduled run) that failed, so
+// get_debug_artifacts can show them. The files go to the DEBUG_ARTIFACTS R2 bucket and
+// the list of them to the user's Durable Object. Without a bucket, or with
+// DEBUG_ARTIFACTS_STORE=local, a stand-in keeps the files in KV for a day instead.
+
+export type ArtifactStoreType = "r2" | "local";
+
+export interface ArtifactFile {
+	body: ArrayBuffer;
+	contentType: string;
+}
+
+export interface ArtifactStore {
+	readonly type: ArtifactStoreType;
+	put(key: string, body: Uint8Array | string, contentType: string): Promise<void>;
+	get(key: string): Promise<ArtifactFile | null>;
+	delete(keys: string[]): Promise<void>;
+}
+
+export class R2ArtifactStore implements ArtifactStore {
+	readonly type = "r2";
+
+	constructor(private readonly bucket: R2Bucket) {}
+
+	async put(key: string, body: Uint8Array | string, contentType: string): Promise<void> {
+		await this.bucket.put(key, body, { httpMetadata: { contentType } });
+	}
+
+	async get(key: string): Promise<ArtifactFile | null> {
+		const object = await this.bucket.get(key);
+		if (!object) return null;
+		return { body: await object.arrayBuffer(), contentType: object.httpMetadata?.contentType ?? "application/octet-stream" };
+	}
+
+	async delete(keys: string[]): Promise<void> {
+		if (keys.length > 0) await this.bucket.delete(keys);
+	}
+}
+
+// Long enough to look at a failure from the same afternoon
+const LOCAL_TTL_SECONDS = 24 * 60 * 60;
+
+export class LocalArtifactStore implements ArtifactStore {
+	readonly type = "local";
+
+	constructor(private readonly kv: KVNamespace) {}
+
+	async put(key: string, body: Uint8Array | string, contentType: string): Promise<void> {
+		await this.kv.put(key, body, { expirationTtl: LOCAL_TTL_SECONDS, metadata: { contentType } });
+	}
+
+	async get(key: string): Promise<ArtifactFile | null> {
+		const { value, metadata } = await this.kv.getWithMetadata<{ contentType: string }>(key, "arrayBuffer");
+		if (!value) return null;
+		return { body: value, contentType: metadata?.contentType ?? "application/octet-stream" };
+	}
+
+	async delete(keys: string[]): Promise<void> {
+		await Promise.all(keys.map((key) => this.kv.delete(key)));
+	}
+}
+
+interface ArtifactEnv {
+	ENVIRONMENT?: string;
+	KV: KVNamespace;
+	DEBUG_ARTIFACTS?: R2Bucket;
+	DEBUG_ARTIFACTS_STORE?: string;
+}
+
+// null when nothing may be stored: production without a bucket keeps nothing
+export function getArtifactStore(env: ArtifactEnv): ArtifactStore | null {
+	if (env.DEBUG_ARTIFACTS && env.DEBUG_ARTIFACTS_STORE !== "local") {
+		return new R2ArtifactStore(env.DEBUG_ARTIFACTS);
+	}
+	return env.ENVIRONMENT === "production" ? null : new LocalArtifactStore(env.KV);
+}
+
+export interface DebugArtifact {
+	id: string;
+	callId: string;
+	tool: string;
+	step: string | null;
+	code: string | null; // the SiteErrorCode of the failure
+	message: string;
+	url: string | null; // the page's address when it failed
+	screenshotKey: string | null; // null when the page was already gone
+	domKey: string | null;
+	store: ArtifactStoreType;
+	createdAt: number;
+}
+
+export interface CaptureContext {
+	userId: string;
+	callId: string;
+	tool: string;
+}
+
+// Snapshots are for reading, not re-rendering: scripts, styles and inline images go
+const MAX_DOM_CHARS = 200_000;
+
+export function trimDom(html: string): string {
+	const trimmed = html
+		.replace(/<script\b[\s\S]*?<\/script>/gi, "")
+		.replace(/<style\b[\s\S]*?<\/style>/gi, "")
+		.replace(/<svg\b[\s\S]*?<\/svg>/gi, "<svg></svg>")
+		.replace(/<!--[\s\S]*?-->/g, "")
+		.replace(/\s(?:style|srcset)="[^"]*"/gi, "")
+		.replace(/="data:[^"]*"/gi, '="data:…"')
+		.replace(/\s+/g, " ");
+	return trimmed.length > MAX_DOM_CHARS
+		? `${trimmed.slice(0, MAX_DOM_CHARS)}<!-- trimmed ${trimmed.length - MAX_DOM_CHARS} more characters -->`
+		: trimmed;
+}
+
+/**
+ * Saves a screenshot and DOM snapshot of `page` for a failed step. Never throws: a
+ * page that is already gone still gets a record of the failure, just without files.
+ * Returns null when there is nowhere to store artifacts.
+ */
+export async function captureDebugArtifacts(
+	store: ArtifactStore | null,
+	page: Page | null,
+	context: CaptureContext,
+	failure: Pick<SiteFailure, "code" | "message" | "step">,
+): Promise<DebugArtifact | null> {
+	if (!store) return null;
+
+	const id = crypto.randomUUID();
+	const prefix = `debug/${context.userId}/${context.callId}/${id}`;
+	let url: string | null = null;
+	let screenshotKey: string | null = null;
+	let domKey: string | null = null;
+
+	if (page && !page.isClosed()) {
+		url = page.url();
+		try {
+			const png = await page.screenshot({ type: "png", timeout: 5000 });
+			await store.put(`${prefix}.png`, png, "image/png");
+			screenshotKey = `${prefix}.png`;
+		} catch (error) {
+			console.log(`Could not save a screenshot for ${context.callId}: ${error}`);
+		}
+		try {
+			await store.put(`${prefix}.html`, trimDom(await page.content()), "text/html");
+			domKey = `${prefix}.html`;
+		} catch (error) {
+			console.log(`Could not save a DOM snapshot for ${context.callId}: ${error}`);
+		}
+	}
+
+	console.log(`🧾 Debug artifacts for ${context.tool} (${context.callId}): ${screenshotKey ?? "no screenshot"}`);
+	return {
+		id,
+		callId: context.callId,
+		tool: context.tool,
+		step: failure.step,
+		code: failure.code,
+		message: failure.message,
+		url,
+		screenshotKey,
+		domKey,
+		store: store.type,
+		createdAt: Date.now(),
+	};
+}
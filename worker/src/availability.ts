@@ -0,0 +1,275 @@
+import { addDays, weekdayOf, type WeekdayName } from "./dates";
+import type { SiteErrorCode } from "./failures";
+import { matchingTimes } from "./times";
+
+// ===== COURT AVAILABILITY HELPERS =====
+// Shared by check_tennis_courts when it sweeps several courts and/or dates at once.
+
+// Browser Rendering allows only a handful of concurrent sessions per account
+export const MAX_SWEEP_PAGES = 4;
+
+// Longest range one call may walk; each date is another datepicker round trip per court
+export const MAX_RANGE_DAYS = 14;
+
+export type WeekdayFilter = "weekdays" | "weekends" | WeekdayName[];
+
+export interface CourtAvailability {
+	court: string;
+	date: string;
+	availableTimes: string[];
+	totalSlots: number;
+	requestedTimeAvailable?: boolean | null;
+	matchingTimes?: string[]; // the open slots that satisfy the requested time or window
+	error?: string;
+	errorCode?: SiteErrorCode; // with error: what kind of failure it was
+	retryable?: boolean; // with error: whether checking again could help
+	fetchedAt?: number; // when rec.us was actually read
+	fromCache?: boolean;
+	stale?: boolean; // served past its TTL while a refresh runs in the background
+}
+
+export interface AvailabilityMatrix {
+	date: string;
+	times: string[]; // every slot seen at any court, in chronological order
+	courts: {
+		court: string;
+		slots: Record<string, boolean>;
+		error?: string;
+		ageSeconds?: number;
+	}[];
+}
+
+function matchesWeekdays(date: string, filter?: WeekdayFilter): boolean {
+	if (!filter) return true;
+	const day = weekdayOf(date);
+	if (filter === "weekends") return day === "sat" || day === "sun";
+	if (filter === "weekdays") return day !== "sat" && day !== "sun";
+	return filter.includes(day);
+}
+
+/**
+ * Every date from `start` to `end` inclusive that passes the weekday filter.
+ * Throws if the range is backwards or longer than MAX_RANGE_DAYS.
+ */
+export function expandDateRange(start: string, end: string, weekdays?: WeekdayFilter): string[] {
+	if (end < start) {
+		throw new Error(`End date ${end} is before start date ${start}`);
+	}
+
+	const dates: string[] = [];
+	for (let date = start, n = 0; date <= end; date = addDays(date, 1), n++) {
+		if (n >= MAX_RANGE_DAYS) {
+			throw new Error(`Date ranges are limited to ${MAX_RANGE_DAYS} days (${start} to ${end} is longer)`);
+		}
+		if (matchesWeekdays(date, weekdays)) {
+			dates.push(date);
+		}
+	}
+	return dates;
+}
+
+export function rangeEnd(start: string, days: number): string {
+	return addDays(start, days - 1);
+}
+
+/**
+ * Runs `fn` over `items` with at most `limit` calls in flight, keeping results in input
+ * order. A rejected call becomes that item's result so one failure can't sink the rest.
+ */
+export async function mapWithConcurrency<T, R>(
+	items: T[],
+	limit: number,
+	fn: (item: T, index: number) => Promise<R>,
+	onError: (item: T, error: unknown) => R,
+): Promise<R[]> {
+	const results = new Array<R>(items.length);
+	let next = 0;
+
+	const worker = async () => {
+		while (next < items.length) {
+			const index = next++;
+			try {
+				results[index] = await fn(items[index], index);
+			} catch (error) {
+				results[index] = onError(items[index], error);
+			}
+		}
+	};
+
+	await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+	return results;
+}
+
+// "8:00 AM" -> minutes after midnight, for ordering slots; unknown formats sort last
+function slotSortKey(slot: string): number {
+	const match = slot.match(/(\d{1,2}):(\d{2})\s*(AM|PM)/i);
+	if (!match) return Number.MAX_SAFE_INTEGER;
+	const hours = (Number(match[1]) % 12) + (match[3].toUpperCase() === "PM" ? 12 : 0);
+	return hours * 60 + Number(match[2]);
+}
+
+export function buildAvailabilityMatrix(date: string, results: CourtAvailability[]): AvailabilityMatrix {
+	const times = [...new Set(results.flatMap((r) => r.availableTimes.map((t) => t.trim())))].sort(
+		(a, b) => slotSortKey(a) - slotSortKey(b),
+	);
+
+	return {
+		date,
+		times,
+		courts: results.map((r) => {
+			const open = new Set(r.availableTimes.map((t) => t.trim()));
+			return {
+				court: r.court,
+				slots: Object.fromEntries(times.map((t) => [t, open.has(t)])),
+				...(r.error ? { error: r.error } : {}),
+				...(r.fetchedAt ? { ageSeconds: ageSeconds(r.fetchedAt) } : {}),
+			};
+		}),
+	};
+}
+
+export function formatAvailabilityMatrix(matrix: AvailabilityMatrix): string {
+	if (matrix.times.length === 0) {
+		const failed = matrix.courts.filter((c) => c.error);
+		return [
+			`No open slots at any of the ${matrix.courts.length} courts checked on ${matrix.date}.`,
+			...failed.map((c) => `❌ ${c.court}: ${c.error}`),
+		].join("\n");
+	}
+
+	const header = `| Court | ${matrix.times.join(" | ")} |`;
+	const divider = `|---|${matrix.times.map(() => "---").join("|")}|`;
+	const rows = matrix.courts.map((c) =>
+		c.error
+			? `| ${c.court} | ❌ ${c.error} |`
+			: `| ${c.court} | ${matrix.times.map((t) => (c.slots[t] ? "✅" : "·")).join(" | ")} |`,
+	);
+
+	const ages = matrix.courts.filter((c) => c.ageSeconds !== undefined).map((c) => c.ageSeconds as number);
+	const freshness = ages.length > 0 ? `Data age: ${formatAge(Math.min(...ages))} to ${formatAge(Math.max(...ages))}` : "";
+
+	return [`🎾 Availability on ${matrix.date}`, "", header, divider, ...rows, ...(freshness ? ["", freshness] : [])].join(
+		"\n",
+	);
+}
+
+// One matrix per date, in date order
+export function groupAvailabilityByDate(results: CourtAvailability[]): AvailabilityMatrix[] {
+	const dates = [...new Set(results.map((r) => r.date))].sort();
+	return dates.map((date) =>
+		buildAvailabilityMatrix(
+			date,
+			results.filter((r) => r.date === date),
+		),
+	);
+}
+
+// ===== AVAILABILITY CACHE =====
+// Scraped slots per organization, court and date, kept in KV. Entries outlive their TTL by
+// STALE_RETENTION_SECONDS so stale-while-revalidate has something to serve.
+
+export const DEFAULT_AVAILABILITY_TTL_SECONDS = 120;
+const STALE_RETENTION_SECONDS = 60 * 60;
+
+export type AvailabilityCacheMode = "default" | "stale-while-revalidate" | "bypass";
+
+interface CachedAvailability {
+	court: string;
+	date: string;
+	availableTimes: string[];
+	fetchedAt: number;
+}
+
+function availabilityKey(organization: string, court: string, date: string): string {
+	return `availability:${organization}:${court.toLowerCase()}:${date}`;
+}
+
+export function ageSeconds(fetchedAt: number, now = Date.now()): number {
+	return Math.max(0, Math.round((now - fetchedAt) / 1000));
+}
+
+export function formatAge(seconds: number): string {
+	if (seconds < 60) return `${seconds}s old`;
+	if (seconds < 3600) return `${Math.round(seconds / 60)} min old`;
+	return `${Math.round(seconds / 3600)} h old`;
+}
+
+// "fresh": serve the entry. "stale": serve it and refresh it in the background. "scrape": read rec.us
+export type CacheDecision = "fresh" | "stale" | "scrape";
+
+/**
+ * What to do with the cached entry for one court and date. An entry no older than the
+ * TTL is served; an older one only in stale-while-revalidate mode. Bypass and missing
+ * entries always go to rec.us.
+ */
+export function cacheDecision(
+	entry: Pick<CachedAvailability, "fetchedAt"> | null,
+	mode: AvailabilityCacheMode,
+	ttlSeconds: number,
+	now = Date.now(),
+): CacheDecision {
+	if (!entry || mode === "bypass") return "scrape";
+	if (ageSeconds(entry.fetchedAt, now) <= ttlSeconds) return "fresh";
+	return mode === "stale-while-revalidate" ? "stale" : "scrape";
+}
+
+export async function readCachedAvailability(
+	kv: KVNamespace,
+	organization: string,
+	court: string,
+	date: string,
+): Promise<CachedAvailability | null> {
+	return kv.get<CachedAvailability>(availabilityKey(organization, court, date), "json");
+}
+
+// Failed checks are never cached
+export async function writeCachedAvailability(
+	kv: KVNamespace,
+	organization: string,
+	result: CourtAvailability,
+	ttlSeconds: number,
+): Promise<void> {
+	if (result.error) return;
+	const entry: CachedAvailability = {
+		court: result.court,
+		date: result.date,
+		availableTimes: result.availableTimes,
+		fetchedAt: result.fetchedAt ?? Date.now(),
+	};
+	await kv.put(availabilityKey(organization, result.court, result.date), JSON.stringify(entry), {
+		expirationTtl: Math.max(60, ttlSeconds + STALE_RETENTION_SECONDS), // KV minimum is 60s
+	});
+}
+
+// Any booking attempt on a court and date makes what we knew about it unreliable
+export async function invalidateAvailability(
+	kv: KVNamespace,
+	organization: string,
+	court: string,
+	date: string,
+): Promise<void> {
+	await kv.delete(availabilityKey(organization, court, date));
+}
+
+// requestedTimeAvailable and matchingTimes for a set of open slots
+export function requestedTimeFields(
+	availableTimes: string[],
+	time: string | undefined,
+): Pick<CourtAvailability, "requestedTimeAvailable" | "matchingTimes"> {
+	if (!time) return { requestedTimeAvailable: null };
+	const matching = matchingTimes(availableTimes, time);
+	return { requestedTimeAvailable: matching.length > 0, matchingTimes: matching };
+}
+
+export function fromCachedAvailability(entry: CachedAvailability, time: string | undefined, stale: boolean): CourtAvailability {
+	return {
+		court: entry.court,
+		date: entry.date,
+		availableTimes: entry.availableTimes,
+		totalSlots: entry.availableTimes.length,
+		...requestedTimeFields(entry.availableTimes, time),
+		fetchedAt: entry.fetchedAt,
+		fromCache: true,
+		stale,
+	};
+}
@@ -0,0 +1,1699 @@
+import { DurableObject } from "cloudflare:workers";
+import { launch, type Browser, type BrowserWorker, type Page } from "@cloudflare/playwright";
+import { captureDebugArtifacts, getArtifactStore, type CaptureContext, type DebugArtifact } from "./artifacts";
+import { resolveCredentials, type RecUsCredentials, type StoredCredentials } from "./credentials";
+import { pacificToday } from "./dates";
+import {
+	DEFAULT_AVAILABILITY_TTL_SECONDS,
+	invalidateAvailability,
+	writeCachedAvailability,
+	type CourtAvailability,
+} from "./availability";
+import {
+	HOLD_TTL_MS,
+	MAX_SMS_RESENDS,
+	OPEN_HOLD_STATUSES,
+	canTransition,
+	type HoldSource,
+	type HoldStatus,
+	type PendingHold,
+} from "./holds";
+import { STEP_RETRY, SiteError, siteStep, toSiteFailure, type SiteFailure } from "./failures";
+import {
+	canChangeStatus,
+	decodeCursor,
+	nextCursor,
+	pageSize,
+	type BookingPage,
+	type BookingQuery,
+	type BookingRecord,
+	type BookingStatus,
+} from "./ledger";
+import { getNotificationChannel, type NotificationChannelType, type SlotNotification } from "./notifications";
+import { SMS_CLOCK_SKEW_MS, maskPhone, phoneKey } from "./sms";
+import { openSessionPage } from "./sessions";
+import { DEFAULT_ORGANIZATION } from "./organizations";
+import { getProvider, type ProviderCredentials } from "./providers";
+import {
+	DurationUnavailableError,
+	normalizeSlotTime,
+	type BookingPreview,
+	type BookingRequest,
+	type ConfirmOutcome,
+	type HeldSlot,
+} from "./recus";
+import {
+	DEFAULT_RELEASE_DAYS_AHEAD,
+	DEFAULT_RELEASE_TIME,
+	RELEASE_POLL_MS,
+	WARMUP_MS,
+	computeReleaseAt,
+	sleepUntil,
+	type BookingIntent,
+	type IntentSlot,
+	type IntentStatus,
+} from "./scheduler";
+import { parseSlots, parseTimeRequest, pickBestSlot } from "./times";
+import {
+	DEFAULT_WATCH_INTERVAL_MINUTES,
+	MAX_WATCHES_PER_USER,
+	compareWatchSlots,
+	type CourtWatch,
+	type WatchStatus,
+} from "./watches";
+
+// ===== PER-USER BOOKING LEDGER =====
+// One Durable Object per authenticated user (addressed by user ID), backed by its own
+// SQLite database. MyMCP instances are per MCP session, so anything that has to outlive
+// a connection lives here instead: the booking ledger, pending SMS holds, scheduled
+// booking intents, court watches (all driven by the object's single alarm), the
+// user's sealed rec.us login, the phone their SMS codes are forwarded from, their
+// default organization and the index of their debug artifacts. Dry runs are kept in a
+// table of their own and never touch the ledger. Every booking, intent and watch records
+// the organization it was made in, and the browser work for it goes through that
+// organization's BookingProvider.
+
+interface UserBookingsEnv {
+	MYBROWSER: BrowserWorker;
+	KV: KVNamespace;
+	REC_EMAIL?: string;
+	REC_PASSWORD?: string;
+	REC_CREDENTIALS_FALLBACK?: string;
+	CREDENTIALS_ENCRYPTION_KEY?: string;
+	RELEASE_DAYS_AHEAD?: string;
+	RELEASE_TIME?: string;
+	ENVIRONMENT?: string;
+	AVAILABILITY_CACHE_TTL_SECONDS?: string;
+	WATCH_INTERVAL_MINUTES?: string;
+	NOTIFICATION_CHANNEL?: string;
+	NOTIFY_EMAIL?: SendEmail;
+	NOTIFY_EMAIL_FROM?: string;
+	DEBUG_ARTIFACTS?: R2Bucket;
+	DEBUG_ARTIFACTS_STORE?: string;
+}
+
+// Debug artifacts kept per user; older ones are deleted, files and all
+const MAX_DEBUG_ARTIFACTS = 50;
+
+type BookingRow = {
+	id: string;
+	user_id: string;
+	user_email: string;
+	organization: string;
+	court: string;
+	date: string;
+	time: string;
+	duration_minutes: number | null;
+	participants: string | null; // JSON arrays
+	guests: string | null;
+	status: string;
+	error: string | null;
+	created_at: number;
+	updated_at: number;
+};
+
+type DryRunRow = {
+	id: string;
+	user_id: string;
+	user_email: string;
+	organization: string;
+	court: string;
+	date: string;
+	requested_time: string;
+	time: string | null;
+	duration_minutes: number | null;
+	end_time: string | null;
+	participants: string;
+	guests: string;
+	price: string | null;
+	reason: string | null;
+	selectors: string;
+	error: string | null;
+	created_at: number;
+};
+
+function toDryRun(row: DryRunRow): DryRunRecord {
+	return {
+		id: row.id,
+		userId: row.user_id,
+		userEmail: row.user_email,
+		organization: row.organization,
+		court: row.court,
+		date: row.date,
+		requestedTime: row.requested_time,
+		time: row.time,
+		durationMinutes: row.duration_minutes,
+		endTime: row.end_time,
+		participants: JSON.parse(row.participants),
+		guests: JSON.parse(row.guests),
+		price: row.price,
+		reason: row.reason,
+		selectors: JSON.parse(row.selectors),
+		error: row.error,
+		createdAt: row.created_at,
+	};
+}
+
+// Errors don't keep their class across RPC, so failed runs report what kind they were
+function classifyHoldError(error: unknown): StartHoldError {
+	const failure = toSiteFailure(error);
+	return error instanceof DurationUnavailableError ? { ...failure, allowedMinutes: error.allowedMinutes } : failure;
+}
+
+type DebugArtifactRow = {
+	id: string;
+	call_id: string;
+	tool: string;
+	step: string | null;
+	code: string | null;
+	message: string;
+	url: string | null;
+	screenshot_key: string | null;
+	dom_key: string | null;
+	store: string;
+	created_at: number;
+};
+
+function toDebugArtifact(row: DebugArtifactRow): DebugArtifact {
+	return {
+		id: row.id,
+		callId: row.call_id,
+		tool: row.tool,
+		step: row.step,
+		code: row.code,
+		message: row.message,
+		url: row.url,
+		screenshotKey: row.screenshot_key,
+		domKey: row.dom_key,
+		store: row.store as DebugArtifact["store"],
+		createdAt: row.created_at,
+	};
+}
+
+type IntentRow = {
+	id: string;
+	user_id: string;
+	user_email: string;
+	organization: string;
+	court: string;
+	date: string;
+	time: string;
+	fallbacks: string;
+	release_at: number;
+	status: string;
+	result: string | null;
+	booking_id: string | null;
+	created_at: number;
+	updated_at: number;
+};
+
+function toIntent(row: IntentRow): BookingIntent {
+	return {
+		id: row.id,
+		userId: row.user_id,
+		userEmail: row.user_email,
+		organization: row.organization,
+		court: row.court,
+		date: row.date,
+		time: row.time,
+		fallbacks: JSON.parse(row.fallbacks),
+		releaseAt: row.release_at,
+		status: row.status as IntentStatus,
+		result: row.result,
+		bookingId: row.booking_id,
+		createdAt: row.created_at,
+		updatedAt: row.updated_at,
+	};
+}
+
+type WatchRow = {
+	id: string;
+	user_id: string;
+	user_email: string;
+	organization: string;
+	court: string;
+	date: string;
+	window_start: string | null;
+	window_end: string | null;
+	channel: string;
+	target: string;
+	status: string;
+	last_snapshot: string | null;
+	last_checked_at: number | null;
+	last_notified_at: number | null;
+	last_error: string | null;
+	created_at: number;
+};
+
+// pending_holds only keeps the hold's own state; the slot comes from its ledger entry
+type HoldRow = {
+	id: string;
+	user_id: string;
+	user_email: string;
+	organization: string;
+	court: string;
+	date: string;
+	time: string;
+	duration_minutes: number | null;
+	source: string;
+	intent_id: string | null;
+	status: string;
+	sms_requested_at: number | null;
+	resend_count: number;
+	inbound_code: string | null;
+	inbound_at: number | null;
+	expires_at: number;
+	last_error: string | null;
+	created_at: number;
+	updated_at: number;
+};
+
+const HOLD_SELECT = `SELECT h.*, b.user_id, b.user_email, b.organization, b.court, b.date, b.time, b.duration_minutes
+	FROM pending_holds h JOIN bookings b ON b.id = h.id`;
+
+function toHold(row: HoldRow): PendingHold {
+	return {
+		id: row.id,
+		userId: row.user_id,
+		userEmail: row.user_email,
+		organization: row.organization,
+		court: row.court,
+		date: row.date,
+		time: row.time,
+		durationMinutes: row.duration_minutes,
+		source: row.source as HoldSource,
+		intentId: row.intent_id,
+		status: row.status as HoldStatus,
+		smsRequestedAt: row.sms_requested_at,
+		resendCount: row.resend_count,
+		inboundCodeAt: row.inbound_code !== null ? row.inbound_at : null,
+		expiresAt: row.expires_at,
+		lastError: row.last_error,
+		createdAt: row.created_at,
+		updatedAt: row.updated_at,
+	};
+}
+
+// What settling a hold means for its ledger entry and, for scheduled holds, its intent
+const HOLD_OUTCOMES: Record<Exclude<HoldStatus, "holding" | "awaiting_sms">, { booking: BookingStatus; intent: IntentStatus }> = {
+	confirmed: { booking: "confirmed", intent: "succeeded" },
+	failed: { booking: "failed", intent: "failed" },
+	abandoned: { booking: "cancelled", intent: "cancelled" },
+	expired: { booking: "failed", intent: "failed" },
+};
+
+// Held pages only live in memory, so an evicted or restarted object has none left
+const LOST_HOLD_MESSAGE = "The page holding this slot was lost when the server restarted; book again";
+
+function lostHoldFailure(step: string): SiteFailure {
+	return toSiteFailure(new SiteError("page_lost", LOST_HOLD_MESSAGE), step);
+}
+
+function toWatch(row: WatchRow): CourtWatch {
+	return {
+		id: row.id,
+		userId: row.user_id,
+		userEmail: row.user_email,
+		organization: row.organization,
+		court: row.court,
+		date: row.date,
+		windowStart: row.window_start,
+		windowEnd: row.window_end,
+		channel: row.channel as NotificationChannelType,
+		target: row.target,
+		status: row.status as WatchStatus,
+		lastSnapshot: row.last_snapshot === null ? null : JSON.parse(row.last_snapshot),
+		lastCheckedAt: row.last_checked_at,
+		lastNotifiedAt: row.last_notified_at,
+		lastError: row.last_error,
+		createdAt: row.created_at,
+	};
+}
+
+function toRecord(row: BookingRow): BookingRecord {
+	return {
+		id: row.id,
+		userId: row.user_id,
+		userEmail: row.user_email,
+		organization: row.organization,
+		court: row.court,
+		date: row.date,
+		time: row.time,
+		durationMinutes: row.duration_minutes,
+		participants: row.participants ? JSON.parse(row.participants) : [],
+		guests: row.guests ? JSON.parse(row.guests) : [],
+		status: row.status as BookingStatus,
+		error: row.error,
+		createdAt: row.created_at,
+		updatedAt: row.updated_at,
+	};
+}
+
+export class UserBookings extends DurableObject<UserBookingsEnv> {
+	private sql: SqlStorage;
+
+	// Holds and scheduled bookings run their browser here rather than in an MCP session
+	private browser: Browser | null = null;
+	private browserLaunch: Promise<Browser> | null = null;
+	// Pages parked at the SMS step, by hold ID. Lost if the object is evicted.
+	private heldPages = new Map<string, Page>();
+	// Holds a call is working on right now (reaching the SMS step, confirming, resending)
+	private busyHolds = new Set<string>();
+
+	constructor(ctx: DurableObjectState, env: UserBookingsEnv) {
+		super(ctx, env);
+		this.sql = ctx.storage.sql;
+		this.sql.exec(`
+			CREATE TABLE IF NOT EXISTS bookings (
+				id TEXT PRIMARY KEY,
+				user_id TEXT NOT NULL,
+				user_email TEXT NOT NULL,
+				court TEXT NOT NULL,
+				date TEXT NOT NULL,
+				time TEXT NOT NULL,
+				duration_minutes INTEGER,
+				participants TEXT,
+				guests TEXT,
+				status TEXT NOT NULL,
+				error TEXT,
+				created_at INTEGER NOT NULL,
+				updated_at INTEGER NOT NULL
+			);
+			CREATE INDEX IF NOT EXISTS bookings_by_date ON bookings (date, created_at);
+			CREATE TABLE IF NOT EXISTS booking_intents (
+				id TEXT PRIMARY KEY,
+				user_id TEXT NOT NULL,
+				user_email TEXT NOT NULL,
+				court TEXT NOT NULL,
+				date TEXT NOT NULL,
+				time TEXT NOT NULL,
+				fallbacks TEXT NOT NULL,
+				release_at INTEGER NOT NULL,
+				status TEXT NOT NULL,
+				result TEXT,
+				booking_id TEXT,
+				created_at INTEGER NOT NULL,
+				updated_at INTEGER NOT NULL
+			);
+			CREATE TABLE IF NOT EXISTS court_watches (
+				id TEXT PRIMARY KEY,
+				user_id TEXT NOT NULL,
+				user_email TEXT NOT NULL,
+				court TEXT NOT NULL,
+				date TEXT NOT NULL,
+				window_start TEXT,
+				window_end TEXT,
+				channel TEXT NOT NULL,
+				target TEXT NOT NULL,
+				status TEXT NOT NULL,
+				last_snapshot TEXT,
+				last_checked_at INTEGER,
+				last_notified_at INTEGER,
+				last_error TEXT,
+				created_at INTEGER NOT NULL
+			);
+			CREATE TABLE IF NOT EXISTS watch_notifications (
+				id INTEGER PRIMARY KEY AUTOINCREMENT,
+				watch_id TEXT NOT NULL,
+				channel TEXT NOT NULL,
+				slots TEXT NOT NULL,
+				sent_at INTEGER NOT NULL
+			);
+			CREATE TABLE IF NOT EXISTS pending_holds (
+				id TEXT PRIMARY KEY,
+				source TEXT NOT NULL,
+				intent_id TEXT,
+				status TEXT NOT NULL,
+				sms_requested_at INTEGER,
+				resend_count INTEGER NOT NULL DEFAULT 0,
+				inbound_code TEXT,
+				inbound_at INTEGER,
+				expires_at INTEGER NOT NULL,
+				last_error TEXT,
+				created_at INTEGER NOT NULL,
+				updated_at INTEGER NOT NULL
+			);
+			CREATE TABLE IF NOT EXISTS dry_runs (
+				id TEXT PRIMARY KEY,
+				user_id TEXT NOT NULL,
+				user_email TEXT NOT NULL,
+				court TEXT NOT NULL,
+				date TEXT NOT NULL,
+				requested_time TEXT NOT NULL,
+				time TEXT,
+				duration_minutes INTEGER,
+				end_time TEXT,
+				participants TEXT NOT NULL,
+				guests TEXT NOT NULL,
+				price TEXT,
+				reason TEXT,
+				selectors TEXT NOT NULL,
+				error TEXT,
+				created_at INTEGER NOT NULL
+			);
+			CREATE TABLE IF NOT EXISTS sms_phone (
+				id INTEGER PRIMARY KEY CHECK (id = 1),
+				phone TEXT NOT NULL,
+				updated_at INTEGER NOT NULL
+			);
+			CREATE TABLE IF NOT EXISTS recus_credentials (
+				id INTEGER PRIMARY KEY CHECK (id = 1),
+				sealed TEXT NOT NULL,
+				email_hint TEXT NOT NULL,
+				updated_at INTEGER NOT NULL
+			);
+			CREATE TABLE IF NOT EXISTS user_settings (
+				id INTEGER PRIMARY KEY CHECK (id = 1),
+				organization TEXT,
+				updated_at INTEGER NOT NULL
+			);
+			CREATE TABLE IF NOT EXISTS debug_artifacts (
+				id TEXT PRIMARY KEY,
+				call_id TEXT NOT NULL,
+				tool TEXT NOT NULL,
+				step TEXT,
+				code TEXT,
+				message TEXT NOT NULL,
+				url TEXT,
+				screenshot_key TEXT,
+				dom_key TEXT,
+				store TEXT NOT NULL,
+				created_at INTEGER NOT NULL
+			);
+			CREATE INDEX IF NOT EXISTS debug_artifacts_by_call ON debug_artifacts (call_id, created_at);
+		`);
+		this.addColumnIfMissing("bookings", "duration_minutes", "INTEGER");
+		this.addColumnIfMissing("bookings", "participants", "TEXT");
+		this.addColumnIfMissing("bookings", "guests", "TEXT");
+		this.addColumnIfMissing("pending_holds", "inbound_code", "TEXT");
+		this.addColumnIfMissing("pending_holds", "inbound_at", "INTEGER");
+		// Everything from before organizations were configurable was made in sfrecpark
+		for (const table of ["bookings", "booking_intents", "court_watches", "dry_runs"]) {
+			this.addColumnIfMissing(table, "organization", `TEXT NOT NULL DEFAULT '${DEFAULT_ORGANIZATION}'`);
+		}
+	}
+
+	// For columns added after a table was first created, which CREATE TABLE IF NOT EXISTS skips
+	private addColumnIfMissing(table: string, column: string, definition: string): void {
+		const columns = this.sql.exec<{ name: string }>(`PRAGMA table_info(${table})`).toArray();
+		if (!columns.some((c) => c.name === column)) {
+			this.sql.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+		}
+	}
+
+	// Every call to book_and_request_sms starts a pending entry, whatever happens next
+	async recordAttempt(attempt: {
+		userId: string;
+		userEmail: string;
+		organization: string;
+		court: string;
+		date: string;
+		time: string;
+	}): Promise<BookingRecord> {
+		const now = Date.now();
+		const id = crypto.randomUUID();
+		this.sql.exec(
+			`INSERT INTO bookings (id, user_id, user_email, organization, court, date, time, status, error, created_at, updated_at)
+			 VALUES (?, ?, ?, ?, ?, ?, ?, 'pending', NULL, ?, ?)`,
+			id,
+			attempt.userId,
+			attempt.userEmail,
+			attempt.organization,
+			attempt.court,
+			attempt.date,
+			attempt.time,
+			now,
+			now,
+		);
+		return (await this.getBooking(id))!;
+	}
+
+	async getBooking(id: string): Promise<BookingRecord | null> {
+		const rows = this.sql.exec<BookingRow>("SELECT * FROM bookings WHERE id = ?", id).toArray();
+		return rows.length > 0 ? toRecord(rows[0]) : null;
+	}
+
+	// The caller's confirmed booking for a slot, if they have one
+	async findConfirmedBooking(
+		organization: string,
+		court: string,
+		date: string,
+		time: string,
+	): Promise<BookingRecord | null> {
+		const rows = this.sql
+			.exec<BookingRow>(
+				`SELECT * FROM bookings
+				 WHERE status = 'confirmed' AND organization = ? AND LOWER(court) = LOWER(?) AND date = ? AND time = ?
+				 ORDER BY created_at DESC LIMIT 1`,
+				organization,
+				court,
+				date,
+				time,
+			)
+			.toArray();
+		return rows.length > 0 ? toRecord(rows[0]) : null;
+	}
+
+	// Returns null when the booking doesn't exist or the transition isn't allowed
+	async updateStatus(id: string, status: BookingStatus, error?: string): Promise<BookingRecord | null> {
+		const booking = await this.getBooking(id);
+		if (!booking) return null;
+
+		if (!canChangeStatus(booking.status, status)) {
+			console.log(`Ignoring booking ${id} transition ${booking.status} -> ${status}`);
+			return null;
+		}
+
+		this.sql.exec(
+			"UPDATE bookings SET status = ?, error = ?, updated_at = ? WHERE id = ?",
+			status,
+			error ?? null,
+			Date.now(),
+			id,
+		);
+		return this.getBooking(id);
+	}
+
+	// A pending booking only learns its exact slot, length and players once rec.us has been read
+	async setHeldSlot(
+		id: string,
+		held: { time: string; durationMinutes: number | null; participants: string[]; guests: string[] },
+	): Promise<BookingRecord | null> {
+		this.sql.exec(
+			`UPDATE bookings SET time = ?, duration_minutes = ?, participants = ?, guests = ?, updated_at = ?
+			 WHERE id = ? AND status = 'pending'`,
+			held.time,
+			held.durationMinutes,
+			JSON.stringify(held.participants),
+			JSON.stringify(held.guests),
+			Date.now(),
+			id,
+		);
+		return this.getBooking(id);
+	}
+
+	async listBookings(query: BookingQuery = {}): Promise<BookingPage> {
+		const conditions: string[] = [];
+		const params: (string | number)[] = [];
+
+		if (query.from) {
+			conditions.push("date >= ?");
+			params.push(query.from);
+		}
+		if (query.to) {
+			conditions.push("date <= ?");
+			params.push(query.to);
+		}
+		if (query.court) {
+			conditions.push("court LIKE ? COLLATE NOCASE");
+			params.push(`%${query.court}%`);
+		}
+		if (query.status) {
+			conditions.push("status = ?");
+			params.push(query.status);
+		}
+
+		const where = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+		const limit = pageSize(query.limit);
+		const offset = decodeCursor(query.cursor);
+
+		const total = this.sql.exec<{ n: number }>(`SELECT COUNT(*) AS n FROM bookings ${where}`, ...params).one().n;
+		const rows = this.sql
+			.exec<BookingRow>(
+				`SELECT * FROM bookings ${where} ORDER BY date DESC, created_at DESC LIMIT ? OFFSET ?`,
+				...params,
+				limit,
+				offset,
+			)
+			.toArray();
+
+		return {
+			bookings: rows.map(toRecord),
+			total,
+			nextCursor: nextCursor(offset, rows.length, total),
+		};
+	}
+
+	// ===== REC.US LOGIN =====
+	// Stored sealed; credentials.ts seals and opens it with the Worker's secret
+	async saveCredentials(sealed: string, emailHint: string): Promise<StoredCredentials> {
+		const updatedAt = Date.now();
+		this.sql.exec(
+			`INSERT INTO recus_credentials (id, sealed, email_hint, updated_at) VALUES (1, ?, ?, ?)
+			 ON CONFLICT (id) DO UPDATE SET sealed = excluded.sealed, email_hint = excluded.email_hint, updated_at = excluded.updated_at`,
+			sealed,
+			emailHint,
+			updatedAt,
+		);
+		return { sealed, emailHint, updatedAt };
+	}
+
+	async getCredentials(): Promise<StoredCredentials | null> {
+		const rows = this.sql
+			.exec<{ sealed: string; email_hint: string; updated_at: number }>("SELECT * FROM recus_credentials WHERE id = 1")
+			.toArray();
+		return rows.length > 0 ? { sealed: rows[0].sealed, emailHint: rows[0].email_hint, updatedAt: rows[0].updated_at } : null;
+	}
+
+	async deleteCredentials(): Promise<boolean> {
+		const existed = (await this.getCredentials()) !== null;
+		this.sql.exec("DELETE FROM recus_credentials");
+		return existed;
+	}
+
+	// ===== DEFAULT ORGANIZATION =====
+	// Used by the user's tool calls that don't name one; null means the server's default
+	async getOrganization(): Promise<string | null> {
+		const rows = this.sql.exec<{ organization: string | null }>("SELECT organization FROM user_settings WHERE id = 1").toArray();
+		return rows.length > 0 ? rows[0].organization : null;
+	}
+
+	async setOrganization(organization: string | null): Promise<string | null> {
+		this.sql.exec(
+			`INSERT INTO user_settings (id, organization, updated_at) VALUES (1, ?, ?)
+			 ON CONFLICT (id) DO UPDATE SET organization = excluded.organization, updated_at = excluded.updated_at`,
+			organization,
+			Date.now(),
+		);
+		return organization;
+	}
+
+	// ===== PENDING HOLDS =====
+	/**
+	 * Runs book_and_request_sms: records the attempt, drives a fresh page up to the SMS
+	 * step and parks it as a hold. Failures come back as `error` rather than thrown,
+	 * since error classes don't survive the RPC boundary.
+	 */
+	async startHold(request: StartHoldInput, credentials: RecUsCredentials): Promise<StartHoldResult> {
+		const booking = await this.recordAttempt({
+			userId: request.userId,
+			userEmail: request.userEmail,
+			organization: request.organization,
+			court: request.court,
+			date: request.date,
+			time: normalizeSlotTime(request.time),
+		});
+		await this.openHold(booking.id, "booking", null);
+
+		let page: Page | null = null;
+		try {
+			const opened = await this.openAccountPage(request.userId, credentials);
+			page = opened.page;
+
+			const held = await getProvider(request.organization).requestBooking(page, request, opened.login);
+			await this.setHeldSlot(booking.id, {
+				time: held.choice.slot.label,
+				durationMinutes: held.durationMinutes,
+				participants: held.participants,
+				guests: held.guests,
+			});
+			this.parkHold(booking.id, page);
+			page = null; // now owned by heldPages
+
+			return { booking: (await this.getBooking(booking.id)) ?? booking, hold: await this.getHold(booking.id), held };
+		} catch (error) {
+			const failure = await this.captureFailure(
+				page,
+				{ userId: request.userId, callId: request.callId, tool: "book_and_request_sms" },
+				classifyHoldError(error),
+			);
+			await this.settleHold(booking.id, "failed", failure.message);
+			return {
+				booking: (await this.getBooking(booking.id)) ?? booking,
+				hold: await this.getHold(booking.id),
+				held: null,
+				error: failure,
+			};
+		} finally {
+			this.busyHolds.delete(booking.id);
+			if (page) await page.close().catch(() => {});
+		}
+	}
+
+	async getHold(id: string): Promise<PendingHold | null> {
+		const rows = this.sql.exec<HoldRow>(`${HOLD_SELECT} WHERE h.id = ?`, id).toArray();
+		return rows.length > 0 ? toHold(rows[0]) : null;
+	}
+
+	async listHolds(includeFinished = false): Promise<PendingHold[]> {
+		await this.settleLostHolds();
+		const rows = includeFinished
+			? this.sql.exec<HoldRow>(`${HOLD_SELECT} ORDER BY h.created_at DESC LIMIT 50`).toArray()
+			: this.sql
+					.exec<HoldRow>(`${HOLD_SELECT} WHERE h.status IN ('holding', 'awaiting_sms') ORDER BY h.expires_at`)
+					.toArray();
+		return rows.map(toHold);
+	}
+
+	// Asks rec.us to text a new code for a hold; the hold keeps its original expiry
+	async resendHoldSms(id: string, callId = id): Promise<HoldActionResult> {
+		await this.settleLostHolds();
+		const hold = await this.getHold(id);
+		if (!hold) return { hold: null, error: { code: "not_found", message: `No pending booking with ID ${id}` } };
+		if (hold.status !== "awaiting_sms" || this.busyHolds.has(id)) {
+			return { hold, error: { code: "conflict", message: this.holdBusyMessage(hold) } };
+		}
+		if (hold.resendCount >= MAX_SMS_RESENDS) {
+			return {
+				hold,
+				error: { code: "limit_reached", message: `The code was already re-sent ${MAX_SMS_RESENDS} times for this booking` },
+			};
+		}
+
+		const page = await this.heldPageFor(hold);
+		if (!page) return { hold: await this.getHold(id), error: lostHoldFailure("resend the code") };
+
+		this.busyHolds.add(id);
+		try {
+			await getProvider(hold.organization).resendCode(page);
+			this.sql.exec(
+				"UPDATE pending_holds SET sms_requested_at = ?, resend_count = resend_count + 1, last_error = NULL, updated_at = ? WHERE id = ?",
+				Date.now(),
+				Date.now(),
+				id,
+			);
+			return { hold: await this.getHold(id) };
+		} catch (error) {
+			const failure = await this.captureFailure(
+				page,
+				{ userId: hold.userId, callId, tool: "resend_sms_code" },
+				toSiteFailure(error, "resend the code"),
+			);
+			this.sql.exec("UPDATE pending_holds SET last_error = ?, updated_at = ? WHERE id = ?", failure.message, Date.now(), id);
+			return { hold: await this.getHold(id), error: failure };
+		} finally {
+			this.busyHolds.delete(id);
+		}
+	}
+
+	// Lets go of the slot: the page is closed and the ledger entry cancelled
+	async abandonHold(id: string): Promise<HoldActionResult> {
+		const hold = await this.getHold(id);
+		if (!hold) return { hold: null, error: { code: "not_found", message: `No pending booking with ID ${id}` } };
+		if (!OPEN_HOLD_STATUSES.includes(hold.status) || this.busyHolds.has(id)) {
+			return { hold, error: { code: "conflict", message: this.holdBusyMessage(hold) } };
+		}
+
+		await this.settleHold(id, "abandoned", "Abandoned before SMS confirmation");
+		await this.scheduleNextAlarm();
+		return { hold: await this.getHold(id) };
+	}
+
+	/**
+	 * Enters `code` on a hold waiting at the SMS step. Without an `id` the only such
+	 * hold is used; with several open the caller has to say which. `callId` tags any debug
+	 * artifacts; forwarded codes have no tool call, so the hold's ID stands in.
+	 */
+	async completeHold(code: string, id?: string, callId?: string): Promise<HeldBookingResult> {
+		const waiting = (await this.listHolds()).filter((h) => h.status === "awaiting_sms");
+
+		let hold: PendingHold | null | undefined;
+		if (id) {
+			hold = await this.getHold(id);
+			if (!hold) {
+				return this.noHold("not_found", `No pending booking with ID ${id}`);
+			}
+			if (hold.status !== "awaiting_sms") {
+				return this.noHold("conflict", this.holdBusyMessage(hold), hold);
+			}
+		} else if (waiting.length === 0) {
+			return this.noHold("not_found", "No booking is waiting for an SMS code. Start one with book_and_request_sms.");
+		} else if (waiting.length > 1) {
+			return this.noHold(
+				"conflict",
+				`${waiting.length} bookings are waiting for a code; pass bookingId. ${waiting.map((h) => `${h.id} (${h.court} ${h.date} ${h.time})`).join(", ")}`,
+			);
+		} else {
+			hold = waiting[0];
+		}
+
+		if (this.busyHolds.has(hold.id)) {
+			return this.noHold("conflict", this.holdBusyMessage(hold), hold);
+		}
+
+		const page = await this.heldPageFor(hold);
+		if (!page) {
+			return {
+				outcome: "none",
+				booking: await this.getBooking(hold.id),
+				intent: hold.intentId ? await this.getIntent(hold.intentId) : null,
+				hold: await this.getHold(hold.id),
+				error: lostHoldFailure("confirm the booking"),
+			};
+		}
+
+		this.busyHolds.add(hold.id);
+		try {
+			const outcome = await getProvider(hold.organization).confirm(page, code);
+			if (outcome === "confirmed") {
+				await this.settleHold(hold.id, "confirmed", "Booked");
+			} else if (outcome === "already_reserved") {
+				await this.settleHold(hold.id, "failed", "Court already reserved at this time");
+			} else {
+				// The page stays put; the code can be tried again until the hold expires
+				this.sql.exec(
+					"UPDATE pending_holds SET last_error = ?, updated_at = ? WHERE id = ?",
+					"rec.us did not confirm in time",
+					Date.now(),
+					hold.id,
+				);
+			}
+			await this.scheduleNextAlarm();
+
+			const booking = await this.getBooking(hold.id);
+			const intent = hold.intentId ? await this.getIntent(hold.intentId) : null;
+			return { outcome, booking, intent, hold: await this.getHold(hold.id) };
+		} catch (error) {
+			// The code never reached rec.us; the hold stays open for another try
+			const failure = await this.captureFailure(
+				page,
+				{ userId: hold.userId, callId: callId ?? hold.id, tool: "enter_sms_code_and_complete" },
+				toSiteFailure(error, "confirm the booking"),
+			);
+			this.sql.exec("UPDATE pending_holds SET last_error = ?, updated_at = ? WHERE id = ?", failure.message, Date.now(), hold.id);
+			return { outcome: "none", booking: null, intent: null, hold: await this.getHold(hold.id), error: failure };
+		} finally {
+			this.busyHolds.delete(hold.id);
+		}
+	}
+
+	private noHold(code: "not_found" | "conflict", message: string, hold: PendingHold | null = null): HeldBookingResult {
+		return { outcome: "none", booking: null, intent: null, hold, error: { code, message } };
+	}
+
+	private holdBusyMessage(hold: PendingHold): string {
+		if (this.busyHolds.has(hold.id)) return `Booking ${hold.id} is being worked on right now; try again in a moment`;
+		if (hold.status === "holding") return `Booking ${hold.id} hasn't reached the SMS step yet`;
+		return `Booking ${hold.id} is ${hold.status}${hold.lastError ? ` (${hold.lastError})` : ""}`;
+	}
+
+	private async openHold(id: string, source: HoldSource, intentId: string | null): Promise<void> {
+		const now = Date.now();
+		this.sql.exec(
+			`INSERT INTO pending_holds (id, source, intent_id, status, sms_requested_at, resend_count, expires_at, last_error, created_at, updated_at)
+			 VALUES (?, ?, ?, 'holding', NULL, 0, ?, NULL, ?, ?)`,
+			id,
+			source,
+			intentId,
+			now + HOLD_TTL_MS,
+			now,
+			now,
+		);
+		this.busyHolds.add(id);
+		await this.scheduleNextAlarm();
+	}
+
+	// The page reached the SMS step; from here it belongs to the hold
+	private parkHold(id: string, page: Page): void {
+		this.heldPages.set(id, page);
+		this.sql.exec(
+			"UPDATE pending_holds SET status = 'awaiting_sms', sms_requested_at = ?, updated_at = ? WHERE id = ? AND status = 'holding'",
+			Date.now(),
+			Date.now(),
+			id,
+		);
+	}
+
+	/**
+	 * Moves an open hold to a final status, closes its page and carries the outcome to
+	 * the ledger entry and, for scheduled holds, the intent. No-op on a settled hold.
+	 */
+	private async settleHold(id: string, status: keyof typeof HOLD_OUTCOMES, message: string): Promise<void> {
+		const hold = await this.getHold(id);
+		if (!hold || !canTransition(hold.status, status)) return;
+
+		const page = this.heldPages.get(id);
+		this.heldPages.delete(id);
+		if (page) await page.close().catch(() => {});
+
+		this.sql.exec(
+			"UPDATE pending_holds SET status = ?, last_error = ?, updated_at = ? WHERE id = ?",
+			status,
+			status === "confirmed" ? null : message,
+			Date.now(),
+			id,
+		);
+		const outcome = HOLD_OUTCOMES[status];
+		await this.updateStatus(id, outcome.booking, status === "confirmed" ? undefined : message);
+		// An intent only answers for the hold it parked at the SMS step, not for fallbacks it gave up on
+		if (hold.intentId && (await this.getIntent(hold.intentId))?.bookingId === id) {
+			this.setIntentStatus(hold.intentId, outcome.intent, message);
+		}
+	}
+
+	/**
+	 * The page parked for an open hold. When it is gone, because the object was evicted
+	 * or restarted or the browser went away, the hold can't go on: it is settled as
+	 * failed and null returned.
+	 */
+	private async heldPageFor(hold: PendingHold): Promise<Page | null> {
+		const page = this.heldPages.get(hold.id);
+		if (page && !page.isClosed()) return page;
+		await this.settleHold(hold.id, "failed", LOST_HOLD_MESSAGE);
+		await this.scheduleNextAlarm();
+		return null;
+	}
+
+	// Open holds whose page isn't in memory belonged to an earlier run of this object
+	private async settleLostHolds(): Promise<void> {
+		const open = this.sql
+			.exec<{ id: string }>("SELECT id FROM pending_holds WHERE status IN ('holding', 'awaiting_sms')")
+			.toArray();
+		for (const { id } of open) {
+			if (!this.heldPages.has(id) && !this.busyHolds.has(id)) {
+				await this.settleHold(id, "failed", LOST_HOLD_MESSAGE);
+			}
+		}
+	}
+
+	private async expireHolds(): Promise<void> {
+		const expired = this.sql
+			.exec<{ id: string }>(
+				"SELECT id FROM pending_holds WHERE status IN ('holding', 'awaiting_sms') AND expires_at <= ?",
+				Date.now(),
+			)
+			.toArray();
+		for (const { id } of expired) {
+			if (this.busyHolds.has(id)) continue; // a confirm in flight gets to finish
+			await this.settleHold(id, "expired", "The hold expired before the SMS code was entered");
+		}
+		await this.settleLostHolds();
+	}
+
+	// ===== DRY RUNS =====
+	/**
+	 * The booking flow up to checkout without texting a code. Recorded in dry_runs only,
+	 * so it never shows up in the ledger, history or holds.
+	 */
+	async runDryRun(request: StartHoldInput, credentials: RecUsCredentials): Promise<DryRunResult> {
+		let page: Page | null = null;
+		let preview: BookingPreview | null = null;
+		let failure: StartHoldError | undefined;
+		try {
+			const opened = await this.openAccountPage(request.userId, credentials);
+			page = opened.page;
+			preview = await getProvider(request.organization).previewBooking(page, request, opened.login);
+		} catch (error) {
+			failure = await this.captureFailure(
+				page,
+				{ userId: request.userId, callId: request.callId, tool: "book_and_request_sms (dry run)" },
+				classifyHoldError(error),
+			);
+		} finally {
+			if (page) await page.close().catch(() => {});
+		}
+
+		const id = crypto.randomUUID();
+		this.sql.exec(
+			`INSERT INTO dry_runs (id, user_id, user_email, organization, court, date, requested_time, time, duration_minutes, end_time, participants, guests, price, reason, selectors, error, created_at)
+			 VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+			id,
+			request.userId,
+			request.userEmail,
+			request.organization,
+			request.court,
+			request.date,
+			request.time,
+			preview?.choice.slot.label ?? null,
+			preview?.durationMinutes ?? null,
+			preview?.endTime ?? null,
+			JSON.stringify(preview?.participants ?? []),
+			JSON.stringify(preview?.guests ?? []),
+			preview?.price ?? null,
+			preview?.choice.reason ?? null,
+			JSON.stringify(preview?.selectors ?? {}),
+			failure?.message ?? null,
+			Date.now(),
+		);
+		return { dryRun: (await this.getDryRun(id))!, error: failure };
+	}
+
+	async getDryRun(id: string): Promise<DryRunRecord | null> {
+		const rows = this.sql.exec<DryRunRow>("SELECT * FROM dry_runs WHERE id = ?", id).toArray();
+		return rows.length > 0 ? toDryRun(rows[0]) : null;
+	}
+
+	async listDryRuns(limit?: number): Promise<DryRunRecord[]> {
+		return this.sql
+			.exec<DryRunRow>("SELECT * FROM dry_runs ORDER BY created_at DESC LIMIT ?", pageSize(limit))
+			.toArray()
+			.map(toDryRun);
+	}
+
+	// ===== DEBUG ARTIFACTS =====
+	async recordDebugArtifact(artifact: DebugArtifact): Promise<void> {
+		this.sql.exec(
+			`INSERT INTO debug_artifacts (id, call_id, tool, step, code, message, url, screenshot_key, dom_key, store, created_at)
+			 VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+			artifact.id,
+			artifact.callId,
+			artifact.tool,
+			artifact.step,
+			artifact.code,
+			artifact.message,
+			artifact.url,
+			artifact.screenshotKey,
+			artifact.domKey,
+			artifact.store,
+			artifact.createdAt,
+		);
+
+		const old = this.sql
+			.exec<DebugArtifactRow>("SELECT * FROM debug_artifacts ORDER BY created_at DESC LIMIT -1 OFFSET ?", MAX_DEBUG_ARTIFACTS)
+			.toArray();
+		if (old.length === 0) return;
+		const keys = old.flatMap((row) => [row.screenshot_key, row.dom_key]).filter((key): key is string => key !== null);
+		await getArtifactStore(this.env)
+			?.delete(keys)
+			.catch((error) => console.error("Could not delete old debug artifacts:", error));
+		for (const row of old) {
+			this.sql.exec("DELETE FROM debug_artifacts WHERE id = ?", row.id);
+		}
+	}
+
+	// The artifacts of one call, or the most recent ones across calls
+	async listDebugArtifacts(callId?: string, limit = 5): Promise<DebugArtifact[]> {
+		const rows = callId
+			? this.sql.exec<DebugArtifactRow>("SELECT * FROM debug_artifacts WHERE call_id = ? ORDER BY created_at", callId).toArray()
+			: this.sql
+					.exec<DebugArtifactRow>("SELECT * FROM debug_artifacts ORDER BY created_at DESC LIMIT ?", Math.min(Math.max(limit, 1), MAX_DEBUG_ARTIFACTS))
+					.toArray();
+		return rows.map(toDebugArtifact);
+	}
+
+	// Saves what the page looked like when this object's own browser work failed
+	private async captureFailure<T extends SiteFailure>(page: Page | null, context: CaptureContext, failure: T): Promise<T> {
+		const artifact = await captureDebugArtifacts(getArtifactStore(this.env), page, context, failure);
+		if (!artifact) return failure;
+		await this.recordDebugArtifact(artifact);
+		return { ...failure, callId: artifact.callId };
+	}
+
+	// ===== FORWARDED SMS CODES =====
+	async setSmsPhone(userId: string, phone: string): Promise<{ phone: string | null; error?: string }> {
+		const owner = await this.env.KV.get(phoneKey(phone));
+		if (owner && owner !== userId) {
+			return { phone: null, error: `${maskPhone(phone)} is already registered by another user` };
+		}
+
+		const previous = await this.getSmsPhone();
+		if (previous && previous !== phone) {
+			await this.env.KV.delete(phoneKey(previous));
+		}
+		await this.env.KV.put(phoneKey(phone), userId);
+		this.sql.exec(
+			`INSERT INTO sms_phone (id, phone, updated_at) VALUES (1, ?, ?)
+			 ON CONFLICT (id) DO UPDATE SET phone = excluded.phone, updated_at = excluded.updated_at`,
+			phone,
+			Date.now(),
+		);
+		return { phone };
+	}
+
+	async getSmsPhone(): Promise<string | null> {
+		const rows = this.sql.exec<{ phone: string }>("SELECT phone FROM sms_phone WHERE id = 1").toArray();
+		return rows.length > 0 ? rows[0].phone : null;
+	}
+
+	async deleteSmsPhone(): Promise<string | null> {
+		const phone = await this.getSmsPhone();
+		if (phone) await this.env.KV.delete(phoneKey(phone));
+		this.sql.exec("DELETE FROM sms_phone");
+		return phone;
+	}
+
+	/**
+	 * Takes a code forwarded from the user's phone and queues it for the hold it belongs
+	 * to: the one waiting at the SMS step whose code was most recently requested before
+	 * the text arrived. The alarm enters it, since confirming can take minutes and the
+	 * webhook has to answer right away.
+	 */
+	async acceptSmsCode(code: string, receivedAt: number): Promise<{ hold: PendingHold | null; error?: string }> {
+		await this.settleLostHolds();
+		const rows = this.sql
+			.exec<HoldRow>(
+				`${HOLD_SELECT}
+				 WHERE h.status = 'awaiting_sms' AND h.sms_requested_at <= ? AND h.expires_at >= ?
+				 ORDER BY h.sms_requested_at DESC LIMIT 1`,
+				receivedAt + SMS_CLOCK_SKEW_MS,
+				receivedAt,
+			)
+			.toArray();
+		if (rows.length === 0) {
+			return { hold: null, error: `No booking was waiting for a code at ${new Date(receivedAt).toISOString()}` };
+		}
+
+		const hold = toHold(rows[0]);
+		this.sql.exec(
+			"UPDATE pending_holds SET inbound_code = ?, inbound_at = ?, updated_at = ? WHERE id = ?",
+			code,
+			receivedAt,
+			Date.now(),
+			hold.id,
+		);
+		await this.scheduleNextAlarm();
+		return { hold: await this.getHold(hold.id) };
+	}
+
+	private async confirmInboundCodes(): Promise<void> {
+		const queued = this.sql
+			.exec<{ id: string; inbound_code: string }>(
+				"SELECT id, inbound_code FROM pending_holds WHERE inbound_code IS NOT NULL AND status = 'awaiting_sms'",
+			)
+			.toArray();
+		for (const { id, inbound_code: code } of queued) {
+			this.sql.exec("UPDATE pending_holds SET inbound_code = NULL WHERE id = ?", id);
+			if (this.busyHolds.has(id)) {
+				// Someone is already entering a code for it by hand
+				console.log(`📨 Forwarded SMS code for booking ${id} dropped: the hold is busy`);
+				continue;
+			}
+
+			const result = await this.completeHold(code, id);
+			console.log(`📨 Forwarded SMS code for booking ${id}: ${result.outcome}`);
+			if (result.booking && (result.outcome === "confirmed" || result.outcome === "already_reserved")) {
+				await invalidateAvailability(this.env.KV, result.booking.organization, result.booking.court, result.booking.date);
+			}
+		}
+	}
+
+	// ===== SCHEDULED BOOKING INTENTS =====
+	async scheduleIntent(input: ScheduleIntentInput): Promise<BookingIntent> {
+		const daysAhead = Number(this.env.RELEASE_DAYS_AHEAD) || DEFAULT_RELEASE_DAYS_AHEAD;
+		const releaseTime = this.env.RELEASE_TIME || DEFAULT_RELEASE_TIME;
+		// Dates that are already open are attempted right away
+		const releaseAt = Math.max(Date.now(), computeReleaseAt(input.date, daysAhead, releaseTime));
+
+		const now = Date.now();
+		const id = crypto.randomUUID();
+		this.sql.exec(
+			`INSERT INTO booking_intents (id, user_id, user_email, organization, court, date, time, fallbacks, release_at, status, result, booking_id, created_at, updated_at)
+			 VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 'scheduled', NULL, NULL, ?, ?)`,
+			id,
+			input.userId,
+			input.userEmail,
+			input.organization,
+			input.court,
+			input.date,
+			input.time,
+			JSON.stringify(input.fallbacks),
+			releaseAt,
+			now,
+			now,
+		);
+
+		await this.scheduleNextAlarm();
+		return (await this.getIntent(id))!;
+	}
+
+	async getIntent(id: string): Promise<BookingIntent | null> {
+		const rows = this.sql.exec<IntentRow>("SELECT * FROM booking_intents WHERE id = ?", id).toArray();
+		return rows.length > 0 ? toIntent(rows[0]) : null;
+	}
+
+	async listIntents(includeFinished = false): Promise<BookingIntent[]> {
+		const rows = includeFinished
+			? this.sql.exec<IntentRow>("SELECT * FROM booking_intents ORDER BY release_at DESC").toArray()
+			: this.sql
+					.exec<IntentRow>(
+						"SELECT * FROM booking_intents WHERE status IN ('scheduled', 'running', 'awaiting_sms') ORDER BY release_at",
+					)
+					.toArray();
+		return rows.map(toIntent);
+	}
+
+	// Only intents that haven't fired, or are parked at the SMS step, can be cancelled
+	async cancelIntent(id: string): Promise<{ intent: BookingIntent | null; error?: string }> {
+		const intent = await this.getIntent(id);
+		if (!intent) return { intent: null, error: `No scheduled booking with ID ${id}` };
+		if (intent.status !== "scheduled" && intent.status !== "awaiting_sms") {
+			return { intent, error: `Scheduled booking ${id} is ${intent.status} and can no longer be cancelled` };
+		}
+
+		if (intent.bookingId) {
+			await this.settleHold(intent.bookingId, "abandoned", "Scheduled booking cancelled before SMS confirmation");
+		}
+		this.setIntentStatus(id, "cancelled", "Cancelled by user");
+		await this.scheduleNextAlarm();
+		return { intent: await this.getIntent(id) };
+	}
+
+	private setIntentStatus(id: string, status: IntentStatus, result: string | null, bookingId?: string): void {
+		this.sql.exec(
+			"UPDATE booking_intents SET status = ?, result = ?, booking_id = COALESCE(?, booking_id), updated_at = ? WHERE id = ?",
+			status,
+			result,
+			bookingId ?? null,
+			Date.now(),
+			id,
+		);
+	}
+
+	// One alarm serves intents (a minute before release), hold expiry, forwarded SMS
+	// codes (right away) and watches (every interval)
+	private async scheduleNextAlarm(): Promise<void> {
+		const nextRelease = this.sql
+			.exec<{ release_at: number | null }>(
+				"SELECT MIN(release_at) AS release_at FROM booking_intents WHERE status = 'scheduled'",
+			)
+			.one().release_at;
+		const nextWatch = this.sql
+			.exec<{ checked_at: number | null }>(
+				"SELECT MIN(COALESCE(last_checked_at, 0)) AS checked_at FROM court_watches WHERE status = 'active'",
+			)
+			.one().checked_at;
+
+		const nextExpiry = this.sql
+			.exec<{ expires_at: number | null }>(
+				"SELECT MIN(expires_at) AS expires_at FROM pending_holds WHERE status IN ('holding', 'awaiting_sms')",
+			)
+			.one().expires_at;
+
+		const inboundWaiting = this.sql
+			.exec<{ n: number }>("SELECT COUNT(*) AS n FROM pending_holds WHERE inbound_code IS NOT NULL AND status = 'awaiting_sms'")
+			.one().n;
+
+		const candidates = [
+			...(nextRelease !== null ? [nextRelease - WARMUP_MS] : []),
+			...(nextExpiry !== null ? [nextExpiry] : []),
+			...(inboundWaiting > 0 ? [Date.now()] : []),
+			...(nextWatch !== null ? [nextWatch + this.watchIntervalMs()] : []),
+		];
+		if (candidates.length === 0) {
+			await this.ctx.storage.deleteAlarm();
+			return;
+		}
+		await this.ctx.storage.setAlarm(Math.max(Date.now(), Math.min(...candidates)));
+	}
+
+	async alarm(): Promise<void> {
+		await this.confirmInboundCodes();
+		await this.expireHolds();
+
+		const due = this.sql
+			.exec<IntentRow>(
+				"SELECT * FROM booking_intents WHERE status = 'scheduled' AND release_at <= ? ORDER BY release_at",
+				Date.now() + WARMUP_MS,
+			)
+			.toArray()
+			.map(toIntent);
+
+		for (const intent of due) {
+			await this.runIntent(intent);
+		}
+		await this.checkWatches();
+		await this.scheduleNextAlarm();
+	}
+
+	// Concurrent holds share one browser, so only the first caller launches it
+	private async getBrowser(): Promise<Browser> {
+		if (this.browser?.isConnected()) return this.browser;
+		if (!this.browserLaunch) {
+			// Keep the session alive while a page waits at the SMS step
+			this.browserLaunch = launch(this.env.MYBROWSER, { keep_alive: 600000 }).finally(() => {
+				this.browserLaunch = null;
+			});
+		}
+		this.browser = await this.browserLaunch;
+		return this.browser;
+	}
+
+	// A page that starts from the user's saved rec.us session for this login, with the credentials that carry it
+	private async openAccountPage(userId: string, credentials: RecUsCredentials): Promise<{ page: Page; login: ProviderCredentials }> {
+		const { page, session } = await openSessionPage(await this.getBrowser(), this.env, userId, credentials);
+		page.setDefaultTimeout(12000);
+		return { page, login: { ...credentials, session } };
+	}
+
+	/**
+	 * Warms up before release (browser, login, court page), then at release keeps
+	 * re-reading the day until the primary slot or a fallback opens and holds it.
+	 */
+	private async runIntent(intent: BookingIntent): Promise<void> {
+		console.log(`⏰ Running scheduled booking ${intent.id}: ${intent.court} ${intent.date} ${intent.time}`);
+		this.setIntentStatus(intent.id, "running", null);
+
+		const slots: IntentSlot[] = [{ court: intent.court, time: intent.time }, ...intent.fallbacks];
+		const provider = getProvider(intent.organization);
+		let page: Page | null = null;
+
+		try {
+			const credentials = await resolveCredentials(this.env, intent.userId, await this.getCredentials());
+			const opened = await this.openAccountPage(intent.userId, credentials);
+			page = opened.page;
+			await provider.logIn(page, opened.login);
+			let openCourtName = slots[0].court;
+			await provider.openCourt(page, openCourtName);
+
+			console.log(`Warm and logged in, waiting for release at ${new Date(intent.releaseAt).toISOString()}`);
+			await sleepUntil(intent.releaseAt);
+
+			const deadline = Date.now() + RELEASE_POLL_MS;
+			const tried = new Set<number>();
+			let lastTimes = "";
+
+			while (Date.now() < deadline && tried.size < slots.length) {
+				for (const [index, slot] of slots.entries()) {
+					if (tried.has(index)) continue;
+
+					if (slot.court !== openCourtName) {
+						await provider.openCourt(page, slot.court);
+						openCourtName = slot.court;
+					}
+
+					lastTimes = await provider.readTimes(page, intent.date);
+					const choice = pickBestSlot(parseSlots(lastTimes), parseTimeRequest(slot.time));
+					if (!choice) continue;
+					const normalizedTime = choice.slot.label;
+
+					tried.add(index);
+					const booking = await this.recordAttempt({
+						userId: intent.userId,
+						userEmail: intent.userEmail,
+						organization: intent.organization,
+						court: slot.court,
+						date: intent.date,
+						time: normalizedTime,
+					});
+					await this.openHold(booking.id, "scheduled", intent.id);
+
+					try {
+						const held = await provider.holdSlot(page, normalizedTime);
+						await this.setHeldSlot(booking.id, { time: normalizedTime, ...held });
+					} catch (error) {
+						const { message } = toSiteFailure(error);
+						this.busyHolds.delete(booking.id);
+						await this.settleHold(booking.id, "failed", message);
+						console.log(`Hold failed for ${slot.court} ${normalizedTime}: ${message}`);
+						// Start the next slot from a clean court page. If even that fails, the
+						// SiteError ends the run below as failed instead of leaving it running
+						const recovering = page;
+						await siteStep("reopen the court page", () => provider.openCourt(recovering, openCourtName), STEP_RETRY);
+						continue;
+					}
+
+					this.parkHold(booking.id, page);
+					this.busyHolds.delete(booking.id);
+					page = null; // now owned by heldPages
+					this.setIntentStatus(
+						intent.id,
+						"awaiting_sms",
+						`Holding ${slot.court} at ${normalizedTime} (${choice.reason}). Enter the SMS code with enter_sms_code_and_complete.`,
+						booking.id,
+					);
+					return;
+				}
+
+				// Nothing open yet: reload and look again. rec.us is busiest right at release,
+				// so a slow reload is retried rather than ending the run
+				const polling = page;
+				await siteStep("reload the court page", () => polling.reload({ waitUntil: "domcontentloaded" }), STEP_RETRY);
+				await page.waitForTimeout(1000);
+			}
+
+			this.setIntentStatus(
+				intent.id,
+				"failed",
+				`No requested slot opened within ${RELEASE_POLL_MS / 1000}s of release. Last seen: ${parseSlots(lastTimes).map((s) => s.label).join(", ") || "nothing"}`,
+			);
+		} catch (error) {
+			// Scheduled runs have no tool call; their artifacts go under the intent's ID.
+			// The intent is settled even when they can't be saved
+			const siteFailure = toSiteFailure(error);
+			const failure = await this.captureFailure(
+				page,
+				{ userId: intent.userId, callId: intent.id, tool: "schedule_booking" },
+				siteFailure,
+			).catch(() => siteFailure);
+			console.error(`Scheduled booking ${intent.id} failed:`, error);
+			const artifacts = failure.callId ? ` Screenshot: get_debug_artifacts with callId ${failure.callId}.` : "";
+			this.setIntentStatus(intent.id, "failed", `${failure.message}. ${failure.nextStep}${artifacts}`);
+		} finally {
+			if (page) await page.close().catch(() => {});
+		}
+	}
+
+	// ===== COURT WATCHES =====
+	private watchIntervalMs(): number {
+		return (Number(this.env.WATCH_INTERVAL_MINUTES) || DEFAULT_WATCH_INTERVAL_MINUTES) * 60 * 1000;
+	}
+
+	async addWatch(input: AddWatchInput): Promise<{ watch: CourtWatch | null; error?: string }> {
+		const active = this.sql
+			.exec<{ n: number }>("SELECT COUNT(*) AS n FROM court_watches WHERE status = 'active'")
+			.one().n;
+		if (active >= MAX_WATCHES_PER_USER) {
+			return { watch: null, error: `You already have ${active} active watches (limit ${MAX_WATCHES_PER_USER}). Remove one first.` };
+		}
+
+		const id = crypto.randomUUID();
+		this.sql.exec(
+			`INSERT INTO court_watches (id, user_id, user_email, organization, court, date, window_start, window_end, channel, target, status, last_snapshot, last_checked_at, last_notified_at, last_error, created_at)
+			 VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'active', NULL, NULL, NULL, NULL, ?)`,
+			id,
+			input.userId,
+			input.userEmail,
+			input.organization,
+			input.court,
+			input.date,
+			input.windowStart,
+			input.windowEnd,
+			input.channel,
+			input.target,
+			Date.now(),
+		);
+
+		// First check runs right away; whatever is already open is reported then
+		await this.scheduleNextAlarm();
+		return { watch: await this.getWatch(id) };
+	}
+
+	async getWatch(id: string): Promise<CourtWatch | null> {
+		const rows = this.sql.exec<WatchRow>("SELECT * FROM court_watches WHERE id = ?", id).toArray();
+		return rows.length > 0 ? toWatch(rows[0]) : null;
+	}
+
+	async listWatches(): Promise<WatchWithNotifications[]> {
+		const watches = this.sql
+			.exec<WatchRow>("SELECT * FROM court_watches ORDER BY date, created_at")
+			.toArray()
+			.map(toWatch);
+
+		return watches.map((watch) => ({
+			...watch,
+			recentNotifications: this.sql
+				.exec<{ channel: string; slots: string; sent_at: number }>(
+					"SELECT channel, slots, sent_at FROM watch_notifications WHERE watch_id = ? ORDER BY sent_at DESC LIMIT 5",
+					watch.id,
+				)
+				.toArray()
+				.map((n) => ({ channel: n.channel as NotificationChannelType, slots: JSON.parse(n.slots), sentAt: n.sent_at })),
+		}));
+	}
+
+	async removeWatch(id: string): Promise<CourtWatch | null> {
+		const watch = await this.getWatch(id);
+		if (!watch) return null;
+
+		this.sql.exec("DELETE FROM watch_notifications WHERE watch_id = ?", id);
+		this.sql.exec("DELETE FROM court_watches WHERE id = ?", id);
+		await this.scheduleNextAlarm();
+		return watch;
+	}
+
+	/**
+	 * Re-reads every court with a watch that is due, one page per court, and notifies
+	 * on slots that opened since the last check. A failed notification leaves the
+	 * snapshot alone so the same slots are retried next time.
+	 */
+	private async checkWatches(): Promise<void> {
+		this.sql.exec("UPDATE court_watches SET status = 'expired' WHERE status = 'active' AND date < ?", pacificToday());
+
+		const due = this.sql
+			.exec<WatchRow>(
+				"SELECT * FROM court_watches WHERE status = 'active' AND COALESCE(last_checked_at, 0) <= ?",
+				Date.now() - this.watchIntervalMs() + 5000,
+			)
+			.toArray()
+			.map(toWatch);
+		if (due.length === 0) return;
+
+		// One page per court; the same name in two organizations is two courts
+		const byCourt = new Map<string, CourtWatch[]>();
+		for (const watch of due) {
+			const key = `${watch.organization}|${watch.court}`;
+			byCourt.set(key, [...(byCourt.get(key) ?? []), watch]);
+		}
+
+		const ttlSeconds = Number(this.env.AVAILABILITY_CACHE_TTL_SECONDS) || DEFAULT_AVAILABILITY_TTL_SECONDS;
+
+		for (const watches of byCourt.values()) {
+			const { organization, court } = watches[0];
+			const dates = [...new Set(watches.map((w) => w.date))];
+			let results: CourtAvailability[];
+			let page: Page | null = null;
+			try {
+				page = await (await this.getBrowser()).newPage();
+				results = await getProvider(organization).checkAvailability(page, court, dates);
+			} catch (error) {
+				const failure = toSiteFailure(error);
+				results = dates.map((date) => ({
+					court,
+					date,
+					availableTimes: [],
+					totalSlots: 0,
+					error: failure.message,
+					errorCode: failure.code,
+					retryable: failure.retryable,
+				}));
+			} finally {
+				if (page) await page.close().catch(() => {});
+			}
+
+			// Fresh reads are worth sharing with check_tennis_courts
+			await Promise.all(results.map((r) => writeCachedAvailability(this.env.KV, organization, r, ttlSeconds)));
+
+			for (const watch of watches) {
+				const result = results.find((r) => r.date === watch.date);
+				if (!result || result.error) {
+					this.updateWatch(watch.id, { lastError: result?.error ?? "No result" });
+					continue;
+				}
+
+				const { current, opened } = compareWatchSlots(watch, result.availableTimes);
+
+				if (opened.length === 0) {
+					this.updateWatch(watch.id, { snapshot: current });
+					continue;
+				}
+
+				const notification: SlotNotification = {
+					watchId: watch.id,
+					userEmail: watch.userEmail,
+					court: watch.court,
+					date: watch.date,
+					slots: opened,
+					detectedAt: Date.now(),
+				};
+				try {
+					const channel = getNotificationChannel(this.env, watch.channel, watch.target);
+					await channel.send(notification);
+					this.sql.exec(
+						"INSERT INTO watch_notifications (watch_id, channel, slots, sent_at) VALUES (?, ?, ?, ?)",
+						watch.id,
+						channel.type,
+						JSON.stringify(opened),
+						notification.detectedAt,
+					);
+					this.updateWatch(watch.id, { snapshot: current, notifiedAt: notification.detectedAt });
+				} catch (error) {
+					console.error(`Notification for watch ${watch.id} failed:`, error);
+					this.updateWatch(watch.id, { lastError: error instanceof Error ? error.message : "Unknown error" });
+				}
+			}
+		}
+	}
+
+	private updateWatch(id: string, update: { snapshot?: string[]; notifiedAt?: number; lastError?: string }): void {
+		this.sql.exec(
+			`UPDATE court_watches
+			 SET last_checked_at = ?,
+				 last_snapshot = COALESCE(?, last_snapshot),
+				 last_notified_at = COALESCE(?, last_notified_at),
+				 last_error = ?
+			 WHERE id = ?`,
+			Date.now(),
+			update.snapshot ? JSON.stringify(update.snapshot) : null,
+			update.notifiedAt ?? null,
+			update.lastError ?? null,
+			id,
+		);
+	}
+}
+
+// ===== SCHEDULED BOOKING INTENTS =====
+// Kept in the same object as the ledger so the alarm can record its attempts directly.
+export interface ScheduleIntentInput {
+	userId: string;
+	userEmail: string;
+	organization: string;
+	court: string;
+	date: string;
+	time: string;
+	fallbacks: IntentSlot[];
+}
+
+// ===== PENDING HOLDS =====
+export interface StartHoldInput extends BookingRequest {
+	userId: string;
+	userEmail: string;
+	organization: string;
+	callId: string; // tags the debug artifacts of a failed run
+}
+
+// A failed booking run, classified; `allowedMinutes` when the length wasn't on offer
+export interface StartHoldError extends SiteFailure {
+	allowedMinutes?: number[];
+}
+
+export interface StartHoldResult {
+	booking: BookingRecord;
+	hold: PendingHold | null;
+	held: HeldSlot | null; // what was held, when the SMS step was reached
+	error?: StartHoldError;
+}
+
+// ===== DRY RUNS =====
+export interface DryRunRecord {
+	id: string;
+	userId: string;
+	userEmail: string;
+	organization: string;
+	court: string;
+	date: string;
+	requestedTime: string;
+	time: string | null; // the slot it would have booked; null when the run failed first
+	durationMinutes: number | null;
+	endTime: string | null;
+	participants: string[];
+	guests: string[];
+	price: string | null;
+	reason: string | null; // why that slot was chosen
+	selectors: Record<string, string>;
+	error: string | null;
+	createdAt: number;
+}
+
+export interface DryRunResult {
+	dryRun: DryRunRecord;
+	error?: StartHoldError;
+}
+
+export interface HoldActionResult {
+	hold: PendingHold | null;
+	error?: { code: "not_found" | "conflict" | "limit_reached"; message: string } | SiteFailure;
+}
+
+export interface HeldBookingResult {
+	outcome: ConfirmOutcome | "none";
+	booking: BookingRecord | null;
+	intent: BookingIntent | null;
+	hold: PendingHold | null;
+	error?: { code: "not_found" | "conflict"; message: string } | SiteFailure; // when outcome is "none"
+}
+
+export interface AddWatchInput {
+	userId: string;
+	userEmail: string;
+	organization: string;
+	court: string;
+	date: string;
+	windowStart: string | null;
+	windowEnd: string | null;
+	channel: NotificationChannelType;
+	target: string;
+}
+
+export interface WatchWithNotifications extends CourtWatch {
+	recentNotifications: { channel: NotificationChannelType; slots: string[]; sentAt: number }[];
+}
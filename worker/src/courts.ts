@@ -0,0 +1,150 @@
+import { DEFAULT_ORGANIZATION } from "./organizations";
+
+// ===== COURT DIRECTORY =====
+// The list of tennis locations in an organization (rec.us/sfrecpark by default), scraped
+// once and cached in KV per organization. Every tool that takes a court name checks it
+// against this directory first, so a typo gets a "did you mean" answer instead of a
+// click that times out.
+
+export interface CourtLocation {
+	name: string;
+	neighborhood: string | null;
+	address: string | null;
+	courtCount: number | null;
+	hasLights: boolean | null;
+}
+
+export interface CourtDirectory {
+	courts: CourtLocation[];
+	refreshedAt: number;
+	source: "rec.us" | "fallback";
+}
+
+export type CourtMatch =
+	| { ok: true; court: CourtLocation }
+	| { ok: false; input: string; suggestions: string[] };
+
+function directoryKey(organization: string): string {
+	return `court_directory:${organization}`;
+}
+
+export const DEFAULT_DIRECTORY_REFRESH_HOURS = 24;
+
+// Used for sfrecpark when rec.us can't be scraped and nothing is cached yet
+export const FALLBACK_COURT_NAMES = [
+	"Alice Marble",
+	"Balboa",
+	"Buena Vista",
+	"Crocker Amazon",
+	"DuPont",
+	"Fulton",
+	"Glen Canyon",
+	"Golden Gate Park",
+	"Hamilton",
+	"Jackson",
+	"J.P. Murphy",
+	"Lafayette",
+	"McLaren",
+	"Miraloma",
+	"Moscone",
+	"Mountain Lake",
+	"Parkside Square",
+	"Potrero Hill",
+	"Presidio Wall",
+	"Richmond",
+	"Rossi",
+	"St. Mary's",
+	"Stern Grove",
+	"Sunset",
+	"Upper Noe",
+];
+
+// Other organizations have no built-in list, so their fallback is empty
+export function fallbackDirectory(organization: string): CourtDirectory {
+	const names = organization === DEFAULT_ORGANIZATION ? FALLBACK_COURT_NAMES : [];
+	return {
+		courts: names.map((name) => ({
+			name,
+			neighborhood: null,
+			address: null,
+			courtCount: null,
+			hasLights: null,
+		})),
+		refreshedAt: 0,
+		source: "fallback",
+	};
+}
+
+export async function loadCachedDirectory(kv: KVNamespace, organization: string): Promise<CourtDirectory | null> {
+	return kv.get<CourtDirectory>(directoryKey(organization), "json");
+}
+
+export async function saveDirectory(kv: KVNamespace, organization: string, directory: CourtDirectory): Promise<void> {
+	await kv.put(directoryKey(organization), JSON.stringify(directory));
+}
+
+export function isDirectoryStale(directory: CourtDirectory, refreshHours: number): boolean {
+	return Date.now() - directory.refreshedAt > refreshHours * 60 * 60 * 1000;
+}
+
+// ===== FUZZY MATCHING =====
+// "Alice Marble Tennis Courts", "alice marble" and "Alice  Marble" all normalize alike
+function normalize(name: string): string {
+	return name
+		.toLowerCase()
+		.replace(/[^a-z0-9 ]/g, " ")
+		.replace(/\b(tennis|courts?|park|playground|rec(reation)? center)\b/g, " ")
+		.replace(/\s+/g, " ")
+		.trim();
+}
+
+function levenshtein(a: string, b: string): number {
+	const previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+	for (let i = 1; i <= a.length; i++) {
+		let diagonal = previous[0];
+		previous[0] = i;
+		for (let j = 1; j <= b.length; j++) {
+			const above = previous[j];
+			previous[j] = Math.min(previous[j] + 1, previous[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+			diagonal = above;
+		}
+	}
+	return previous[b.length];
+}
+
+/**
+ * Resolves a user-supplied court name. Exact matches (ignoring case, punctuation and
+ * words like "park") and unambiguous partial names resolve; anything else returns the
+ * closest names as suggestions.
+ */
+export function matchCourt(input: string, courts: CourtLocation[]): CourtMatch {
+	const wanted = normalize(input);
+	const candidates = courts.map((court) => ({ court, key: normalize(court.name) }));
+
+	const exact = candidates.find((c) => c.key === wanted);
+	if (exact) return { ok: true, court: exact.court };
+
+	// "Golden Gate" -> "Golden Gate Park", but only if it can't mean anything else
+	if (wanted.length >= 3) {
+		const partial = candidates.filter((c) => ` ${c.key} `.includes(` ${wanted} `));
+		if (partial.length === 1) return { ok: true, court: partial[0].court };
+		if (partial.length > 1) {
+			return { ok: false, input, suggestions: partial.map((c) => c.court.name) };
+		}
+	}
+
+	const suggestions = candidates
+		.map((c) => ({ name: c.court.name, distance: levenshtein(wanted, c.key) }))
+		.filter((c) => c.distance <= Math.max(2, Math.ceil(wanted.length * 0.4)))
+		.sort((a, b) => a.distance - b.distance)
+		.slice(0, 3)
+		.map((c) => c.name);
+
+	return { ok: false, input, suggestions };
+}
+
+export function describeCourtMismatch(match: Extract<CourtMatch, { ok: false }>): string {
+	return match.suggestions.length > 0
+		? `Unknown court "${match.input}". Did you mean ${match.suggestions.map((s) => `"${s}"`).join(" or ")}?`
+		: `Unknown court "${match.input}". Run list_courts to see every location.`;
+}
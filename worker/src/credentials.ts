@@ -0,0 +1,165 @@
+// ===== REC.US CREDENTIAL VAULT =====
+// Each authorized user can keep their own rec.us login so bookings land on their own
+// account. Logins are sealed with AES-GCM under the CREDENTIALS_ENCRYPTION_KEY secret
+// before they reach the user's UserBookings storage, and each one is bound to its
+// owner's user ID so a sealed login can't be replayed for someone else. The shared
+// REC_EMAIL/REC_PASSWORD account is used only when REC_CREDENTIALS_FALLBACK=shared.
+
+export interface RecUsCredentials {
+	email: string;
+	password: string;
+}
+
+export type CredentialSource = "user" | "shared";
+
+export interface ResolvedCredentials extends RecUsCredentials {
+	source: CredentialSource;
+}
+
+export type CredentialErrorCode = "not_configured" | "no_credentials" | "invalid_credentials" | "unreadable";
+
+export class CredentialError extends Error {
+	constructor(
+		public readonly code: CredentialErrorCode,
+		message: string,
+	) {
+		super(message);
+		this.name = "CredentialError";
+	}
+}
+
+export interface CredentialEnv {
+	CREDENTIALS_ENCRYPTION_KEY?: string;
+	REC_CREDENTIALS_FALLBACK?: string; // "shared" to fall back to REC_EMAIL/REC_PASSWORD
+	REC_EMAIL?: string;
+	REC_PASSWORD?: string;
+}
+
+// What UserBookings keeps: the sealed login plus a masked email for status pages
+export interface StoredCredentials {
+	sealed: string;
+	emailHint: string;
+	updatedAt: number;
+}
+
+const SEAL_VERSION = "v1";
+
+// Chunked: sealed browser sessions and screenshots are too big to spread into one call
+export function toBase64(bytes: Uint8Array): string {
+	let binary = "";
+	for (let i = 0; i < bytes.length; i += 0x8000) {
+		binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+	}
+	return btoa(binary);
+}
+
+function fromBase64(text: string): Uint8Array {
+	return Uint8Array.from(atob(text), (c) => c.charCodeAt(0));
+}
+
+// Any string works as the secret; it is stretched to a 256-bit key with SHA-256
+async function importKey(env: CredentialEnv): Promise<CryptoKey> {
+	if (!env.CREDENTIALS_ENCRYPTION_KEY) {
+		throw new CredentialError("not_configured", "The CREDENTIALS_ENCRYPTION_KEY secret is not configured");
+	}
+	const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(env.CREDENTIALS_ENCRYPTION_KEY));
+	return crypto.subtle.importKey("raw", digest, "AES-GCM", false, ["encrypt", "decrypt"]);
+}
+
+export function validateCredentials(input: RecUsCredentials): RecUsCredentials {
+	const email = input.email.trim();
+	if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+		throw new CredentialError("invalid_credentials", `"${input.email}" is not an email address`);
+	}
+	if (input.password.length === 0) {
+		throw new CredentialError("invalid_credentials", "The password is empty");
+	}
+	return { email, password: input.password };
+}
+
+// "jane.doe@example.com" -> "j***@example.com"
+export function maskEmail(email: string): string {
+	const [local, domain] = email.split("@");
+	return `${local.slice(0, 1)}***@${domain}`;
+}
+
+/**
+ * Seals `value` with AES-GCM, bound to `owner` as additional data so it only opens for
+ * the same owner. Also used for the saved rec.us browser sessions.
+ */
+export async function sealValue(env: CredentialEnv, owner: string, value: unknown): Promise<string> {
+	const key = await importKey(env);
+	const iv = crypto.getRandomValues(new Uint8Array(12));
+	const ciphertext = await crypto.subtle.encrypt(
+		{ name: "AES-GCM", iv, additionalData: new TextEncoder().encode(owner) },
+		key,
+		new TextEncoder().encode(JSON.stringify(value)),
+	);
+	return `${SEAL_VERSION}.${toBase64(iv)}.${toBase64(new Uint8Array(ciphertext))}`;
+}
+
+// Throws CredentialError("unreadable") naming `what` when `sealed` can't be opened
+export async function openValue<T>(env: CredentialEnv, owner: string, sealed: string, what: string): Promise<T> {
+	const [version, iv, ciphertext] = sealed.split(".");
+	if (version !== SEAL_VERSION || !iv || !ciphertext) {
+		throw new CredentialError("unreadable", `The saved ${what} is in an unknown format; save it again`);
+	}
+	const key = await importKey(env);
+	try {
+		const plaintext = await crypto.subtle.decrypt(
+			{ name: "AES-GCM", iv: fromBase64(iv), additionalData: new TextEncoder().encode(owner) },
+			key,
+			fromBase64(ciphertext),
+		);
+		return JSON.parse(new TextDecoder().decode(plaintext)) as T;
+	} catch {
+		// Wrong key (rotated secret) or a value sealed for another owner
+		throw new CredentialError("unreadable", `The saved ${what} can't be decrypted; save it again`);
+	}
+}
+
+export function sealCredentials(env: CredentialEnv, userId: string, credentials: RecUsCredentials): Promise<string> {
+	return sealValue(env, userId, credentials);
+}
+
+export function openCredentials(env: CredentialEnv, userId: string, sealed: string): Promise<RecUsCredentials> {
+	return openValue<RecUsCredentials>(env, userId, sealed, "rec.us login");
+}
+
+/**
+ * The login to use for `userId`: their own when they saved one, otherwise the shared
+ * account if REC_CREDENTIALS_FALLBACK=shared. Throws CredentialError("no_credentials")
+ * when neither applies.
+ */
+export async function resolveCredentials(
+	env: CredentialEnv,
+	userId: string,
+	stored: StoredCredentials | null,
+): Promise<ResolvedCredentials> {
+	if (stored) {
+		return { ...(await openCredentials(env, userId, stored.sealed)), source: "user" };
+	}
+	if (env.REC_CREDENTIALS_FALLBACK === "shared" && env.REC_EMAIL && env.REC_PASSWORD) {
+		return { email: env.REC_EMAIL, password: env.REC_PASSWORD, source: "shared" };
+	}
+	throw new CredentialError(
+		"no_credentials",
+		"No rec.us login saved for you. Save yours with set_recus_login or on the dashboard.",
+	);
+}
+
+export interface CredentialStatus {
+	saved: boolean;
+	email: string | null; // masked
+	updatedAt: number | null;
+	sharedFallback: boolean; // whether the shared account is used when nothing is saved
+}
+
+export function credentialStatus(env: CredentialEnv, stored: StoredCredentials | null): CredentialStatus {
+	return {
+		saved: stored !== null,
+		email: stored?.emailHint ?? null,
+		updatedAt: stored?.updatedAt ?? null,
+		sharedFallback: env.REC_CREDENTIALS_FALLBACK === "shared",
+	};
+}
@@ -0,0 +1,212 @@
+// ===== DATES =====
+// rec.us runs on San Francisco time, so "today" is the Pacific date no matter where the
+// Worker runs. Every date the tools accept goes through resolveDate: ISO dates,
+// "today", "next Saturday", "this weekend", "in 5 days", "Aug 2". The result is
+// checked against the booking window, so a bad date fails with a clear message instead
+// of a datepicker timeout.
+
+export const PACIFIC_TIME_ZONE = "America/Los_Angeles";
+
+// rec.us opens each date this many days ahead (RELEASE_DAYS_AHEAD overrides)
+export const DEFAULT_BOOKING_WINDOW_DAYS = 7;
+
+// Furthest ahead schedule_booking and watches may target
+export const MAX_SCHEDULE_DAYS_AHEAD = 60;
+
+export const WEEKDAY_NAMES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"] as const;
+
+export type WeekdayName = (typeof WEEKDAY_NAMES)[number];
+
+export type DateErrorCode = "invalid_date" | "date_in_past" | "beyond_booking_window";
+
+export class DateError extends Error {
+	constructor(
+		public readonly code: DateErrorCode,
+		message: string,
+	) {
+		super(message);
+		this.name = "DateError";
+	}
+}
+
+export interface DateRange {
+	start: string;
+	end: string;
+}
+
+// Today's date on the rec.us calendar, YYYY-MM-DD
+export function pacificToday(now: Date = new Date()): string {
+	return now.toLocaleDateString("en-CA", { timeZone: PACIFIC_TIME_ZONE });
+}
+
+// YYYY-MM-DD arithmetic done at UTC noon so no offset can shift the day
+export function addDays(date: string, days: number): string {
+	const d = new Date(`${date}T12:00:00Z`);
+	d.setUTCDate(d.getUTCDate() + days);
+	return d.toISOString().split("T")[0];
+}
+
+export function daysBetween(from: string, to: string): number {
+	return Math.round((Date.parse(`${to}T12:00:00Z`) - Date.parse(`${from}T12:00:00Z`)) / 86400000);
+}
+
+export function weekdayOf(date: string): WeekdayName {
+	return WEEKDAY_NAMES[new Date(`${date}T12:00:00Z`).getUTCDay()];
+}
+
+// Months from `from` to `to` (both YYYY-MM-DD); negative when `to` is earlier
+export function monthsBetween(from: string, to: string): number {
+	const [fromYear, fromMonth] = from.split("-").map(Number);
+	const [toYear, toMonth] = to.split("-").map(Number);
+	return toYear * 12 + toMonth - (fromYear * 12 + fromMonth);
+}
+
+export function formatLongDate(date: string): string {
+	return new Date(`${date}T12:00:00Z`).toLocaleDateString("en-US", {
+		timeZone: "UTC",
+		weekday: "long",
+		month: "long",
+		day: "numeric",
+	});
+}
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+function isValidIso(date: string): boolean {
+	const d = new Date(`${date}T12:00:00Z`);
+	return !Number.isNaN(d.getTime()) && d.toISOString().startsWith(date);
+}
+
+// The first `weekday` strictly after `date`, or on it when `inclusive`
+function nextWeekday(date: string, weekday: WeekdayName, inclusive: boolean): string {
+	const gap = (WEEKDAY_NAMES.indexOf(weekday) - WEEKDAY_NAMES.indexOf(weekdayOf(date)) + 7) % 7;
+	return addDays(date, gap === 0 && !inclusive ? 7 : gap);
+}
+
+function parseWeekday(word: string): WeekdayName | null {
+	const prefix = word.slice(0, 3).toLowerCase();
+	return (WEEKDAY_NAMES as readonly string[]).includes(prefix) ? (prefix as WeekdayName) : null;
+}
+
+/**
+ * Phrases that mean more than one day: "this weekend", "next weekend", "this week",
+ * "next week". Returns null for anything else.
+ */
+export function parseDateRange(input: string, today: string = pacificToday()): DateRange | null {
+	const text = input.trim().toLowerCase();
+
+	if (text === "this weekend" || text === "weekend") {
+		// On a Sunday "this weekend" is just today
+		if (weekdayOf(today) === "sun") return { start: today, end: today };
+		const saturday = nextWeekday(today, "sat", true);
+		return { start: saturday, end: addDays(saturday, 1) };
+	}
+	if (text === "next weekend") {
+		const saturday = nextWeekday(nextWeekday(today, "sat", true), "sat", false);
+		return { start: saturday, end: addDays(saturday, 1) };
+	}
+	if (text === "this week") {
+		return { start: today, end: nextWeekday(today, "sun", true) };
+	}
+	if (text === "next week") {
+		const monday = nextWeekday(today, "mon", false);
+		return { start: monday, end: addDays(monday, 6) };
+	}
+	return null;
+}
+
+/**
+ * Turns what a person typed into YYYY-MM-DD. Understands ISO dates, "today",
+ * "tomorrow", "in 5 days", "in 2 weeks", weekday names with or without "this"/"next",
+ * "this weekend" (its first day), "Aug 2" / "August 2nd" and "8/2". Dates without a
+ * year are the next one on or after today. Throws DateError("invalid_date").
+ */
+export function parseDate(input: string, today: string = pacificToday()): string {
+	const text = input.trim().toLowerCase().replace(/\s+/g, " ");
+
+	if (/^\d{4}-\d{2}-\d{2}$/.test(text)) {
+		if (!isValidIso(text)) throw new DateError("invalid_date", `${input} is not a real date`);
+		return text;
+	}
+	if (text === "today") return today;
+	if (text === "tomorrow") return addDays(today, 1);
+
+	const relative = text.match(/^in (\d+|a|an|one) (day|days|week|weeks)$/);
+	if (relative) {
+		const n = /^\d+$/.test(relative[1]) ? Number(relative[1]) : 1;
+		return addDays(today, relative[2].startsWith("week") ? n * 7 : n);
+	}
+
+	const range = parseDateRange(text, today);
+	if (range) return range.start;
+
+	// "saturday", "this saturday", "sat" can be today; "next saturday" never is
+	const weekdayPhrase = text.match(/^(this |next |coming )?([a-z]+)$/);
+	if (weekdayPhrase) {
+		const weekday = parseWeekday(weekdayPhrase[2]);
+		if (weekday) return nextWeekday(today, weekday, weekdayPhrase[1] !== "next ");
+	}
+
+	const named = text.match(/^(?:[a-z]+,? )?([a-z]+)\.? (\d{1,2})(?:st|nd|rd|th)?(?:,? (\d{4}))?$/);
+	const numeric = text.match(/^(\d{1,2})\/(\d{1,2})(?:\/(\d{4}))?$/);
+	let month = 0;
+	let day = 0;
+	let year: number | null = null;
+	if (named && MONTHS.indexOf(named[1].slice(0, 3)) >= 0) {
+		month = MONTHS.indexOf(named[1].slice(0, 3)) + 1;
+		day = Number(named[2]);
+		year = named[3] ? Number(named[3]) : null;
+	} else if (numeric) {
+		month = Number(numeric[1]);
+		day = Number(numeric[2]);
+		year = numeric[3] ? Number(numeric[3]) : null;
+	}
+
+	if (month > 0) {
+		const pad = (n: number) => String(n).padStart(2, "0");
+		const [todayYear] = today.split("-").map(Number);
+		let candidate = `${year ?? todayYear}-${pad(month)}-${pad(day)}`;
+		if (!isValidIso(candidate)) throw new DateError("invalid_date", `${input} is not a real date`);
+		if (year === null && candidate < today) candidate = `${todayYear + 1}-${pad(month)}-${pad(day)}`;
+		return candidate;
+	}
+
+	throw new DateError(
+		"invalid_date",
+		`Could not understand the date "${input}". Use YYYY-MM-DD, "today", "tomorrow", "next Saturday", "this weekend" or "in 5 days".`,
+	);
+}
+
+export interface DateWindowOptions {
+	today?: string;
+	windowDays?: number; // how far ahead rec.us is open (default DEFAULT_BOOKING_WINDOW_DAYS)
+	allowBeyondWindow?: boolean; // scheduling and watching may look past the window
+}
+
+// Throws DateError when `date` is in the past or further out than allowed
+export function assertDateInWindow(date: string, options: DateWindowOptions = {}): string {
+	const today = options.today ?? pacificToday();
+	const windowDays = options.windowDays ?? DEFAULT_BOOKING_WINDOW_DAYS;
+
+	if (date < today) {
+		throw new DateError("date_in_past", `${date} is in the past (today is ${today} in San Francisco)`);
+	}
+
+	const ahead = daysBetween(today, date);
+	const limit = options.allowBeyondWindow ? MAX_SCHEDULE_DAYS_AHEAD : windowDays;
+	if (ahead > limit) {
+		throw new DateError(
+			"beyond_booking_window",
+			options.allowBeyondWindow
+				? `${date} is ${ahead} days away; the limit is ${MAX_SCHEDULE_DAYS_AHEAD} days`
+				: `${date} isn't open yet: rec.us opens dates ${windowDays} days ahead, so it opens on ${addDays(date, -windowDays)}. Use schedule_booking to book it then.`,
+		);
+	}
+	return date;
+}
+
+// parseDate then assertDateInWindow; a missing date means tomorrow
+export function resolveDate(input: string | undefined, options: DateWindowOptions = {}): string {
+	const today = options.today ?? pacificToday();
+	return assertDateInWindow(parseDate(input ?? "tomorrow", today), { ...options, today });
+}
@@ -0,0 +1,163 @@
+// ===== SITE FAILURES =====
+// Every way a browser step can fail, sorted by what the caller should do about it. A
+// step that throws gets classified into a SiteError: the code says what went wrong,
+// `retryable` whether trying again could help, and `nextStep` what to do otherwise.
+// Transient failures (navigation timeouts, network errors, detached frames) are retried
+// with backoff inside the steps that are safe to repeat; the rest fail straight away.
+
+export const SITE_ERROR_CODES = [
+	"not_available", // the slot is taken, the date isn't open, or the length isn't offered
+	"invalid_input", // participants or guests the court won't take
+	"login_failed", // the booking site rejected the email or password
+	"site_unavailable", // the site didn't answer: network errors, 5xx, navigation timeouts
+	"page_lost", // the page or frame went away mid-step
+	"site_changed", // an element the step needs never showed up
+	"recus_error", // anything else
+] as const;
+
+export type SiteErrorCode = (typeof SITE_ERROR_CODES)[number];
+
+const SITE_ERRORS: Record<SiteErrorCode, { retryable: boolean; nextStep: string }> = {
+	not_available: {
+		retryable: false,
+		nextStep: "Pick another time, court or length; check_tennis_courts lists what's open.",
+	},
+	invalid_input: {
+		retryable: false,
+		nextStep: "Change the request as described; list_participants shows who can be booked for.",
+	},
+	login_failed: {
+		retryable: false,
+		nextStep: "Check the rec.us email and password: save them again with set_recus_login, or fix REC_EMAIL/REC_PASSWORD for the shared account.",
+	},
+	site_unavailable: {
+		retryable: true,
+		nextStep: "rec.us isn't responding. Try again in a few minutes.",
+	},
+	page_lost: {
+		retryable: true,
+		nextStep: "The browser page was lost partway through. Try again.",
+	},
+	site_changed: {
+		retryable: false,
+		nextStep: "rec.us no longer looks the way the tools expect. Run check_site_compatibility to see which selectors broke.",
+	},
+	recus_error: {
+		retryable: false,
+		nextStep: "Check rec.us directly. If it keeps happening, run check_site_compatibility.",
+	},
+};
+
+export class SiteError extends Error {
+	readonly retryable: boolean;
+	readonly nextStep: string;
+
+	constructor(
+		public readonly code: SiteErrorCode,
+		message: string,
+		public step: string | null = null,
+		public attempts = 1,
+	) {
+		super(message);
+		this.name = "SiteError";
+		this.retryable = SITE_ERRORS[code].retryable;
+		this.nextStep = SITE_ERRORS[code].nextStep;
+	}
+}
+
+// A SiteError flattened for the RPC boundary and tool results
+export interface SiteFailure {
+	code: SiteErrorCode;
+	message: string;
+	retryable: boolean;
+	step: string | null;
+	nextStep: string;
+	attempts: number;
+	callId?: string; // set once a screenshot was saved for it; see get_debug_artifacts
+}
+
+const NETWORK_PATTERN = /net::ERR_|ECONNRESET|ECONNREFUSED|ENOTFOUND|ETIMEDOUT|socket hang up/i;
+const PAGE_LOST_PATTERN =
+	/frame (was|got) detached|detached frame|Target (page, context or browser )?(has been )?closed|Execution context was destroyed|page crashed|Session closed/i;
+const TIMEOUT_PATTERN = /Timeout \d+ms exceeded/i;
+// Timeouts while loading a page mean the site is slow or down, not that it changed
+const NAVIGATION_PATTERN = /page\.goto|waiting for navigation|waitForNavigation|waitForLoadState|waitForURL/i;
+
+/**
+ * Sorts anything a step threw into a SiteError. Playwright errors are told apart by
+ * message, since their classes don't survive bundling reliably. `step` names the step
+ * for the message when the error doesn't already carry one.
+ */
+export function classifySiteError(error: unknown, step?: string): SiteError {
+	if (error instanceof SiteError) {
+		if (step && !error.step) error.step = step;
+		return error;
+	}
+
+	const raw = error instanceof Error ? error.message : String(error ?? "Unknown error");
+	// Playwright messages carry a multi-line call log; the first line is the useful part
+	const message = raw.split("\n")[0].trim() || "Unknown error";
+	const at = step ? ` while trying to ${step}` : "";
+
+	if (NETWORK_PATTERN.test(raw)) {
+		return new SiteError("site_unavailable", `rec.us could not be reached${at} (${message})`, step ?? null);
+	}
+	if (PAGE_LOST_PATTERN.test(raw)) {
+		return new SiteError("page_lost", `The page went away${at} (${message})`, step ?? null);
+	}
+	if ((error instanceof Error && error.name === "TimeoutError") || TIMEOUT_PATTERN.test(raw)) {
+		return NAVIGATION_PATTERN.test(raw)
+			? new SiteError("site_unavailable", `rec.us took too long to load${at} (${message})`, step ?? null)
+			: new SiteError("site_changed", `An expected element never appeared${at} (${message})`, step ?? null);
+	}
+	return new SiteError("recus_error", step ? `Failed to ${step}: ${message}` : message, step ?? null);
+}
+
+export function toSiteFailure(error: unknown, step?: string): SiteFailure {
+	const failure = classifySiteError(error, step);
+	return {
+		code: failure.code,
+		message: failure.message,
+		retryable: failure.retryable,
+		step: failure.step,
+		nextStep: failure.nextStep,
+		attempts: failure.attempts,
+	};
+}
+
+// Tells a SiteFailure apart from the plain { code, message } errors it travels with
+export function isSiteFailure(error: { code: string; message: string }): error is SiteFailure {
+	return "nextStep" in error;
+}
+
+export interface RetryPolicy {
+	attempts: number; // including the first
+	baseDelayMs: number; // doubled after each failure, plus up to 25% jitter
+	maxDelayMs: number;
+}
+
+// For steps that only load or read a page, so running them twice is harmless
+export const STEP_RETRY: RetryPolicy = { attempts: 3, baseDelayMs: 1000, maxDelayMs: 8000 };
+
+/**
+ * Runs one browser step and classifies whatever it throws. With a retry policy,
+ * retryable failures run the step again after a backoff; anything else, or the last
+ * attempt's failure, is thrown as a SiteError.
+ */
+export async function siteStep<T>(step: string, run: () => Promise<T>, retry?: RetryPolicy): Promise<T> {
+	const attempts = retry?.attempts ?? 1;
+	for (let attempt = 1; ; attempt++) {
+		try {
+			return await run();
+		} catch (error) {
+			const failure = classifySiteError(error, step);
+			failure.attempts = Math.max(failure.attempts, attempt);
+			if (!retry || !failure.retryable || attempt >= attempts) throw failure;
+
+			const delay = Math.min(retry.baseDelayMs * 2 ** (attempt - 1), retry.maxDelayMs);
+			const wait = Math.round(delay * (1 + Math.random() * 0.25));
+			console.log(`${step}: ${failure.code} (attempt ${attempt}/${attempts}), retrying in ${wait}ms`);
+			await new Promise((resolve) => setTimeout(resolve, wait));
+		}
+	}
+}
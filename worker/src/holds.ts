@@ -0,0 +1,61 @@
+// ===== PENDING HOLDS =====
+// A hold is a slot parked at rec.us's SMS step: a browser page showing the code prompt,
+// waiting for the code the user was texted. Holds live in the owner's UserBookings
+// object next to the ledger entry they settle (the hold's ID is the booking ID), so
+// any of the user's MCP sessions can finish, resend or abandon one, several can be open
+// at once, and the object's alarm lets go of a hold once it has run out.
+
+export const HOLD_STATUSES = ["holding", "awaiting_sms", "confirmed", "failed", "abandoned", "expired"] as const;
+
+export type HoldStatus = (typeof HOLD_STATUSES)[number];
+
+// "booking" holds come from book_and_request_sms, "scheduled" ones from a booking intent
+export type HoldSource = "booking" | "scheduled";
+
+export interface PendingHold {
+	id: string; // the ledger booking ID
+	userId: string;
+	userEmail: string;
+	organization: string;
+	court: string;
+	date: string; // YYYY-MM-DD
+	time: string; // the slot actually held once known, the request until then
+	durationMinutes: number | null;
+	source: HoldSource;
+	intentId: string | null;
+	status: HoldStatus;
+	smsRequestedAt: number | null; // last time rec.us was asked to text a code
+	resendCount: number;
+	inboundCodeAt: number | null; // when a forwarded code arrived that is still to be entered
+	expiresAt: number;
+	lastError: string | null;
+	createdAt: number;
+	updatedAt: number;
+}
+
+// Which statuses a hold can move to from each status
+export const HOLD_TRANSITIONS: Record<HoldStatus, HoldStatus[]> = {
+	holding: ["awaiting_sms", "failed", "abandoned", "expired"],
+	awaiting_sms: ["confirmed", "failed", "abandoned", "expired"],
+	confirmed: [],
+	failed: [],
+	abandoned: [],
+	expired: [],
+};
+
+export const OPEN_HOLD_STATUSES: HoldStatus[] = ["holding", "awaiting_sms"];
+
+// rec.us keeps a slot for a few minutes at checkout; the browser's keep_alive is 10
+export const HOLD_TTL_MS = 10 * 60 * 1000;
+export const MAX_SMS_RESENDS = 3;
+
+export function canTransition(from: HoldStatus, to: HoldStatus): boolean {
+	return HOLD_TRANSITIONS[from].includes(to);
+}
+
+// "4 min left", for listings
+export function describeExpiry(hold: Pick<PendingHold, "expiresAt">, now = Date.now()): string {
+	const seconds = Math.round((hold.expiresAt - now) / 1000);
+	if (seconds <= 0) return "expired";
+	return seconds < 60 ? `${seconds}s left` : `${Math.round(seconds / 60)} min left`;
+}
@@ -1,17 +1,195 @@
 import { McpAgent } from "agents/mcp";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
-import { launch, type BrowserWorker } from "@cloudflare/playwright";
+import { launch, type BrowserWorker, type Page } from "@cloudflare/playwright";
 import { env } from 'cloudflare:workers'
+import OAuthProvider, { type OAuthHelpers, type OAuthProviderOptions } from "@cloudflare/workers-oauth-provider";
+import { SessionVerificationError, verifySessionToken } from "./stytch";
+import {
+	AUTH_URL,
+	AuthorizationRequestError,
+	acceptAuthorizationLogin,
+	beginAuthorization,
+	CONSENT_PATH,
+	completeAuthorization,
+	showConsent,
+	type McpAuthProps,
+} from "./oauth";
+import {
+	UserBookings,
+	type DryRunResult,
+	type StartHoldError,
+	type StartHoldResult,
+} from "./bookings";
+import { normalizeSlotTime, type ConfirmOutcome } from "./recus";
+import { getProvider, type ProviderCredentials } from "./providers";
+import { forgetLoginState, openSessionPage } from "./sessions";
+import { confirmWebhookCode, isWebhookVerified, sendWebhookCode } from "./notifications";
+import { DEFAULT_ORGANIZATION, OrganizationError, normalizeOrganization } from "./organizations";
+import { BOOKING_STATUSES, type BookingRecord } from "./ledger";
+import { parseReservationCards, reconcileReservations } from "./reservations";
+import { MAX_GUESTS, MAX_PARTICIPANTS, describeParticipants } from "./participants";
+import { describeExpiry, type PendingHold } from "./holds";
+import {
+	InboundSmsError,
+	LOCAL_SMS_PATH,
+	LocalSmsSender,
+	SMS_WEBHOOK_PATH,
+	extractVerificationCode,
+	maskPhone,
+	normalizePhone,
+	parseInboundSms,
+	phoneKey,
+	seenMessageKey,
+	seenMessageTtl,
+	type InboundSms,
+} from "./sms";
+import {
+	CredentialError,
+	credentialStatus,
+	maskEmail,
+	openCredentials,
+	resolveCredentials,
+	sealCredentials,
+	toBase64,
+	validateCredentials,
+	type CredentialStatus,
+	type RecUsCredentials,
+	type ResolvedCredentials,
+} from "./credentials";
+import { formatPacific, type BookingIntent } from "./scheduler";
+import {
+	DEFAULT_BOOKING_WINDOW_DAYS,
+	DateError,
+	WEEKDAY_NAMES,
+	addDays,
+	pacificToday,
+	parseDate,
+	parseDateRange,
+	resolveDate,
+} from "./dates";
+import { describeWindow, type CourtWatch } from "./watches";
+import { TimeError, formatDuration, parseTimeOfDay, parseTimeRequest } from "./times";
+import { ORGANIZATION_OPTION, OUTPUT_SCHEMAS, TEXT_OPTION, siteFailureError, toolError, toolResult, type MediaContent } from "./outputs";
+import { isSiteFailure, toSiteFailure } from "./failures";
+import { captureDebugArtifacts, getArtifactStore } from "./artifacts";
+import {
+	DEFAULT_AVAILABILITY_TTL_SECONDS,
+	MAX_RANGE_DAYS,
+	MAX_SWEEP_PAGES,
+	ageSeconds,
+	cacheDecision,
+	expandDateRange,
+	formatAvailabilityMatrix,
+	fromCachedAvailability,
+	groupAvailabilityByDate,
+	invalidateAvailability,
+	mapWithConcurrency,
+	rangeEnd,
+	readCachedAvailability,
+	writeCachedAvailability,
+	type AvailabilityCacheMode,
+	type CourtAvailability,
+} from "./availability";
+import {
+	DEFAULT_DIRECTORY_REFRESH_HOURS,
+	describeCourtMismatch,
+	fallbackDirectory,
+	isDirectoryStale,
+	loadCachedDirectory,
+	matchCourt,
+	saveDirectory,
+	type CourtDirectory,
+} from "./courts";
+
+export { UserBookings };
 
 interface Env {
 	AI: any;                         
 	MYBROWSER: BrowserWorker;         
 	MCP: DurableObjectNamespace;      
 	KV: KVNamespace;           
-	REC_EMAIL: string;                
-	REC_PASSWORD: string;             
+	USER_BOOKINGS: DurableObjectNamespace<UserBookings>;  // per-user booking ledger
+	OAUTH_KV: KVNamespace;            // grants, tokens and clients owned by the OAuth provider
+	OAUTH_PROVIDER: OAuthHelpers;     // injected by the OAuth provider at request time
+	REC_EMAIL?: string;               // shared rec.us account, used only with REC_CREDENTIALS_FALLBACK=shared
+	REC_PASSWORD?: string;
+	REC_CREDENTIALS_FALLBACK?: string; // "shared" lets users without a saved login book on the shared account
+	CREDENTIALS_ENCRYPTION_KEY?: string; // seals each user's saved rec.us login
 	AUTHORIZED_USER_EMAILS: string;
+	ENVIRONMENT: string;
+	STYTCH_PROJECT_ID: string;
+	STYTCH_SECRET: string;
+	STYTCH_VERIFIER?: string;         // "local" to use the LOCAL_STYTCH_SESSIONS stand-in
+	ALLOW_LOCAL_STANDINS?: string;    // "true" in .dev.vars to allow local stand-ins; never deployed
+	LOCAL_STYTCH_SESSIONS?: string;
+	COURT_DIRECTORY_REFRESH_HOURS?: string;  // how often list_courts re-scrapes rec.us (default 24)
+	AVAILABILITY_CACHE_TTL_SECONDS?: string; // how long scraped slots count as fresh (default 120)
+	RELEASE_DAYS_AHEAD?: string;      // how many days ahead rec.us opens a date (default 7)
+	RELEASE_TIME?: string;            // Pacific time new dates open, HH:MM (default 08:00)
+	WATCH_INTERVAL_MINUTES?: string;  // how often court watches re-check (default 5)
+	NOTIFICATION_CHANNEL?: string;    // "local" to log watch notifications instead of sending them
+	NOTIFY_EMAIL?: SendEmail;         // optional send_email binding for email notifications
+	NOTIFY_EMAIL_FROM?: string;
+	SMS_WEBHOOK_SECRET?: string;      // HMAC key forwarder apps sign /sms/inbound payloads with
+	TWILIO_AUTH_TOKEN?: string;       // verifies Twilio-style /sms/inbound requests
+	DEFAULT_ORGANIZATION?: string;    // rec.us organization for users who haven't picked one (default sfrecpark)
+	DEBUG_ARTIFACTS?: R2Bucket;       // screenshots and DOM snapshots of failed browser steps
+	DEBUG_ARTIFACTS_STORE?: string;   // "local" to keep them in KV for a day instead
+}
+
+// ===== BOOKING LEDGER =====
+// Each user's bookings live in their own UserBookings Durable Object
+function getUserBookings(env: Env, userId: string): DurableObjectStub<UserBookings> {
+	return env.USER_BOOKINGS.get(env.USER_BOOKINGS.idFromName(userId));
+}
+
+// Shared by the set_recus_login tool and the dashboard's /recus-login endpoint
+async function saveRecUsLogin(env: Env, userId: string, input: RecUsCredentials): Promise<CredentialStatus> {
+	const credentials = validateCredentials(input);
+	const sealed = await sealCredentials(env, userId, credentials);
+	const stored = await getUserBookings(env, userId).saveCredentials(sealed, maskEmail(credentials.email));
+	return credentialStatus(env, stored);
+}
+
+// Deletes the saved login and its browser session; false when nothing was saved. Shared
+// by remove_recus_login and DELETE /recus-login
+async function removeRecUsLogin(env: Env, userId: string): Promise<boolean> {
+	const ledger = getUserBookings(env, userId);
+	const stored = await ledger.getCredentials();
+	if (!stored || !(await ledger.deleteCredentials())) {
+		return false;
+	}
+	// A login that can't be read any more leaves its session to expire on its own
+	const removed = await openCredentials(env, userId, stored.sealed).catch(() => null);
+	if (removed) {
+		await forgetLoginState(env, userId, removed);
+	}
+	return true;
+}
+
+// Shared by the signed /sms/inbound webhook and the local stand-in sender
+async function receiveInboundSms(env: Env, sms: InboundSms): Promise<PendingHold> {
+	// Claimed before anything else, so a replay of this message finds it taken even if it failed
+	const seenKey = seenMessageKey(sms.messageId);
+	if (await env.KV.get(seenKey)) {
+		throw new InboundSmsError('replayed', `Message from ${maskPhone(sms.phone)} was already processed`, 409);
+	}
+	await env.KV.put(seenKey, '1', { expirationTtl: seenMessageTtl(sms) });
+
+	const userId = await env.KV.get(phoneKey(sms.phone));
+	if (!userId) {
+		throw new InboundSmsError('unknown_number', `${maskPhone(sms.phone)} is not registered with set_sms_phone`, 403);
+	}
+	const code = extractVerificationCode(sms.text);
+	if (!code) {
+		throw new InboundSmsError('no_code', `No verification code in the text from ${maskPhone(sms.phone)}`, 422);
+	}
+	const { hold, error } = await getUserBookings(env, userId).acceptSmsCode(code, sms.receivedAt);
+	if (!hold) {
+		throw new InboundSmsError('no_pending_booking', `${error ?? 'No pending booking'} (text from ${maskPhone(sms.phone)})`, 404);
+	}
+	return hold;
 }
 
 // ===== AUTHENTICATION UTILITIES =====
@@ -26,30 +204,23 @@ function getEnv<Env>() {
 	return env as Env;
 }
 
-// Helper function to store MCP session
-async function storeMCPSession(env: Env, userId: string, email: string): Promise<void> {
-	const sessionKey = `mcp_session:${userId}`;
-	const sessionData = JSON.stringify({
-		id: userId,
-		email: email,
-		verified: true,
-		timestamp: Date.now()
-	});
-	
-	await env.KV.put(sessionKey, sessionData, {
-		expirationTtl: 3600 // 1 hour in seconds
-	});
+// Helper function to check an email against AUTHORIZED_USER_EMAILS
+function isAuthorizedEmail(env: Env, email: string): boolean {
+	const authorizedEmails = (env.AUTHORIZED_USER_EMAILS || '')
+		.split(',')
+		.map(email => email.trim().toLowerCase());
+	return authorizedEmails.includes(email.toLowerCase());
 }
 
-export class MyMCP extends McpAgent {
+export class MyMCP extends McpAgent<Env, unknown, McpAuthProps> {
 	server: McpServer;
 
-	// AUTHENTICATION URL
-	private readonly AUTH_URL = "https://mcp-tennis-auth.pages.dev/login";
-
 	// BROWSER MANAGEMENT PROPERTIES
 	private browser: any = null;                          
 	private lastBrowserInit: number = 0;                  
+	// Recycling this browser leaves held slots alone: their pages belong to UserBookings'
+	// own browser. That object loses them if it is evicted; the hold then fails and has
+	// to be booked again
 	private readonly BROWSER_TIMEOUT = 5 * 60 * 1000;    
 	private initPromise: Promise<void> | null = null;     
 	private isInitializing = false;                       
@@ -57,13 +228,13 @@ export class MyMCP extends McpAgent {
 	// REGISTRATION GUARD
 	private toolsRegistered = false;
 
-	constructor(state: any) {
+	constructor(state: any, env: Env) {
 		// Initialize MCP server with metadata
 		const server = new McpServer({
 			name: "Tennis Court Booking (Consumer Auth)",
 			version: "5.0.0",
 		});
-		super(state, { server });
+		super(state, env);
 		this.server = server;
 		
 		// Only register tools if not already registered
@@ -80,55 +251,51 @@ export class MyMCP extends McpAgent {
 This booking operation requires authentication.
 
 🔗 **AUTHENTICATE NOW:**
-Visit: ${this.AUTH_URL}
+Reconnect your MCP client to this server. It will open ${AUTH_URL}
+so you can sign in, and the new connection will carry your own access token.
 
 Steps:
-1. Click or visit the authentication URL above
-2. Sign in with Google using an authorized email
+1. Disconnect and reconnect this MCP server in your client
+2. Sign in with Google using an authorized email when the login page opens
 3. Return here and try the booking again
 
-Authorized users: ${currentEnv.AUTHORIZED_USER_EMAILS || 'No authorized users configured'}
+Authorized users: ${currentEnv.AUTHORIZED_USER_EMAILS || 'No authorized users configured'}`;
+	}
 
-The authentication page will handle the OAuth flow and register your session automatically.`;
+	private authRequired() {
+		return toolError('auth_required', `Sign in at ${AUTH_URL} to use this tool`, this.getAuthRequiredMessage(getEnv() as Env));
 	}
 
-	// ===== SIMPLIFIED AUTHENTICATION MIDDLEWARE =====
-	private async authenticateUser(extra?: any): Promise<AuthenticatedUser | null> {
+	// ===== AUTHENTICATION MIDDLEWARE =====
+	// Each MCP connection carries its own OAuth access token. The OAuth provider validates
+	// it on every request and passes the grant's props to this Durable Object, so the user
+	// is always the one who authorized this particular connection.
+	private async authenticateUser(): Promise<AuthenticatedUser | null> {
 		try {
-			// For MCP clients, check if we have a stored session
-			const mcpSession = await this.getMCPSession();
-			if (mcpSession) {
-				return mcpSession;
+			const props = this.props;
+			if (!props?.userId || !props?.email) {
+				console.log('🔐 No access token props on this connection');
+				return null;
 			}
 
-			console.log('🔐 No valid authentication found');
-			return null;
+			// Removing someone from AUTHORIZED_USER_EMAILS revokes access for existing tokens too
+			const currentEnv = getEnv() as Env;
+			if (!isAuthorizedEmail(currentEnv, props.email)) {
+				console.log(`🔐 ${props.email} is no longer an authorized user`);
+				return null;
+			}
+
+			return {
+				id: props.userId,
+				email: props.email,
+				verified: true
+			};
 		} catch (error) {
 			console.error('Authentication error:', error);
 			return null;
 		}
 	}
 
-	// Get MCP session
-	private async getMCPSession(): Promise<AuthenticatedUser | null> {
-		const currentEnv = getEnv() as Env;
-		
-		// Look for any recent authenticated session
-		const keys = await currentEnv.KV.list({ prefix: 'mcp_session:' });
-		for (const key of keys.keys) {
-			const session = await currentEnv.KV.get(key.name);
-			if (session) {
-				const sessionData = JSON.parse(session);
-				// Check if session is less than 1 hour old
-				if (Date.now() - sessionData.timestamp < 3600000) {
-					return sessionData;
-				}
-			}
-		}
-		
-		return null;
-	}
-
 	// ===== BROWSER INITIALIZATION & MANAGEMENT =====
 	async init() {
 		if (this.isInitializing) {
@@ -190,64 +357,299 @@ The authentication page will handle the OAuth flow and register your session aut
 		console.log(`${email}:${date.getMonth() + 1}/${date.getDate()},${date.getHours()}:${date.getMinutes()}:${date.getSeconds()} - ${str}`);
 	}
 
-	private getCorrectDate(dateInput?: string): string {
-		const today = new Date();
-		today.setFullYear(2025);
-		
-		if (!dateInput) {
-			const tomorrow = new Date(today);
-			tomorrow.setDate(today.getDate() + 1);
-			return tomorrow.toISOString().split('T')[0];
+	// Shared by holds from book_and_request_sms and from scheduled bookings
+	private formatConfirmOutcome(outcome: ConfirmOutcome, email: string, code: string, booking: BookingRecord | null): string {
+		if (outcome === 'already_reserved') {
+			return `❌ Court already reserved at this time`;
 		}
-		
-		if (dateInput.toLowerCase() === 'today') {
-			return today.toISOString().split('T')[0];
+		if (outcome === 'timeout') {
+			return `❌ Booking timeout - check SF Rec website manually to verify booking status`;
 		}
-		
-		if (dateInput.toLowerCase() === 'tomorrow') {
-			const tomorrow = new Date(today);
-			tomorrow.setDate(today.getDate() + 1);
-			return tomorrow.toISOString().split('T')[0];
+		return `🎾 BOOKING COMPLETED!
+
+🔐 Completed by: ${email}${booking ? `
+🏟️ ${booking.court} on ${booking.date} at ${booking.time}
+🧾 Booking ID: ${booking.id}` : ''}
+✅ SMS code ${code} accepted
+✅ "You're all set!" confirmation received
+✅ Your tennis court is booked!`;
+	}
+
+	private confirmResult(outcome: ConfirmOutcome, email: string, code: string, booking: BookingRecord | null, includeText: boolean) {
+		const text = this.formatConfirmOutcome(outcome, email, code, booking);
+		if (outcome === 'already_reserved') {
+			return toolError('conflict', 'Court already reserved at this time', text);
 		}
-		
-		const providedDate = new Date(dateInput);
-		if (providedDate.getFullYear() < 2025) {
-			providedDate.setFullYear(2025);
+		return toolResult({ outcome, booking }, includeText ? text : undefined);
+	}
+
+	// Failures from the booking flow, whether a real hold or a dry run
+	private holdError(error: StartHoldError, prefix: string) {
+		if (error.allowedMinutes) {
+			const allowed = error.allowedMinutes;
+			const longest = allowed.length > 0 ? Math.max(...allowed) : null;
+			return siteFailureError(error, prefix, `❌ ${error.message}${longest ? `\n\nTry again with duration: ${longest} (${formatDuration(longest)}).` : ''}`);
 		}
-		
-		return providedDate.toISOString().split('T')[0];
+		return siteFailureError(error, prefix);
 	}
 
-	private async getBookingStatus(date: string): Promise<string | null> {
-		this.log('hello ' + await (env as any).KV?.get(`booking:${date}`));
+	// Anything a browser step threw, classified so the caller knows whether to retry. Given
+	// the page it failed on, a screenshot and DOM snapshot are saved under a new call ID;
+	// await it before the page is closed.
+	private async siteError(error: unknown, prefix: string, capture?: { page: Page | null; userId: string; tool: string }) {
+		const failure = toSiteFailure(error);
+		if (!capture) {
+			return siteFailureError(failure, prefix);
+		}
+
+		const currentEnv = getEnv() as Env;
+		const context = { userId: capture.userId, callId: crypto.randomUUID(), tool: capture.tool };
+		const artifact = await captureDebugArtifacts(getArtifactStore(currentEnv), capture.page, context, failure);
+		if (!artifact) {
+			return siteFailureError(failure, prefix);
+		}
 		try {
-			return await (env as any).KV?.get(`booking:${date}`);
-		} catch (error) {
-			console.error('Error getting booking status:', error);
-			return null;
+			await getUserBookings(currentEnv, capture.userId).recordDebugArtifact(artifact);
+		} catch (recordError) {
+			console.error('Could not record debug artifacts:', recordError);
+			return siteFailureError(failure, prefix);
+		}
+		return siteFailureError({ ...failure, callId: artifact.callId }, prefix);
+	}
+
+	private formatIntent(intent: BookingIntent): string {
+		const fallbacks = intent.fallbacks.length > 0
+			? `\n   Fallbacks: ${intent.fallbacks.map(f => `${f.court} ${f.time}`).join(', ')}`
+			: '';
+		return `🗓️ ${intent.court} on ${intent.date} at ${intent.time} — ${intent.status}
+   Runs: ${formatPacific(intent.releaseAt)}${fallbacks}${intent.result ? `\n   Result: ${intent.result}` : ''}
+   ID: ${intent.id}`;
+	}
+
+	private formatHold(hold: PendingHold): string {
+		const open = hold.status === 'holding' || hold.status === 'awaiting_sms';
+		return `📱 ${hold.court} on ${hold.date} at ${hold.time} — ${hold.status}${open ? ` (${describeExpiry(hold)})` : ''}
+   ${hold.source === 'scheduled' ? 'From a scheduled booking' : 'From book_and_request_sms'}${hold.resendCount > 0 ? `, code re-sent ${hold.resendCount}×` : ''}${hold.lastError ? `\n   Note: ${hold.lastError}` : ''}
+   Booking ID: ${hold.id}`;
+	}
+
+	private formatWatch(watch: CourtWatch): string {
+		const checked = watch.lastCheckedAt ? new Date(watch.lastCheckedAt).toLocaleString() : 'not yet';
+		return `👀 ${watch.court} on ${watch.date}, ${describeWindow(watch)} — ${watch.status}
+   Notify: ${watch.channel} (${watch.target}) · last checked ${checked}${watch.lastError ? `\n   ⚠️ ${watch.lastError}` : ''}
+   ID: ${watch.id}`;
+	}
+
+	// How many days ahead rec.us opens dates; RELEASE_DAYS_AHEAD overrides the default
+	private bookingWindowDays(): number {
+		return Number((getEnv() as Env).RELEASE_DAYS_AHEAD) || DEFAULT_BOOKING_WINDOW_DAYS;
+	}
+
+	// A tool's date argument as YYYY-MM-DD on the Pacific calendar, checked against the
+	// booking window. Throws DateError, whose message is written for the caller.
+	private resolveToolDate(dateInput?: string, allowBeyondWindow = false): string {
+		return resolveDate(dateInput, { windowDays: this.bookingWindowDays(), allowBeyondWindow });
+	}
+
+	// A page that starts from the user's saved rec.us session for this login, with the credentials that carry it
+	private async openAccountPage(userId: string, credentials: ResolvedCredentials): Promise<{ page: Page; login: ProviderCredentials }> {
+		const { page, session } = await openSessionPage(this.browser, getEnv() as Env, userId, credentials);
+		page.setDefaultTimeout(12000);
+		return { page, login: { ...credentials, session } };
+	}
+
+	// The calling user's own rec.us login, or the shared one where that fallback is enabled
+	private async recUsLogin(userId: string): Promise<ResolvedCredentials> {
+		const currentEnv = getEnv() as Env;
+		return resolveCredentials(currentEnv, userId, await getUserBookings(currentEnv, userId).getCredentials());
+	}
+
+	private credentialError(error: unknown) {
+		if (error instanceof CredentialError) {
+			return toolError(error.code === 'invalid_credentials' ? 'invalid_input' : 'credentials_required', error.message);
+		}
+		throw error;
+	}
+
+	// Dates, times and organizations that don't parse are the caller's to fix; anything else is a bug
+	private inputError(error: unknown) {
+		if (error instanceof DateError || error instanceof TimeError || error instanceof OrganizationError) {
+			return toolError('invalid_input', error.message);
 		}
+		throw error;
 	}
 
-	// ===== KV STORAGE HELPER =====
-	private async saveBookingToKV(court: string, time: string, date: string, userEmail: string): Promise<void> {
+	// ===== AI SUMMARY =====
+	// Optional prose for people; falls back to a plain sentence per result if AI fails
+	private async summarizeAvailability(results: CourtAvailability[], time?: string): Promise<string> {
+		const lines = results.map(r => r.error
+			? `${r.court} on ${r.date}: error (${r.error})`
+			: `${r.court} on ${r.date}: ${r.availableTimes.length > 0 ? r.availableTimes.join(', ') : 'none available'}${time ? ` (requested ${time} ${r.requestedTimeAvailable ? 'available' : 'not available'})` : ''}`);
+
 		try {
-			const bookingData = {
-				court: court,
-				time: time,
-				date: date,
-				userEmail: userEmail,
-				timestamp: Date.now(),
-				status: 'completed'
-			};
-			
-			// Save with date as key for easy retrieval
-			const dateKey = `booking:${date}`;
-			await (env as any).KV.put(dateKey, JSON.stringify(bookingData));
-			
-			console.log(`✅ Booking saved to KV: ${dateKey}`);
+			const messages = [
+				{ 
+					role: "system", 
+					content: "You are a helpful tennis court booking assistant. Convert tennis court availability data into a friendly, conversational response. Be concise but informative." 
+				},
+				{
+					role: "user",
+					content: `Please summarize this tennis court availability data in a natural, friendly way:
+
+${lines.join('\n')}
+
+Make it conversational and helpful.`
+				},
+			];
+
+			const aiResponse = await (getEnv() as any).AI.run("@cf/meta/llama-3.1-8b-instruct", { messages });
+			if (aiResponse.response) {
+				return aiResponse.response;
+			}
+		} catch (aiError) {
+			console.error('AI response generation failed:', aiError);
+		}
+		return lines.join('\n');
+	}
+
+	// ===== ORGANIZATIONS =====
+	// The one a call names, else the user's saved choice, else DEFAULT_ORGANIZATION.
+	// Throws OrganizationError for a name that doesn't parse.
+	private async resolveOrganization(userId: string | null, requested?: string): Promise<string> {
+		if (requested) return normalizeOrganization(requested);
+		const saved = userId ? await getUserBookings(getEnv() as Env, userId).getOrganization() : null;
+		return saved ?? normalizeOrganization((getEnv() as Env).DEFAULT_ORGANIZATION || DEFAULT_ORGANIZATION);
+	}
+
+	// ===== COURT DIRECTORY =====
+	// Cached in KV per organization; re-scraped when older than COURT_DIRECTORY_REFRESH_HOURS.
+	// If the site can't be read, a stale copy (or the built-in list) is better than nothing.
+	private async getCourtDirectory(organization: string, forceRefresh = false): Promise<CourtDirectory> {
+		const currentEnv = getEnv() as Env;
+		const refreshHours = Number(currentEnv.COURT_DIRECTORY_REFRESH_HOURS) || DEFAULT_DIRECTORY_REFRESH_HOURS;
+		const cached = await loadCachedDirectory(currentEnv.KV, organization);
+		
+		if (cached && !forceRefresh && !isDirectoryStale(cached, refreshHours)) {
+			return cached;
+		}
+
+		let page: Page | null = null;
+		try {
+			const provider = getProvider(organization);
+			await this.init();
+			page = (await this.browser.newPage()) as Page;
+
+			const courts = await provider.listCourts(page);
+			if (courts.length === 0) {
+				throw new Error(`No tennis locations found on ${provider.name}`);
+			}
+
+			const directory: CourtDirectory = { courts, refreshedAt: Date.now(), source: 'rec.us' };
+			await saveDirectory(currentEnv.KV, organization, directory);
+			this.log(`Court directory for ${organization} refreshed: ${courts.length} locations`);
+			return directory;
 		} catch (error) {
-			console.error('❌ Error saving booking to KV:', error);
+			console.error(`Court directory refresh for ${organization} failed:`, error);
+			return cached ?? fallbackDirectory(organization);
+		} finally {
+			if (page) await page.close();
+		}
+	}
+
+	// Maps each requested name to its directory entry, or explains which names didn't match
+	private async resolveCourtNames(organization: string, names: string[]): Promise<{ courts: string[]; error?: undefined } | { error: string }> {
+		const directory = await this.getCourtDirectory(organization);
+		if (directory.courts.length === 0) {
+			return { error: this.noCourtsMessage(organization) };
+		}
+		const resolved: string[] = [];
+		const problems: string[] = [];
+
+		for (const name of names) {
+			const match = matchCourt(name, directory.courts);
+			if (match.ok) {
+				resolved.push(match.court.name);
+			} else {
+				problems.push(describeCourtMismatch(match));
+			}
+		}
+
+		return problems.length > 0 ? { error: problems.join('\n') } : { courts: [...new Set(resolved)] };
+	}
+
+	// For tools where any court will do: the one named, else the first in the directory
+	private async resolveCourtOrDefault(organization: string, name?: string): Promise<{ courts: string[]; error?: undefined } | { error: string }> {
+		if (name) return this.resolveCourtNames(organization, [name]);
+		const first = (await this.getCourtDirectory(organization)).courts[0];
+		return first ? { courts: [first.name] } : { error: this.noCourtsMessage(organization) };
+	}
+
+	private noCourtsMessage(organization: string): string {
+		return `No tennis locations found for organization "${organization}". Check the slug in its rec.us address (rec.us/<slug>).`;
+	}
+
+	// ===== AVAILABILITY SCRAPING =====
+	// Opens its own page so several courts can be checked side by side
+	private async scrapeCourtAvailability(organization: string, targetCourt: string, dates: string[], time?: string): Promise<CourtAvailability[]> {
+		const page = await this.browser.newPage();
+		try {
+			return await getProvider(organization).checkAvailability(page, targetCourt, dates, time);
+		} finally {
+			await page.close(); // Clean up the page
+		}
+	}
+
+	// ===== CACHED AVAILABILITY =====
+	// Serves each court/date from the KV cache when it is younger than the TTL and
+	// scrapes the rest. In stale-while-revalidate mode, expired entries are returned
+	// as-is and refreshed in the background for the next caller.
+	private async getCourtAvailability(
+		organization: string,
+		targetCourt: string,
+		dates: string[],
+		time: string | undefined,
+		options: { ttlSeconds: number; mode: AvailabilityCacheMode }
+	): Promise<CourtAvailability[]> {
+		const kv = (getEnv() as Env).KV;
+		const byDate = new Map<string, CourtAvailability>();
+		const toScrape: string[] = [];
+		const toRevalidate: string[] = [];
+
+		if (options.mode === 'bypass') {
+			toScrape.push(...dates);
+		} else {
+			const cached = await Promise.all(dates.map(d => readCachedAvailability(kv, organization, targetCourt, d)));
+			dates.forEach((d, i) => {
+				const entry = cached[i];
+				const decision = cacheDecision(entry, options.mode, options.ttlSeconds);
+				if (entry && decision !== 'scrape') {
+					byDate.set(d, fromCachedAvailability(entry, time, decision === 'stale'));
+					if (decision === 'stale') toRevalidate.push(d);
+				} else {
+					toScrape.push(d);
+				}
+			});
+		}
+
+		const saveAll = (results: CourtAvailability[]) =>
+			Promise.all(results.map(r => writeCachedAvailability(kv, organization, r, options.ttlSeconds)));
+
+		if (toScrape.length > 0) {
+			const scraped = await this.scrapeCourtAvailability(organization, targetCourt, toScrape, time);
+			await saveAll(scraped);
+			for (const r of scraped) byDate.set(r.date, r);
+		}
+
+		if (toRevalidate.length > 0) {
+			this.log(`Revalidating ${targetCourt} on ${toRevalidate.join(', ')} in the background`);
+			this.ctx.waitUntil(
+				this.scrapeCourtAvailability(organization, targetCourt, toRevalidate)
+					.then(saveAll)
+					.catch(error => console.error(`Background refresh of ${targetCourt} failed:`, error))
+			);
 		}
+
+		return dates.map(d => byDate.get(d)!);
 	}
 
 	// ===== MCP TOOL DEFINITIONS =====
@@ -261,439 +663,683 @@ The authentication page will handle the OAuth flow and register your session aut
 		console.log('Registering MCP tools...');
 		
 		// ===== TOOL 1: CHECK TENNIS COURT AVAILABILITY (PUBLIC - NO AUTH) =====
-		this.server.tool(
+		this.server.registerTool(
 			"check_tennis_courts",
 			{
-				date: z.string().optional().describe("Date in YYYY-MM-DD format, 'today', 'tomorrow', or leave empty for tomorrow"),
-				court: z.string().optional().describe("Specific court name (DuPont, McLaren, Alice Marble, etc.)"),
-				time: z.string().optional().describe("Preferred time (e.g., '8:00 AM')"),
+				description: "Open time slots at one or more courts over one or more dates, from rec.us or the short-lived cache",
+				inputSchema: {
+					date: z.string().optional().describe("Date as YYYY-MM-DD or a phrase like 'today', 'next Saturday', 'in 3 days' or 'this weekend' (checks both days). Empty means tomorrow"),
+					court: z.string().optional().describe("Specific court name (DuPont, McLaren, Alice Marble, etc.). Run list_courts for every location"),
+					courts: z.union([z.array(z.string()).min(1), z.literal("all")]).optional().describe("Several court names to check at once, or \"all\" for every tennis location in the organization. Used when 'court' is not given; one of the two is required"),
+					time: z.string().optional().describe("Time or window to look for: '7pm', '19:00', 'between 5 and 8pm', 'after 6pm', or 'morning', 'lunch', 'afternoon', 'evening', 'night'. Matching slots are listed in matchingTimes"),
+					startDate: z.string().optional().describe("First date of a range to search (YYYY-MM-DD or a phrase like 'next Monday'). Use instead of 'date'"),
+					endDate: z.string().optional().describe(`Last date of the range, inclusive (YYYY-MM-DD or a phrase). Ranges are limited to ${MAX_RANGE_DAYS} days`),
+					nextDays: z.number().int().min(1).max(MAX_RANGE_DAYS).optional().describe("Search this many days starting from startDate (or today), e.g. 7 for 'next 7 days'"),
+					weekdays: z.union([z.enum(["weekdays", "weekends"]), z.array(z.enum(WEEKDAY_NAMES)).min(1)]).optional().describe("Only check these days within the range: \"weekends\", \"weekdays\", or a list like [\"sat\", \"sun\"]"),
+					maxAgeSeconds: z.number().int().min(0).optional().describe("Reuse cached availability younger than this (default AVAILABILITY_CACHE_TTL_SECONDS, 120s)"),
+					cache: z.enum(["default", "stale-while-revalidate", "bypass"]).optional().describe("'default' uses fresh cache entries, 'stale-while-revalidate' answers from any cached entry immediately and refreshes it in the background, 'bypass' always reads rec.us"),
+					summarize: z.boolean().optional().describe("Add an AI-written summary of the results (default false)"),
+					...ORGANIZATION_OPTION,
+					...TEXT_OPTION
+				},
+				outputSchema: OUTPUT_SCHEMAS.check_tennis_courts
 			},
-			async ({ date, court, time }) => {
-				const correctedDate = this.getCorrectDate(date);
+			async ({ date, court, courts, time, startDate, endDate, nextDays, weekdays, maxAgeSeconds, cache = 'default', summarize = false, organization: requestedOrganization, includeText = false }) => {
+				// Public, but a signed-in user's saved organization still applies
+				let organization: string;
+				try {
+					organization = await this.resolveOrganization((await this.authenticateUser())?.id ?? null, requestedOrganization);
+				} catch (error) {
+					return this.inputError(error);
+				}
+
+				const cacheOptions = {
+					ttlSeconds: maxAgeSeconds ?? (Number((getEnv() as Env).AVAILABILITY_CACHE_TTL_SECONDS) || DEFAULT_AVAILABILITY_TTL_SECONDS),
+					mode: cache
+				};
+
+				if (time) {
+					try {
+						parseTimeRequest(time);
+					} catch (error) {
+						return this.inputError(error);
+					}
+				}
+
+				// A sweep of every location is slow, so it has to be asked for
+				if (!court && !courts) {
+					return toolError('invalid_input', 'Name a court with "court", several with "courts", or pass courts: "all" to check every location');
+				}
+
+				// Check names against the court directory before launching any pages
+				let targetCourts: string[];
+				if (court || (courts && courts !== 'all')) {
+					const resolved = await this.resolveCourtNames(organization, court ? [court] : courts as string[]);
+					if (resolved.error !== undefined) {
+						return toolError('unknown_court', resolved.error);
+					}
+					targetCourts = resolved.courts;
+				} else {
+					targetCourts = (await this.getCourtDirectory(organization)).courts.map(c => c.name);
+					if (targetCourts.length === 0) {
+						return toolError('unknown_court', this.noCourtsMessage(organization));
+					}
+				}
+				
+				// A single date unless a range was asked for
+				// ("this weekend" and friends are ranges too)
+				// A range we work out ourselves stops at the last date rec.us has open; an
+				// explicit endDate has to be open already
+				const lastOpen = addDays(pacificToday(), this.bookingWindowDays());
+				const clampEnd = (end: string) => (end < lastOpen ? end : lastOpen);
+				let targetDates: string[];
+				try {
+					const phraseRange = date && !startDate && !endDate && !nextDays ? parseDateRange(date) : null;
+					if (phraseRange) {
+						targetDates = expandDateRange(this.resolveToolDate(phraseRange.start), clampEnd(phraseRange.end), weekdays);
+					} else if (startDate || endDate || nextDays) {
+						const start = this.resolveToolDate(startDate ?? (nextDays ? 'today' : date));
+						const end = endDate ? this.resolveToolDate(endDate) : clampEnd(rangeEnd(start, nextDays ?? 1));
+						targetDates = expandDateRange(start, end, weekdays);
+					} else {
+						targetDates = [this.resolveToolDate(date)];
+					}
+				} catch (error) {
+					if (error instanceof DateError) {
+						return toolError('invalid_input', error.message);
+					}
+					return toolError('invalid_input', `Invalid date range: ${error instanceof Error ? error.message : 'Unknown error'}`);
+				}
+				
+				if (targetDates.length === 0) {
+					return toolError('invalid_input', `No dates in that range match the weekday filter (${Array.isArray(weekdays) ? weekdays.join(', ') : weekdays}).`);
+				}
 				
 				try {
 					console.log('Starting check_tennis_courts...');
 					await this.init(); // Ensure browser is ready
 					
 					if (!this.browser) {
-						return {
-							content: [{
-								type: "text",
-								text: "Error: Browser initialization failed. Check that MYBROWSER binding is configured in wrangler.toml:\n\n[[browser]]\nbinding = \"MYBROWSER\""
-							}]
-						};
+						return toolError('browser_unavailable', 'Browser initialization failed. Check that MYBROWSER binding is configured in wrangler.toml:\n\n[[browser]]\nbinding = "MYBROWSER"');
 					}
 		
-					console.log('Browser available, creating page...');
-					const page = await this.browser.newPage();
-		
-					this.log('Checking court availability');
-					await page.goto("https://www.rec.us/sfrecpark");
-		
-					// Use the requested court or default to DuPont
-					const targetCourt = court || 'DuPont';
-					let availability = null;
-		
-					try {
-						// Navigate to the specific court page
-						await page.getByText(targetCourt).click();
-						await page.waitForSelector('text=Court Reservations', { timeout: 5000 });
-		
-						// Handle date navigation
-						const targetDate = new Date(correctedDate);
-						const today = new Date();
-						today.setFullYear(2025);
-						const nextMonth = targetDate.getMonth() !== today.getMonth();
-		
-						// Open date picker
-						await page.locator('input').click();
-						
-						// Navigate to next month if needed
-						if (nextMonth) {
-							await page.getByRole('button', { name: 'right' }).click();
+					this.log(`Checking availability at ${targetCourts.length} court(s) on ${targetDates.join(', ')}`);
+					
+					// One page per court, at most MAX_SWEEP_PAGES open at a time
+					const perCourt = await mapWithConcurrency(
+						targetCourts,
+						MAX_SWEEP_PAGES,
+						(targetCourt) => this.getCourtAvailability(organization, targetCourt, targetDates, time, cacheOptions),
+						(targetCourt, error): CourtAvailability[] => {
+							const failure = toSiteFailure(error);
+							return targetDates.map(d => ({
+								court: targetCourt,
+								date: d,
+								error: failure.message,
+								errorCode: failure.code,
+								retryable: failure.retryable,
+								availableTimes: [],
+								totalSlots: 0
+							}));
 						}
-		
-						// Select specific day (with zero padding for single digits)
-						const day = targetDate.getDate();
-						await page.locator(`.react-datepicker__day--0${day < 10 ? '0' : ''}${day}:not(.react-datepicker__day--outside-month)`).first().click();
-		
-						// Wait for available times to load
-						await page.waitForSelector('text=/(\\d:)|(No free)/', { timeout: 5000 });
-		
-						// Extract available time slots from the page
-						const times = await page.getByText('Tennis').first().evaluate((el: HTMLElement) => (el.parentElement as HTMLElement).innerText);
-						const availableTimes = times.split('\n').filter((slot: string) => slot.includes(':'));
-		
-						// Compile availability data
-						availability = {
-							court: targetCourt,
-							date: correctedDate,
-							availableTimes: availableTimes,
-							requestedTimeAvailable: time ? availableTimes.some((slot: string) => slot.includes(time)) : null,
-							totalSlots: availableTimes.length
-						};
-		
-					} catch (error) {
-						this.log(`Error checking ${targetCourt}: ${error}`);
-						availability = {
-							court: targetCourt,
-							date: correctedDate,
-							error: error instanceof Error ? error.message : 'Unknown error',
-							availableTimes: [],
-							totalSlots: 0
-						};
-					}
-		
-					await page.close(); // Clean up the page
-		
+					);
+					const results = perCourt.flat().map(r => ({
+						...r,
+						...(r.fetchedAt ? { ageSeconds: ageSeconds(r.fetchedAt) } : {})
+					}));
+					const byDate = groupAvailabilityByDate(results);
+
 					// ===== AI RESPONSE GENERATION =====
-					// Use Cloudflare AI to generate a natural language response
-					let responseText;
-					try {
-						const messages = [
-							{ 
-								role: "system", 
-								content: "You are a helpful tennis court booking assistant. Convert tennis court availability data into a friendly, conversational response. Be concise but informative." 
-							},
-							{
-								role: "user",
-								content: `Please summarize this tennis court availability data in a natural, friendly way:
-								
-								Court: ${availability.court}
-								Date: ${correctedDate}
-								Available times: ${availability.availableTimes.length > 0 ? availability.availableTimes.join(', ') : 'None available'}
-								Requested time: ${time || 'None specified'}
-								Requested time available: ${availability.requestedTimeAvailable}
-								
-								${availability.error ? `Error occurred: ${availability.error}` : ''}
-								
-								Make it conversational and helpful.`
-							},
-						];
-		
-						const aiResponse = await (getEnv() as any).AI.run("@cf/meta/llama-3.1-8b-instruct", { messages });
-						responseText = aiResponse.response || "I was able to check the court availability, but had trouble generating a summary.";
-		
-					} catch (aiError) {
-						console.error('AI response generation failed:', aiError);
-						// Fallback to manual response generation
-						if (availability.error) {
-							responseText = `Sorry, I couldn't check availability for ${targetCourt} on ${correctedDate}. Error: ${availability.error}`;
-						} else if (availability.totalSlots === 0) {
-							responseText = `No time slots are available at ${targetCourt} on ${correctedDate}.`;
-						} else {
-							responseText = `${targetCourt} has ${availability.totalSlots} available time slots on ${correctedDate}: ${availability.availableTimes.join(', ')}.${time && availability.requestedTimeAvailable ? ` Your requested time of ${time} is available!` : time && !availability.requestedTimeAvailable ? ` Unfortunately, your requested time of ${time} is not available.` : ''}`;
+					// Only on request: agents get the data itself, people may want prose
+					let summary: string | undefined;
+					if (summarize) {
+						summary = await this.summarizeAvailability(results, time);
+					}
+
+					// ===== HUMAN-READABLE TEXT =====
+					let text: string | undefined;
+					if (includeText) {
+						text = byDate.map(matrix => {
+							const requested = time
+								? results.filter(r => r.date === matrix.date && r.requestedTimeAvailable).map(r => r.court)
+								: [];
+							return `${formatAvailabilityMatrix(matrix)}${time ? `\n\n⏰ ${time}: ${requested.length > 0 ? `open at ${requested.join(', ')}` : 'not open at any court checked'}` : ''}`;
+						}).join('\n\n');
+						if (summary) {
+							text = `${summary}\n\n${text}`;
 						}
 					}
 		
-					return {
-						content: [{
-							type: "text",
-							text: responseText
-						}]
-					};
+					return toolResult({
+						organization,
+						dates: targetDates,
+						courts: targetCourts,
+						requestedTime: time ?? null,
+						results,
+						matrices: byDate,
+						...(summary ? { summary } : {})
+					}, text);
 		
 				} catch (error) {
 					console.error('Error checking court availability:', error);
-					return {
-						content: [{
-							type: "text",
-							text: `I encountered an error while checking court availability: ${error instanceof Error ? error.message : 'Unknown error'}`
-						}]
-					};
+					return this.siteError(error, 'Error while checking court availability');
 				}
 			}
 		);
 
-		// ===== TOOL 2: BOOK COURT AND REQUEST SMS (PROTECTED - AUTH REQUIRED) =====
-		this.server.tool(
-			"book_and_request_sms",
+		// ===== TOOL 1B: COURT DIRECTORY (PUBLIC - NO AUTH) =====
+		this.server.registerTool(
+			"list_courts",
+			{
+				description: "Every tennis location in the organization (SF Rec by default) with neighborhood, address, court count and lights",
+				inputSchema: {
+					refresh: z.boolean().optional().describe("Re-scrape rec.us now instead of using the cached list"),
+					neighborhood: z.string().optional().describe("Only locations whose neighborhood contains this text"),
+					lightsOnly: z.boolean().optional().describe("Only locations with lit courts"),
+					...ORGANIZATION_OPTION,
+					...TEXT_OPTION
+				},
+				outputSchema: OUTPUT_SCHEMAS.list_courts
+			},
+			async ({ refresh = false, neighborhood, lightsOnly = false, organization: requestedOrganization, includeText = false }) => {
+				let organization: string;
+				try {
+					organization = await this.resolveOrganization((await this.authenticateUser())?.id ?? null, requestedOrganization);
+				} catch (error) {
+					return this.inputError(error);
+				}
+
+				try {
+					const directory = await this.getCourtDirectory(organization, refresh);
+					const courts = directory.courts.filter(c =>
+						(!neighborhood || (c.neighborhood ?? '').toLowerCase().includes(neighborhood.toLowerCase())) &&
+						(!lightsOnly || c.hasLights === true)
+					);
+					const age = directory.refreshedAt
+						? `refreshed ${Math.round((Date.now() - directory.refreshedAt) / 60000)} min ago`
+						: 'built-in list, rec.us could not be read';
+
+					return toolResult({
+						organization,
+						refreshedAt: directory.refreshedAt || null,
+						source: directory.source,
+						courts
+					}, includeText ? `🏟️ ${courts.length} tennis locations in ${organization} (${age})
+
+${courts.map(c => [
+	`• ${c.name}`,
+	c.neighborhood ? ` - ${c.neighborhood}` : '',
+	c.address ? `, ${c.address}` : '',
+	c.courtCount !== null ? ` | ${c.courtCount} court${c.courtCount === 1 ? '' : 's'}` : '',
+	c.hasLights === true ? ' | 💡 lights' : c.hasLights === false ? ' | no lights' : ''
+].join('')).join('\n')}` : undefined);
+				} catch (error) {
+					return toolError('internal_error', `Error listing courts: ${error instanceof Error ? error.message : 'Unknown error'}`);
+				}
+			}
+		);
+
+		// ===== TOOL 2A: LIST PARTICIPANTS (PROTECTED - AUTH REQUIRED) =====
+		this.server.registerTool(
+			"list_participants",
 			{
-				court: z.string().describe("Court name"),
-				time: z.string().describe("Time slot"),
-				date: z.string().describe("Date in YYYY-MM-DD format")
+				description: "People on the rec.us account who a court can be booked for",
+				inputSchema: {
+					court: z.string().optional().describe("Court to read the list at (default: the first court in list_courts); the list is the same everywhere"),
+					date: z.string().optional().describe("A date with open slots at that court (default tomorrow)"),
+					...ORGANIZATION_OPTION,
+					...TEXT_OPTION
+				},
+				outputSchema: OUTPUT_SCHEMAS.list_participants
 			},
-			async ({ court, time, date }, extra) => {
+			async ({ court: requestedCourt, date: requestedDate, organization: requestedOrganization, includeText = false }) => {
 				// 🔒 AUTH CHECK
-				const user = await this.authenticateUser(extra);
+				const user = await this.authenticateUser();
 				if (!user) {
-					const currentEnv = getEnv() as Env;
-					return {
-						content: [{
-							type: "text",
-							text: this.getAuthRequiredMessage(currentEnv)
-						}]
-					};
+					return this.authRequired();
+				}
+
+				let organization: string;
+				try {
+					organization = await this.resolveOrganization(user.id, requestedOrganization);
+				} catch (error) {
+					return this.inputError(error);
+				}
+
+				const resolved = await this.resolveCourtOrDefault(organization, requestedCourt);
+				if (resolved.error !== undefined) {
+					return toolError('unknown_court', resolved.error);
+				}
+				const court = resolved.courts[0];
+
+				let date: string;
+				try {
+					date = this.resolveToolDate(requestedDate);
+				} catch (error) {
+					return this.inputError(error);
+				}
+
+				let credentials: ResolvedCredentials;
+				try {
+					credentials = await this.recUsLogin(user.id);
+				} catch (error) {
+					return this.credentialError(error);
 				}
 
-				console.log(`✅ Authenticated user ${user.email} is booking court...`);
-				
-				console.log('Starting booking and requesting SMS...');
-				
 				if (!this.browser) {
 					await this.init();
 				}
-				
-				const recEmail = (env as any).REC_EMAIL;
-				const recPassword = (env as any).REC_PASSWORD;
-				
-				let page;
-				try {
-					page = await this.browser.newPage();
-					page.setDefaultTimeout(12000);
-					
-					console.log('1. Connecting...');
-					await page.goto("https://www.rec.us/sfrecpark", { 
-						timeout: 20000,
-						waitUntil: 'domcontentloaded'
-					});
-					await page.waitForTimeout(2000);
-					
-					console.log('2. Logging in...');
-					await page.waitForSelector('text=Log In', { timeout: 10000 });
-					await page.getByText('Log In').click();
-					await page.waitForSelector('input[id="email"]', { timeout: 8000 });
-					await page.fill('input[id="email"]', recEmail);
-					await page.fill('input[id="password"]', recPassword);
-					await page.getByText('log in & continue').click();
-					await page.waitForTimeout(3000);
-					
-					console.log('3. Going to court...');
-					await page.waitForSelector(`text=${court}`, { timeout: 10000 });
-					await page.getByText(court).click();
-					await page.waitForTimeout(2000);
-					
-					console.log('4. Selecting date...');
-					const bookDate = new Date(date);
-					const today = new Date();
-					today.setFullYear(2025);
-					const targetDay = bookDate.getDate();
-					const nextMonth = bookDate.getMonth() !== today.getMonth();
-
-					console.log('Clicking date input...');
-					await page.locator('input').click();
-					
-					await page.waitForSelector('.react-datepicker', { timeout: 5000 });
-					await page.waitForTimeout(1000);
-					
-					if (nextMonth) {
-						console.log('Going to next month...');
-						await page.getByRole('button', { name: 'right' }).click();
-						await page.waitForTimeout(500);
-					}
-					
-					console.log(`Selecting day ${targetDay}...`);
-					const daySelector = `.react-datepicker__day--0${targetDay < 10 ? '0' : ''}${targetDay}:not(.react-datepicker__day--outside-month)`;
-					await page.locator(daySelector).first().click();
-					await page.waitForTimeout(1500);
-					
-					console.log('5. Checking time availability...');
-					await page.waitForSelector('text=/(\\d:)|(No free)/', { timeout: 8000 });
-					const times = await page.getByText('Tennis').first().evaluate((el: HTMLElement) => (el.parentElement as HTMLElement).innerText);
-					
-					let normalizedTime = time;
-					if (time.toLowerCase().includes('pm') || time.toLowerCase().includes('am')) {
-						if (!time.includes(':')) {
-							normalizedTime = time.replace(/(\d+)(pm|am)/i, '$1:00 $2').toUpperCase();
-						}
-					}
-					
-					console.log(`Looking for time: ${normalizedTime} in available times: ${times.replace(/\n/g, ', ')}`);
-					
-					if (!times.includes(normalizedTime)) {
-						throw new Error(`${normalizedTime} not available. Available: ${times.replace(/\n/g, ', ')}`);
-					}
-					
-					console.log('6. Booking time...');
-					await page.getByText(normalizedTime).click();
-					
-					console.log('7. Setting duration...');
-					await page.locator(`xpath=//label[text()='Duration']/following-sibling::button`).click();
-					await page.waitForSelector('text=2 hours', { timeout: 5000 });
-					await page.locator('div[role="option"]:not([aria-disabled="true"])').first().click();
-					
-					console.log('8. Selecting participant...');
-					await page.getByText('Select participant').click();
-					await page.getByText('Account Owner').click();
-					
-					console.log('9. Requesting SMS...');
-					await page.locator('button.max-w-max').click();
-					await page.getByText('Send Code').click();
-					
-					await page.waitForTimeout(2000);
-					
-					await page.waitForSelector('input[id="totp"]', { timeout: 8000 });
-					console.log('✅ SMS verification step reached!');
-					
-					return {
-						content: [{
-							type: "text",
-							text: `📱 SMS CODE REQUESTED! 
 
-🔐 Authenticated as: ${user.email}
-Court: ${court}
-Time: ${normalizedTime}
-Date: ${date}
+				let page: Page | null = null;
+				try {
+					const opened = await this.openAccountPage(user.id, credentials);
+					page = opened.page;
+					const participants = await getProvider(organization).listParticipants(page, court, date, opened.login);
 
-An SMS verification code has been sent to your phone.
+					return toolResult({ organization, participants }, includeText ? `👥 ${participants.length} participants on the account:
 
-When you receive the SMS code, run:
-enter_sms_code_and_complete({"code": "YOUR_SMS_CODE"})
+${participants.map(p => `• ${p}`).join('\n')}
 
-🔥 Browser is waiting at verification step!`
-						}]
-					};
-					
+Pass names to book_and_request_sms({participants: [...]}).` : undefined);
 				} catch (error) {
-					if (page) await page.close();
-					return {
-						content: [{
-							type: "text",
-							text: `❌ Booking failed: ${error instanceof Error ? error.message : 'Unknown error'}`
-						}]
-					};
+					return await this.siteError(error, 'Could not read participants', { page, userId: user.id, tool: 'list_participants' });
+				} finally {
+					if (page) await page.close().catch(() => {});
 				}
 			}
 		);
 
-		this.server.tool(
-			"enter_sms_code_and_complete",
+		// ===== TOOL 2: BOOK COURT AND REQUEST SMS (PROTECTED - AUTH REQUIRED) =====
+		this.server.registerTool(
+			"book_and_request_sms",
 			{
-				code: z.string().describe("SMS verification code you received on your phone")
+				description: "Start a booking on rec.us and stop at the SMS verification step, or preview it with dryRun",
+				inputSchema: {
+					court: z.string().describe("Court name, as listed by list_courts"),
+					time: z.string().describe("Exact time ('7pm', '19:00') or a window ('between 5 and 8pm', 'evening'). With a window the best open slot is picked and the reason returned"),
+					date: z.string().describe("Date as YYYY-MM-DD or a phrase like 'tomorrow' or 'next Saturday'; must be open on rec.us already"),
+					duration: z.number().int().positive().optional().describe("How long to book, in minutes (e.g. 60, 90, 120). Must be one of the lengths rec.us offers for the slot; default is the first one offered"),
+					participants: z.array(z.string()).min(1).max(MAX_PARTICIPANTS).optional().describe("Who the court is for, by name as listed by list_participants ('me' is the account owner). Several players only where the court allows it. Default: the account owner"),
+					guests: z.array(z.string()).max(MAX_GUESTS).optional().describe("Names of guests who aren't on the account, where the court takes guests"),
+					dryRun: z.boolean().optional().describe("Run everything up to checkout but stop before 'Send Code': no SMS, no hold, no booking. Reports what would be booked, the price and the selectors used"),
+					...ORGANIZATION_OPTION,
+					...TEXT_OPTION
+				},
+				outputSchema: OUTPUT_SCHEMAS.book_and_request_sms
 			},
-			async ({ code }, extra) => {
+			async ({ court: requestedCourt, time, date: requestedDate, duration, participants, guests, dryRun = false, organization: requestedOrganization, includeText = false }) => {
 				// 🔒 AUTH CHECK
-				const user = await this.authenticateUser(extra);
+				const user = await this.authenticateUser();
 				if (!user) {
-					const currentEnv = getEnv() as Env;
-					return {
-						content: [{
-							type: "text",
-							text: this.getAuthRequiredMessage(currentEnv)
-						}]
-					};
+					return this.authRequired();
 				}
-		
-				console.log(`✅ Authenticated user ${user.email} is completing booking with SMS code: ${code}`);
+
+				console.log(`✅ Authenticated user ${user.email} is booking court...`);
 				
-				if (!this.browser) {
-					await this.init();
+				let organization: string;
+				try {
+					organization = await this.resolveOrganization(user.id, requestedOrganization);
+				} catch (error) {
+					return this.inputError(error);
 				}
-				
+
+				const resolved = await this.resolveCourtNames(organization, [requestedCourt]);
+				if (resolved.error !== undefined) {
+					return toolError('unknown_court', resolved.error);
+				}
+				const court = resolved.courts[0];
+
+				let date: string;
 				try {
-					// Find the page with SMS verification input
-					const pages = await this.browser.contexts()[0]?.pages() || [];
-					let verificationPage = null;
-					
-					for (const page of pages) {
-						try {
-							// Look for the exact input element you specified
-							const hasTotp = await page.locator('input[id="totp"]').isVisible({ timeout: 1000 }).catch(() => false);
-							if (hasTotp) {
-								verificationPage = page;
-								console.log('Found verification page with SMS input');
-								break;
-							}
-						} catch (e) {
-							continue;
-						}
-					}
-					
-					if (!verificationPage) {
-						return {
-							content: [{
-								type: "text",
-								text: `❌ No SMS verification page found.
-		
-		Please:
-		1. Complete your booking manually until you reach SMS verification step
-		2. Click "Send Code" button  
-		3. When you get the SMS, run this tool again
-		
-		The verification page should have an input field for the code.`
-							}]
-						};
-					}
-					
-					console.log('Found SMS verification input, entering code...');
-					
-					// EXACT GitHub pattern - use page.type instead of fill
-					console.log('entering code');
-					await verificationPage.type('input[id="totp"]', code);
-					
-					// EXACT GitHub timeout pattern
-					verificationPage.setDefaultTimeout(180000); // 3 minute timeout like GitHub
-					console.log('confirming with 3 min timeout');
-					
-					// EXACT GitHub confirm click pattern
+					date = this.resolveToolDate(requestedDate);
+					parseTimeRequest(time);
+				} catch (error) {
+					return this.inputError(error);
+				}
+
+				let credentials: ResolvedCredentials;
+				try {
+					credentials = await this.recUsLogin(user.id);
+				} catch (error) {
+					return this.credentialError(error);
+				}
+				
+				const request = {
+					userId: user.id,
+					userEmail: user.email,
+					organization,
+					callId: crypto.randomUUID(),
+					court,
+					date,
+					time,
+					durationMinutes: duration,
+					participants,
+					guests
+				};
+				
+				if (dryRun) {
+					console.log('Dry run: stopping before Send Code...');
+					let result: DryRunResult;
 					try {
-						await verificationPage.getByText('Confirm').last().click();
-					} catch (e) {
-						// keep trying - exact GitHub pattern
-						console.log("couldn't click confirm somehow");
-						throw new Error(e as string);
+						result = await getUserBookings(getEnv() as Env, user.id).runDryRun(request, credentials);
+					} catch (error) {
+						return toolError('browser_unavailable', `Dry run failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+					}
+					if (result.error) {
+						return this.holdError(result.error, 'Dry run failed');
 					}
 					
-					// EXACT GitHub success detection pattern
-					try {
-						await verificationPage.waitForSelector("text=You're all set!");
-						console.log('success!, terminating');
-						
-						return {
-							content: [{
-								type: "text",
-								text: `🎾 BOOKING COMPLETED!
+					const { dryRun: run } = result;
+					return toolResult({
+						state: 'dry_run',
+						dryRun: run,
+						choice: { requested: time, time: run.time ?? '', reason: run.reason ?? '' },
+						duration: { minutes: run.durationMinutes, endTime: run.endTime },
+						account: credentials.source
+					}, includeText ? `🧪 DRY RUN — nothing was booked and no SMS was sent
+
+Would book: ${court} (${organization}) on ${date} at ${run.time}${run.endTime ? `–${run.endTime}` : ''} (${run.reason})
+Duration: ${run.durationMinutes !== null ? formatDuration(run.durationMinutes) : 'as offered by rec.us'}
+Players: ${describeParticipants(run.participants, run.guests)}
+Price: ${run.price ?? 'not shown'}
+rec.us account: ${maskEmail(credentials.email)}${credentials.source === 'shared' ? ' (shared)' : ''}
+
+Selectors used:
+${Object.entries(run.selectors).map(([step, selector]) => `• ${step}: ${selector}`).join('\n')}
+
+Dry run ID: ${run.id} (see list_dry_runs)` : undefined);
+				}
+				
+				// Whatever happens next, cached availability for this slot can't be trusted
+				await invalidateAvailability((getEnv() as Env).KV, organization, court, date);
+				
+				console.log('Starting booking and requesting SMS...');
+				
+				// The user's Durable Object drives the browser and keeps the page as a pending
+				// booking, so the hold outlives this session and its browser timeout
+				const ledger = getUserBookings(getEnv() as Env, user.id);
+				let started: StartHoldResult;
+				try {
+					started = await ledger.startHold(request, credentials);
+				} catch (error) {
+					return toolError('browser_unavailable', `Booking failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+				}
+				
+				const { booking, hold, held, error } = started;
+				if (error || !held || !hold) {
+					return this.holdError(error ?? toSiteFailure(new Error('Unknown error')), 'Booking failed');
+				}
+				
+				const { choice, durationMinutes, endTime } = held;
+				return toolResult({
+					state: 'awaiting_sms',
+					booking,
+					hold,
+					choice: { requested: time, time: choice.slot.label, reason: choice.reason },
+					duration: { minutes: durationMinutes, endTime },
+					account: credentials.source
+				}, includeText ? `📱 SMS CODE REQUESTED! 
+
+🔐 Authenticated as: ${user.email}
+rec.us account: ${maskEmail(credentials.email)}${credentials.source === 'shared' ? ' (shared)' : ''}
+Court: ${court}
+Time: ${choice.slot.label}${endTime ? `–${endTime}` : ''} (${choice.reason})
+Duration: ${durationMinutes !== null ? formatDuration(durationMinutes) : 'as offered by rec.us'}
+Players: ${describeParticipants(held.participants, held.guests)}
+Date: ${date}
+Booking ID: ${booking.id}
+
+An SMS verification code has been sent to your phone. The slot is held for ${describeExpiry(hold)}.
+
+When you receive the SMS code, run:
+enter_sms_code_and_complete({"code": "YOUR_SMS_CODE", "bookingId": "${booking.id}"})
+
+No text? resend_sms_code({"bookingId": "${booking.id}"}). Changed your mind? abandon_pending_booking({"bookingId": "${booking.id}"}).` : undefined);
+			}
+		);
+
+		this.server.registerTool(
+			"enter_sms_code_and_complete",
+			{
+				description: "Finish a booking waiting at the SMS step with the code rec.us texted you",
+				inputSchema: {
+					code: z.string().describe("SMS verification code you received on your phone"),
+					bookingId: z.string().optional().describe("Which pending booking the code is for; needed only when several are waiting (see list_pending_bookings)"),
+					...TEXT_OPTION
+				},
+				outputSchema: OUTPUT_SCHEMAS.enter_sms_code_and_complete
+			},
+			async ({ code, bookingId, includeText = false }) => {
+				// 🔒 AUTH CHECK
+				const user = await this.authenticateUser();
+				if (!user) {
+					return this.authRequired();
+				}
 		
-		🔐 Completed by: ${user.email}
-		✅ SMS code ${code} accepted
-		✅ "You're all set!" confirmation received
-		✅ Your tennis court is booked!`
-							}]
-						};
-						
-					} catch (e) {
-						console.error(e);
-						console.log('script was too late to book :(, terminating');
-						
-						// Check for specific error like GitHub code
-						try {
-							const pageText = await verificationPage.textContent('body', { timeout: 3000 }).catch(() => '');
-							if (pageText.includes('Court already reserved at this time')) {
-								return {
-									content: [{
-										type: "text",
-										text: `❌ Court already reserved at this time`
-									}]
-								};
-							}
-						} catch (ee) {
-							// Ignore
+				console.log(`✅ Authenticated user ${user.email} is completing booking with SMS code: ${code}`);
+				
+				try {
+					const ledger = getUserBookings(getEnv() as Env, user.id);
+					const result = await ledger.completeHold(code, bookingId, crypto.randomUUID());
+					if (result.outcome === 'none') {
+						if (result.error && isSiteFailure(result.error)) {
+							return siteFailureError(result.error, 'Could not enter the code');
 						}
-						
-						return {
-							content: [{
-								type: "text",
-								text: `❌ Booking timeout - check SF Rec website manually to verify booking status`
-							}]
-						};
+						const message = result.error?.message ?? 'No booking is waiting for an SMS code';
+						return toolError(result.error?.code ?? 'not_found', message, `❌ ${message}
+
+See list_pending_bookings for the bookings waiting at the SMS step.`);
 					}
 					
+					if (result.booking && result.outcome !== 'timeout') {
+						await invalidateAvailability((getEnv() as Env).KV, result.booking.organization, result.booking.court, result.booking.date);
+					}
+					return this.confirmResult(result.outcome, user.email, code, result.booking, includeText);
+					
+				} catch (error) {
+					return this.siteError(error, 'Could not enter the code');
+				}
+			}
+		);
+
+		// ===== TOOL 3A: PENDING BOOKINGS (PROTECTED - AUTH REQUIRED) =====
+		this.server.registerTool(
+			"list_pending_bookings",
+			{
+				description: "Your bookings held at the SMS step, waiting for a code, and how long each is held",
+				inputSchema: {
+					includeFinished: z.boolean().optional().describe("Also show recent holds that were confirmed, failed, abandoned or expired"),
+					...TEXT_OPTION
+				},
+				outputSchema: OUTPUT_SCHEMAS.list_pending_bookings
+			},
+			async ({ includeFinished = false, includeText = false }) => {
+				// 🔒 AUTH CHECK
+				const user = await this.authenticateUser();
+				if (!user) {
+					return this.authRequired();
+				}
+
+				try {
+					const holds = await getUserBookings(getEnv() as Env, user.id).listHolds(includeFinished);
+					return toolResult({ holds }, includeText ? `📱 Pending bookings for ${user.email}
+
+${holds.length > 0 ? holds.map(h => this.formatHold(h)).join('\n\n') : 'Nothing is waiting for an SMS code.'}` : undefined);
 				} catch (error) {
-					return {
-						content: [{
-							type: "text",
-							text: `❌ Error: ${error instanceof Error ? error.message : 'Unknown error'}`
-						}]
-					};
+					return toolError('internal_error', `Error listing pending bookings: ${error instanceof Error ? error.message : 'Unknown error'}`);
+				}
+			}
+		);
+
+		this.server.registerTool(
+			"resend_sms_code",
+			{
+				description: "Ask rec.us to text a new code for a booking waiting at the SMS step",
+				inputSchema: {
+					bookingId: z.string().describe("Pending booking ID from book_and_request_sms or list_pending_bookings"),
+					...TEXT_OPTION
+				},
+				outputSchema: OUTPUT_SCHEMAS.resend_sms_code
+			},
+			async ({ bookingId, includeText = false }) => {
+				// 🔒 AUTH CHECK
+				const user = await this.authenticateUser();
+				if (!user) {
+					return this.authRequired();
+				}
+
+				const { hold, error } = await getUserBookings(getEnv() as Env, user.id).resendHoldSms(bookingId, crypto.randomUUID());
+				if (error && isSiteFailure(error)) {
+					return siteFailureError(error, 'Could not resend the code');
+				}
+				if (error || !hold) {
+					return toolError(error?.code ?? 'not_found', error?.message ?? `No pending booking with ID ${bookingId}`);
+				}
+				return toolResult({ hold }, includeText ? `📱 New SMS code requested\n\n${this.formatHold(hold)}` : undefined);
+			}
+		);
+
+		this.server.registerTool(
+			"abandon_pending_booking",
+			{
+				description: "Let go of a booking held at the SMS step without confirming it",
+				inputSchema: {
+					bookingId: z.string().describe("Pending booking ID from book_and_request_sms or list_pending_bookings"),
+					...TEXT_OPTION
+				},
+				outputSchema: OUTPUT_SCHEMAS.abandon_pending_booking
+			},
+			async ({ bookingId, includeText = false }) => {
+				// 🔒 AUTH CHECK
+				const user = await this.authenticateUser();
+				if (!user) {
+					return this.authRequired();
+				}
+
+				const { hold, error } = await getUserBookings(getEnv() as Env, user.id).abandonHold(bookingId);
+				if (error || !hold) {
+					return toolError(error?.code ?? 'not_found', error?.message ?? `No pending booking with ID ${bookingId}`);
+				}
+				return toolResult({ hold }, includeText ? `🛑 Pending booking abandoned\n\n${this.formatHold(hold)}` : undefined);
+			}
+		);
+
+		// ===== TOOL 3B: CANCEL BOOKING (PROTECTED - AUTH REQUIRED) =====
+		this.server.registerTool(
+			"cancel_booking",
+			{
+				description: "Cancel one of your confirmed bookings on rec.us",
+				inputSchema: {
+					bookingId: z.string().optional().describe("Booking ID from get_booking_history"),
+					court: z.string().optional().describe("Court name, when not giving bookingId"),
+					date: z.string().optional().describe("Date as YYYY-MM-DD or a phrase like 'next Saturday', when not giving bookingId"),
+					time: z.string().optional().describe("Time slot, when not giving bookingId"),
+					...ORGANIZATION_OPTION,
+					...TEXT_OPTION
+				},
+				outputSchema: OUTPUT_SCHEMAS.cancel_booking
+			},
+			async ({ bookingId, court: requestedCourt, date, time, organization: requestedOrganization, includeText = false }) => {
+				// 🔒 AUTH CHECK
+				const user = await this.authenticateUser();
+				if (!user) {
+					return this.authRequired();
+				}
+
+				// Ownership comes from the caller's own ledger, not the rec.us account: with the
+				// shared fallback several users book on one account, so only bookings recorded
+				// as confirmed for this user can be cancelled
+				const ledger = getUserBookings(getEnv() as Env, user.id);
+				let booking: BookingRecord | null = null;
+				if (bookingId) {
+					booking = await ledger.getBooking(bookingId);
+				} else if (requestedCourt && date && time) {
+					let organization: string;
+					let bookedDate: string;
+					try {
+						organization = await this.resolveOrganization(user.id, requestedOrganization);
+						bookedDate = parseDate(date);
+					} catch (error) {
+						return this.inputError(error);
+					}
+					const resolved = await this.resolveCourtNames(organization, [requestedCourt]);
+					if (resolved.error !== undefined) {
+						return toolError('unknown_court', resolved.error);
+					}
+					booking = await ledger.findConfirmedBooking(organization, resolved.courts[0], bookedDate, normalizeSlotTime(time));
+				} else {
+					return toolError('invalid_input', 'Give either bookingId or court, date and time.');
+				}
+
+				if (!booking) {
+					return toolError('not_found', 'No confirmed booking of yours matches. Check get_booking_history({status: "confirmed"}).');
+				}
+				if (booking.status !== 'confirmed') {
+					return toolError('conflict', `Booking ${booking.id} is ${booking.status}; only confirmed bookings can be cancelled.`);
+				}
+
+				console.log(`✅ Authenticated user ${user.email} is cancelling booking ${booking.id}...`);
+
+				let credentials: ResolvedCredentials;
+				try {
+					credentials = await this.recUsLogin(user.id);
+				} catch (error) {
+					return this.credentialError(error);
+				}
+
+				if (!this.browser) {
+					await this.init();
+				}
+
+				let page: Page | null = null;
+				try {
+					const opened = await this.openAccountPage(user.id, credentials);
+					page = opened.page;
+
+					// The booking's own organization, whatever the user's setting is now
+					const outcome = await getProvider(booking.organization).cancel(page, booking, opened.login);
+
+					if (outcome === 'cancelled') {
+						await ledger.updateStatus(booking.id, 'cancelled');
+						await invalidateAvailability((getEnv() as Env).KV, booking.organization, booking.court, booking.date);
+					}
+
+					if (outcome === 'not_found') {
+						return toolError('not_found', `Could not find ${booking.court} on ${booking.date} at ${booking.time} in the rec.us reservations list. It may already be cancelled; check rec.us.`);
+					}
+
+					const text = {
+						cancelled: `✅ BOOKING CANCELLED
+
+🏟️ ${booking.court} on ${booking.date} at ${booking.time}
+🧾 Booking ID: ${booking.id}
+The court is released on rec.us.`,
+						unconfirmed: `⚠️ Clicked cancel for ${booking.court} on ${booking.date} at ${booking.time}, but rec.us didn't confirm it. Check rec.us to make sure.`
+					}[outcome];
+
+					return toolResult({
+						outcome,
+						booking: await ledger.getBooking(booking.id)
+					}, includeText ? text : undefined);
+				} catch (error) {
+					return await this.siteError(error, 'Cancellation failed', { page, userId: user.id, tool: 'cancel_booking' });
+				} finally {
+					if (page) await page.close().catch(() => {});
 				}
 			}
 		);
 
 		// ===== TOOL 4: BROWSER DIAGNOSTIC (PUBLIC) =====
-		this.server.tool(
+		this.server.registerTool(
 			"test_browser",
-			{},
-			async () => {
+			{
+				description: "Check that the Browser Rendering binding works",
+				inputSchema: {
+					...TEXT_OPTION
+				},
+				outputSchema: OUTPUT_SCHEMAS.test_browser
+			},
+			async ({ includeText = false }) => {
 				try {
 					console.log('Testing browser configuration...');
 					console.log('MYBROWSER binding exists:', !!(env as any).MYBROWSER);
@@ -705,177 +1351,900 @@ enter_sms_code_and_complete({"code": "YOUR_SMS_CODE"})
 					const title = await page.title();
 					await browser.close();
 					
-					return {
-						content: [{
-							type: "text",
-							text: JSON.stringify({
-								success: true,
-								message: "Browser is working correctly!",
-								testPageTitle: title,
-								binding: "MYBROWSER found and functional"
-							}, null, 2)
-						}]
-					};
+					return toolResult({ testPageTitle: title }, includeText ? "Browser is working correctly! MYBROWSER found and functional" : undefined);
 				} catch (error) {
-					return {
-						content: [{
-							type: "text",
-							text: JSON.stringify({
-								success: false,
-								error: error instanceof Error ? error.message : 'Unknown error',
-								debugging: {
-									mybrowserExists: !!(env as any).MYBROWSER,
-									envKeys: Object.keys(env || {}),
-									errorType: error instanceof Error ? error.constructor.name : 'Unknown'
-								},
-								fix: "Add [[browser]] binding = \"MYBROWSER\" to wrangler.toml"
-							}, null, 2)
-						}]
-					};
+					const message = error instanceof Error ? error.message : 'Unknown error';
+					return toolError('browser_unavailable', message, JSON.stringify({
+						success: false,
+						error: message,
+						debugging: {
+							mybrowserExists: !!(env as any).MYBROWSER,
+							envKeys: Object.keys(env || {}),
+							errorType: error instanceof Error ? error.constructor.name : 'Unknown'
+						},
+						fix: "Add [[browser]] binding = \"MYBROWSER\" to wrangler.toml"
+					}, null, 2));
+				}
+			}
+		);
+
+		// ===== TOOL 4A: SITE COMPATIBILITY (PROTECTED - AUTH REQUIRED) =====
+		this.server.registerTool(
+			"check_site_compatibility",
+			{
+				description: "Walk the rec.us flow up to checkout without booking anything and report which selectors still work",
+				inputSchema: {
+					court: z.string().optional().describe("Court to walk (default: the first court in list_courts)"),
+					date: z.string().optional().describe("A date with open slots at that court, so the booking form can be checked (default tomorrow)"),
+					logIn: z.boolean().optional().describe("Log in first, which also checks the login form, participants and reservations (default true)"),
+					...ORGANIZATION_OPTION,
+					...TEXT_OPTION
+				},
+				outputSchema: OUTPUT_SCHEMAS.check_site_compatibility
+			},
+			async ({ court: requestedCourt, date: requestedDate, logIn: withLogin = true, organization: requestedOrganization, includeText = false }) => {
+				// 🔒 AUTH CHECK
+				const user = await this.authenticateUser();
+				if (!user) {
+					return this.authRequired();
+				}
+
+				let organization: string;
+				try {
+					organization = await this.resolveOrganization(user.id, requestedOrganization);
+				} catch (error) {
+					return this.inputError(error);
+				}
+
+				const resolved = await this.resolveCourtOrDefault(organization, requestedCourt);
+				if (resolved.error !== undefined) {
+					return toolError('unknown_court', resolved.error);
+				}
+				const court = resolved.courts[0];
+
+				let date: string;
+				try {
+					date = this.resolveToolDate(requestedDate);
+				} catch (error) {
+					return this.inputError(error);
+				}
+
+				let credentials: ResolvedCredentials | null = null;
+				if (withLogin) {
+					try {
+						credentials = await this.recUsLogin(user.id);
+					} catch (error) {
+						return this.credentialError(error);
+					}
+				}
+
+				if (!this.browser) {
+					await this.init();
+				}
+
+				let page: Page | null = null;
+				try {
+					page = (await this.browser.newPage()) as Page;
+					page.setDefaultTimeout(12000);
+					const report = await getProvider(organization).checkCompatibility(page, { court, date }, credentials);
+					this.log(`Site compatibility: ${report.compatible ? 'ok' : report.stoppedAt ?? 'selectors missing'}`, user.email);
+
+					const missing = report.checks.filter(c => c.status === 'missing');
+					const passed = report.checks.filter(c => c.status === 'ok');
+					const skipped = report.checks.filter(c => c.status === 'skipped');
+					return toolResult({
+						organization,
+						...report,
+						account: credentials ? credentials.source : null
+					}, includeText ? `${report.compatible ? '✅ rec.us matches every selector checked' : '⚠️ rec.us has drifted'} (${court} on ${date}${report.slot ? `, ${report.slot} slot` : ''})
+${report.stoppedAt ? `\n🛑 Stopped at ${report.stoppedAt}\n` : ''}
+✅ ${passed.length} found: ${passed.map(c => c.name).join(', ') || 'none'}
+${missing.length > 0 ? `❌ ${missing.length} missing:\n${missing.map(c => `- ${c.name} (${c.step}): ${c.selector}`).join('\n')}\n` : ''}⏭️ ${skipped.length} not checked${withLogin ? '' : ' (run with logIn: true to check more)'}` : undefined);
+				} catch (error) {
+					return await this.siteError(error, 'Could not check rec.us', { page, userId: user.id, tool: 'check_site_compatibility' });
+				} finally {
+					if (page) await page.close().catch(() => {});
+				}
+			}
+		);
+
+		// ===== TOOL 4B: DEBUG ARTIFACTS (PROTECTED - AUTH REQUIRED) =====
+		this.server.registerTool(
+			"get_debug_artifacts",
+			{
+				description: "Screenshots and DOM snapshots saved when a browser step failed, by the callId in the failure (or the latest ones)",
+				inputSchema: {
+					callId: z.string().optional().describe("The callId from a failed tool result, or a scheduled booking's ID (default: the most recent failures)"),
+					limit: z.number().int().min(1).max(10).optional().describe("Without callId, how many recent failures to return (default 3)"),
+					maxDomChars: z.number().int().min(0).max(200000).optional().describe("Cut each DOM snapshot to this many characters; 0 leaves them out (default 20000)"),
+					...TEXT_OPTION
+				},
+				outputSchema: OUTPUT_SCHEMAS.get_debug_artifacts
+			},
+			async ({ callId, limit = 3, maxDomChars = 20000, includeText = false }) => {
+				// 🔒 AUTH CHECK
+				const user = await this.authenticateUser();
+				if (!user) {
+					return this.authRequired();
+				}
+
+				try {
+					const currentEnv = getEnv() as Env;
+					const artifacts = await getUserBookings(currentEnv, user.id).listDebugArtifacts(callId, limit);
+					if (callId && artifacts.length === 0) {
+						return toolError('not_found', `No debug artifacts for call ${callId}. They are kept for your last 50 failures (a day without R2).`);
+					}
+
+					// Files are read back from whichever store saved them; one that has expired is skipped
+					const store = getArtifactStore(currentEnv);
+					const media: MediaContent[] = [];
+					for (const artifact of artifacts) {
+						const label = `${artifact.tool}${artifact.step ? ` · ${artifact.step}` : ''} · ${formatPacific(artifact.createdAt)}`;
+						const screenshot = artifact.screenshotKey && store ? await store.get(artifact.screenshotKey) : null;
+						if (screenshot) {
+							media.push({ type: 'text', text: `📸 ${label}` });
+							media.push({ type: 'image', data: toBase64(new Uint8Array(screenshot.body)), mimeType: screenshot.contentType });
+						}
+						const dom = maxDomChars > 0 && artifact.domKey && store ? await store.get(artifact.domKey) : null;
+						if (dom) {
+							const html = new TextDecoder().decode(dom.body);
+							media.push({ type: 'text', text: `🧾 DOM at ${artifact.url ?? 'unknown page'} (${label})\n\n${html.length > maxDomChars ? `${html.slice(0, maxDomChars)}\n<!-- cut at ${maxDomChars} of ${html.length} characters -->` : html}` });
+						}
+					}
+
+					return toolResult({ artifacts }, includeText ? `🧾 Debug artifacts for ${user.email}
+
+${artifacts.length > 0 ? artifacts.map(a => `❌ ${a.tool}: ${a.message}${a.code ? ` (${a.code})` : ''}
+   ${a.url ?? 'no page'} · ${a.screenshotKey ? 'screenshot saved' : 'no screenshot'} · ${formatPacific(a.createdAt)}
+   Call ID: ${a.callId}`).join('\n\n') : 'No failures recorded.'}` : undefined, media);
+				} catch (error) {
+					return toolError('internal_error', `Error reading debug artifacts: ${error instanceof Error ? error.message : 'Unknown error'}`);
 				}
 			}
 		);
 
 		// ===== TOOL 5: BOOKING HISTORY (PROTECTED - AUTH REQUIRED) =====
-		this.server.tool(
+		this.server.registerTool(
 			"get_booking_history",
 			{
-				days: z.number().optional().describe("Number of days to look back (default 30)")
+				description: "Your booking attempts and how they ended",
+				inputSchema: {
+					days: z.number().optional().describe("Number of days to look back when 'from' is not given (default 30). Upcoming bookings are always included"),
+					from: z.string().optional().describe("Earliest booking date to include, YYYY-MM-DD"),
+					to: z.string().optional().describe("Latest booking date to include, YYYY-MM-DD"),
+					court: z.string().optional().describe("Only bookings whose court name contains this text"),
+					status: z.enum(BOOKING_STATUSES).optional().describe("Only bookings with this outcome: pending, confirmed, failed or cancelled"),
+					limit: z.number().int().min(1).max(100).optional().describe("Bookings per page (default 20)"),
+					cursor: z.string().optional().describe("nextCursor from a previous call, to fetch the next page"),
+					...TEXT_OPTION
+				},
+				outputSchema: OUTPUT_SCHEMAS.get_booking_history
 			},
-			async ({ days = 30 }, extra) => {
+			async ({ days = 30, from, to, court, status, limit, cursor, includeText = false }) => {
 				// 🔒 AUTH CHECK
-				const user = await this.authenticateUser(extra);
+				const user = await this.authenticateUser();
 				if (!user) {
-					const currentEnv = getEnv() as Env;
-					return {
-						content: [{
-							type: "text",
-							text: this.getAuthRequiredMessage(currentEnv)
-						}]
-					};
+					return this.authRequired();
 				}
 
 				try {
-					const bookings = [];
-					const today = new Date();
-					
-					// Search for bookings in the last N days using YYYY-MM-DD format
-					for (let i = 0; i < days; i++) {
-						const checkDate = new Date();
-						checkDate.setDate(today.getDate() - i);
-						const dateStr = checkDate.toISOString().split('T')[0]; // YYYY-MM-DD format
-						
-						const bookingData = await (env as any).KV.get(`booking:${dateStr}`);
-						
-						if (bookingData) {
-							try {
-								const booking = JSON.parse(bookingData);
-								// Only show bookings for the authenticated user
-								if (booking.userEmail === user.email) {
-									bookings.push({
-										date: dateStr,
-										court: booking.court,
-										time: booking.time,
-										status: booking.status,
-										bookedAt: new Date(booking.timestamp).toLocaleString()
-									});
-								}
-							} catch (parseError) {
-								console.error('Error parsing booking data:', parseError);
-							}
+					const fromDate = from ?? addDays(pacificToday(), -days);
+
+					const ledger = getUserBookings(getEnv() as Env, user.id);
+					const page = await ledger.listBookings({
+						from: fromDate,
+						to,
+						court,
+						status,
+						limit,
+						cursor
+					});
+
+					const filters = [
+						`from ${fromDate}`,
+						to ? `to ${to}` : null,
+						court ? `court "${court}"` : null,
+						status ? `status ${status}` : null
+					].filter(Boolean).join(', ');
+
+					return toolResult({
+						bookings: page.bookings,
+						total: page.total,
+						nextCursor: page.nextCursor
+					}, includeText ? `📋 Booking History for ${user.email}
+
+Showing ${page.bookings.length} of ${page.total} bookings (${filters}):
+
+${page.bookings.length > 0 ? 
+	page.bookings.map(b => `📅 ${b.date} - 🏟️ ${b.court} at ⏰ ${b.time}${b.durationMinutes ? ` for ${formatDuration(b.durationMinutes)}` : ''} (${b.status})${b.error ? ` - ${b.error}` : ''}`).join('\n') : 
+	'No bookings found for these filters.'
+}
+${page.nextCursor ? `\n➡️ More results: call get_booking_history again with cursor "${page.nextCursor}"` : ''}` : undefined);
+				} catch (error) {
+					return toolError('internal_error', `Error getting booking history: ${error instanceof Error ? error.message : 'Unknown error'}`);
+				}
+			}
+		);
+
+		this.server.registerTool(
+			"list_dry_runs",
+			{
+				description: "Your recent book_and_request_sms dry runs: what each would have booked, the price and the selectors used. Dry runs are never bookings",
+				inputSchema: {
+					limit: z.number().int().min(1).max(100).optional().describe("How many to return, newest first (default 20)"),
+					...TEXT_OPTION
+				},
+				outputSchema: OUTPUT_SCHEMAS.list_dry_runs
+			},
+			async ({ limit, includeText = false }) => {
+				// 🔒 AUTH CHECK
+				const user = await this.authenticateUser();
+				if (!user) {
+					return this.authRequired();
+				}
+
+				try {
+					const dryRuns = await getUserBookings(getEnv() as Env, user.id).listDryRuns(limit);
+					return toolResult({ dryRuns }, includeText ? `🧪 Dry runs for ${user.email}
+
+${dryRuns.length > 0 ? dryRuns.map(r => `${r.error ? '❌' : '✅'} ${r.court} on ${r.date}, asked for ${r.requestedTime}: ${r.error ?? `would book ${r.time}${r.price ? ` for ${r.price}` : ''}`}
+   ${formatPacific(r.createdAt)} · ID: ${r.id}`).join('\n\n') : 'No dry runs yet.'}` : undefined);
+				} catch (error) {
+					return toolError('internal_error', `Error listing dry runs: ${error instanceof Error ? error.message : 'Unknown error'}`);
+				}
+			}
+		);
+
+		// ===== TOOL 5A: REC.US RESERVATIONS (PROTECTED - AUTH REQUIRED) =====
+		this.server.registerTool(
+			"list_reservations",
+			{
+				description: "Reservations on the rec.us account, checked against your booking history",
+				inputSchema: {
+					includePast: z.boolean().optional().describe("Also read past reservations (default true)"),
+					...ORGANIZATION_OPTION,
+					...TEXT_OPTION
+				},
+				outputSchema: OUTPUT_SCHEMAS.list_reservations
+			},
+			async ({ includePast = true, organization: requestedOrganization, includeText = false }) => {
+				// 🔒 AUTH CHECK
+				const user = await this.authenticateUser();
+				if (!user) {
+					return this.authRequired();
+				}
+
+				let organization: string;
+				try {
+					organization = await this.resolveOrganization(user.id, requestedOrganization);
+				} catch (error) {
+					return this.inputError(error);
+				}
+
+				if (!this.browser) {
+					await this.init();
+				}
+
+				let credentials: ResolvedCredentials;
+				try {
+					credentials = await this.recUsLogin(user.id);
+				} catch (error) {
+					return this.credentialError(error);
+				}
+
+				let page: Page | null = null;
+				try {
+					const directory = await this.getCourtDirectory(organization);
+
+					const opened = await this.openAccountPage(user.id, credentials);
+					page = opened.page;
+					const cards = await getProvider(organization).listReservations(page, includePast, opened.login);
+
+					const today = pacificToday();
+					const reservations = parseReservationCards(cards, directory.courts.map(c => c.name), today);
+
+					// Compare against the part of the ledger the scrape covers
+					const from = includePast
+						? reservations.reduce((earliest, r) => (r.date < earliest ? r.date : earliest), today)
+						: today;
+					const ledger = getUserBookings(getEnv() as Env, user.id);
+					const bookings: BookingRecord[] = [];
+					let cursor: string | undefined;
+					do {
+						const result = await ledger.listBookings({ from, limit: 100, cursor });
+						bookings.push(...result.bookings.filter(b => b.organization === organization));
+						cursor = result.nextCursor ?? undefined;
+					} while (cursor);
+
+					const { matched, mismatches } = reconcileReservations(reservations, bookings);
+					const line = (r: typeof reservations[number]) =>
+						`📅 ${r.date} - 🏟️ ${r.court} at ⏰ ${r.time}${r.durationMinutes ? ` (${r.durationMinutes} min)` : ''}${r.reservationId ? ` · #${r.reservationId}` : ''}`;
+					const upcoming = reservations.filter(r => r.status === 'upcoming');
+					const past = reservations.filter(r => r.status !== 'upcoming');
+
+					return toolResult({
+						organization,
+						reservations,
+						matched: matched.map(m => ({ reservationId: m.reservation.reservationId, bookingId: m.booking.id })),
+						mismatches,
+						account: credentials.source
+					}, includeText ? `🎾 rec.us reservations (${maskEmail(credentials.email)}${credentials.source === 'shared' ? ', shared account' : ''})
+
+Upcoming (${upcoming.length}):
+${upcoming.length > 0 ? upcoming.map(line).join('\n') : 'None'}
+${includePast ? `\nPast (${past.length}):\n${past.length > 0 ? past.map(r => `${line(r)}${r.status === 'cancelled' ? ' ❌ cancelled' : ''}`).join('\n') : 'None'}\n` : ''}
+✅ ${matched.length} match your booking history
+${mismatches.length > 0 ? `⚠️ ${mismatches.length} mismatches:\n${mismatches.map(m => `- ${m.message}`).join('\n')}` : '✅ No mismatches'}` : undefined);
+				} catch (error) {
+					return await this.siteError(error, 'Could not read rec.us reservations', { page, userId: user.id, tool: 'list_reservations' });
+				} finally {
+					if (page) await page.close().catch(() => {});
+				}
+			}
+		);
+
+		// ===== TOOL 5B: SCHEDULED BOOKINGS (PROTECTED - AUTH REQUIRED) =====
+		this.server.registerTool(
+			"schedule_booking",
+			{
+				description: "Book a slot automatically the moment rec.us opens its date",
+				inputSchema: {
+					court: z.string().describe("Court name, as listed by list_courts"),
+					date: z.string().describe("Date to book as YYYY-MM-DD or a phrase like 'next Saturday', usually one that isn't open yet"),
+					time: z.string().describe("Time slot, e.g. '7pm' or '19:00', or a window like 'evening' or 'between 5 and 8pm'"),
+					fallbacks: z.array(z.object({
+						court: z.string().optional().describe("Another court (defaults to the primary court)"),
+						time: z.string().describe("Another time slot or window")
+					})).max(5).optional().describe("Slots to try in order if the primary one is taken"),
+					...ORGANIZATION_OPTION,
+					...TEXT_OPTION
+				},
+				outputSchema: OUTPUT_SCHEMAS.schedule_booking
+			},
+			async ({ court: requestedCourt, date, time, fallbacks = [], organization: requestedOrganization, includeText = false }) => {
+				// 🔒 AUTH CHECK
+				const user = await this.authenticateUser();
+				if (!user) {
+					return this.authRequired();
+				}
+
+				let organization: string;
+				try {
+					organization = await this.resolveOrganization(user.id, requestedOrganization);
+				} catch (error) {
+					return this.inputError(error);
+				}
+
+				const resolved = await this.resolveCourtNames(organization, [
+					requestedCourt,
+					...fallbacks.map(f => f.court ?? requestedCourt)
+				]);
+				if (resolved.error !== undefined) {
+					return toolError('unknown_court', resolved.error);
+				}
+				const [court, ...fallbackCourts] = resolved.courts;
+
+				let targetDate: string;
+				try {
+					targetDate = this.resolveToolDate(date, true);
+					for (const t of [time, ...fallbacks.map(f => f.time)]) parseTimeRequest(t);
+				} catch (error) {
+					return this.inputError(error);
+				}
+
+				try {
+					const ledger = getUserBookings(getEnv() as Env, user.id);
+					const intent = await ledger.scheduleIntent({
+						userId: user.id,
+						userEmail: user.email,
+						organization,
+						court,
+						date: targetDate,
+						time: normalizeSlotTime(time),
+						fallbacks: fallbacks.map((f, i) => ({ court: fallbackCourts[i], time: normalizeSlotTime(f.time) }))
+					});
+
+					return toolResult({ intent }, includeText ? `⏰ BOOKING SCHEDULED
+
+${this.formatIntent(intent)}
+
+A minute before release the browser logs in and waits on the court page, then grabs the first open slot in order.
+When it reaches the SMS step, run enter_sms_code_and_complete({"code": "YOUR_SMS_CODE"}).
+Use list_scheduled_bookings to check on it or cancel_scheduled_booking to call it off.` : undefined);
+				} catch (error) {
+					return toolError('internal_error', `Could not schedule booking: ${error instanceof Error ? error.message : 'Unknown error'}`);
+				}
+			}
+		);
+
+		this.server.registerTool(
+			"list_scheduled_bookings",
+			{
+				description: "Your scheduled bookings and how they went",
+				inputSchema: {
+					includeFinished: z.boolean().optional().describe("Also show intents that already succeeded, failed or were cancelled"),
+					...TEXT_OPTION
+				},
+				outputSchema: OUTPUT_SCHEMAS.list_scheduled_bookings
+			},
+			async ({ includeFinished = false, includeText = false }) => {
+				// 🔒 AUTH CHECK
+				const user = await this.authenticateUser();
+				if (!user) {
+					return this.authRequired();
+				}
+
+				try {
+					const intents = await getUserBookings(getEnv() as Env, user.id).listIntents(includeFinished);
+					return toolResult({ intents }, includeText ? `⏰ Scheduled bookings for ${user.email}
+
+${intents.length > 0 ? intents.map(i => this.formatIntent(i)).join('\n\n') : 'No scheduled bookings.'}` : undefined);
+				} catch (error) {
+					return toolError('internal_error', `Error listing scheduled bookings: ${error instanceof Error ? error.message : 'Unknown error'}`);
+				}
+			}
+		);
+
+		this.server.registerTool(
+			"cancel_scheduled_booking",
+			{
+				description: "Call off a scheduled booking",
+				inputSchema: {
+					id: z.string().describe("Scheduled booking ID from schedule_booking or list_scheduled_bookings"),
+					...TEXT_OPTION
+				},
+				outputSchema: OUTPUT_SCHEMAS.cancel_scheduled_booking
+			},
+			async ({ id, includeText = false }) => {
+				// 🔒 AUTH CHECK
+				const user = await this.authenticateUser();
+				if (!user) {
+					return this.authRequired();
+				}
+
+				const { intent, error } = await getUserBookings(getEnv() as Env, user.id).cancelIntent(id);
+				if (error || !intent) {
+					return toolError(intent ? 'conflict' : 'not_found', error ?? `No scheduled booking with ID ${id}`);
+				}
+				return toolResult({ intent }, includeText ? `🛑 Scheduled booking cancelled\n\n${this.formatIntent(intent)}` : undefined);
+			}
+		);
+
+		// ===== TOOL 5C: COURT WATCHES (PROTECTED - AUTH REQUIRED) =====
+		this.server.registerTool(
+			"watch_court",
+			{
+				description: "Get notified when a slot opens up at a court",
+				inputSchema: {
+					court: z.string().describe("Court name, as listed by list_courts"),
+					date: z.string().describe("Date to watch as YYYY-MM-DD or a phrase like 'this Sunday'"),
+					from: z.string().optional().describe("Earliest slot time you want, e.g. '5pm' (default: start of day)"),
+					to: z.string().optional().describe("Latest slot time you want, e.g. '8pm' (default: end of day)"),
+					notify: z.enum(["email", "webhook"]).optional().describe("How to notify you (default email)"),
+					target: z.string().optional().describe("Webhook URL (https) for 'webhook'. Email always goes to your login email"),
+					verificationCode: z.string().optional().describe("The code posted to a new webhook URL, to confirm it is yours"),
+					...ORGANIZATION_OPTION,
+					...TEXT_OPTION
+				},
+				outputSchema: OUTPUT_SCHEMAS.watch_court
+			},
+			async ({ court: requestedCourt, date, from, to, notify = 'email', target, verificationCode, organization: requestedOrganization, includeText = false }) => {
+				// 🔒 AUTH CHECK
+				const user = await this.authenticateUser();
+				if (!user) {
+					return this.authRequired();
+				}
+
+				const invalidTime = [from, to].find(t => t !== undefined && parseTimeOfDay(t) === null);
+				if (invalidTime !== undefined) {
+					return toolError('invalid_input', `Could not read time "${invalidTime}". Use something like "5pm", "5:30 PM" or "17:30".`);
+				}
+
+				// Notifications only go to the user: their own login email, or a webhook they verified
+				let destination = user.email;
+				if (notify === 'webhook') {
+					if (!target || !target.startsWith('https://')) {
+						return toolError('invalid_input', 'Webhook notifications need an https:// URL in target.');
+					}
+					destination = target;
+				} else if (target && target.trim().toLowerCase() !== user.email.toLowerCase()) {
+					return toolError('invalid_input', `Email notifications only go to your login email (${user.email}). Use a webhook to be notified anywhere else.`);
+				}
+
+				let organization: string;
+				let watchDate: string;
+				try {
+					organization = await this.resolveOrganization(user.id, requestedOrganization);
+					watchDate = this.resolveToolDate(date, true);
+				} catch (error) {
+					return this.inputError(error);
+				}
+
+				const resolved = await this.resolveCourtNames(organization, [requestedCourt]);
+				if (resolved.error !== undefined) {
+					return toolError('unknown_court', resolved.error);
+				}
+
+				const kv = (getEnv() as Env).KV;
+				if (notify === 'webhook' && !(await isWebhookVerified(kv, user.id, destination))) {
+					if (verificationCode) {
+						if (!(await confirmWebhookCode(kv, user.id, destination, verificationCode))) {
+							return toolError('invalid_input', 'That verification code does not match or has expired. Call watch_court without verificationCode to get a new one.');
+						}
+					} else {
+						try {
+							await sendWebhookCode(kv, user.id, destination);
+						} catch (error) {
+							return toolError('invalid_input', error instanceof Error ? error.message : String(error));
 						}
+						return toolError('verification_required', `Posted a verification code to ${destination}. Call watch_court again with the same arguments plus verificationCode to start the watch.`);
 					}
+				}
 
-					return {
-						content: [{
-							type: "text",
-							text: `📋 Booking History for ${user.email}
+				try {
+					const { watch, error } = await getUserBookings(getEnv() as Env, user.id).addWatch({
+						userId: user.id,
+						userEmail: user.email,
+						organization,
+						court: resolved.courts[0],
+						date: watchDate,
+						windowStart: from ?? null,
+						windowEnd: to ?? null,
+						channel: notify,
+						target: destination
+					});
+					if (error || !watch) {
+						return toolError('limit_reached', error ?? 'Could not start watch');
+					}
 
-Found ${bookings.length} bookings in the last ${days} days:
+					const interval = Number((getEnv() as Env).WATCH_INTERVAL_MINUTES) || 5;
+					return toolResult({ watch, intervalMinutes: interval }, includeText ? `👀 WATCH STARTED
 
-${bookings.length > 0 ? 
-	bookings.map(b => `📅 ${b.date} - 🏟️ ${b.court} at ⏰ ${b.time} (${b.status})`).join('\n') : 
-	'No bookings found in this time period.'
-}
+${this.formatWatch(watch)}
 
-${bookings.length > 0 ? `\n🔍 Detailed data:\n${JSON.stringify(bookings, null, 2)}` : ''}`
-						}]
-					};
+The court is re-checked every ${interval} minutes until the date passes. You'll be notified about any slot in the window that opens up, including ones already open at the first check.
+Use list_watches to see your watches or remove_watch to stop one.` : undefined);
 				} catch (error) {
-					return {
-						content: [{
-							type: "text",
-							text: `Error getting booking history: ${error instanceof Error ? error.message : 'Unknown error'}`
-						}]
-					};
+					return toolError('internal_error', `Could not start watch: ${error instanceof Error ? error.message : 'Unknown error'}`);
 				}
 			}
 		);
 
+		this.server.registerTool(
+			"list_watches",
+			{
+				description: "Your court watches and their recent notifications",
+				inputSchema: {
+					...TEXT_OPTION
+				},
+				outputSchema: OUTPUT_SCHEMAS.list_watches
+			},
+			async ({ includeText = false }) => {
+				// 🔒 AUTH CHECK
+				const user = await this.authenticateUser();
+				if (!user) {
+					return this.authRequired();
+				}
+
+				try {
+					const watches = await getUserBookings(getEnv() as Env, user.id).listWatches();
+					return toolResult({ watches }, includeText ? `👀 Court watches for ${user.email}
+
+${watches.length > 0 ? watches.map(w => this.formatWatch(w)).join('\n\n') : 'No watches. Start one with watch_court.'}` : undefined);
+				} catch (error) {
+					return toolError('internal_error', `Error listing watches: ${error instanceof Error ? error.message : 'Unknown error'}`);
+				}
+			}
+		);
+
+		this.server.registerTool(
+			"remove_watch",
+			{
+				description: "Stop a court watch",
+				inputSchema: {
+					id: z.string().describe("Watch ID from watch_court or list_watches"),
+					...TEXT_OPTION
+				},
+				outputSchema: OUTPUT_SCHEMAS.remove_watch
+			},
+			async ({ id, includeText = false }) => {
+				// 🔒 AUTH CHECK
+				const user = await this.authenticateUser();
+				if (!user) {
+					return this.authRequired();
+				}
+
+				const watch = await getUserBookings(getEnv() as Env, user.id).removeWatch(id);
+				if (!watch) {
+					return toolError('not_found', `No watch with ID ${id}`);
+				}
+				return toolResult({ watch }, includeText ? `🛑 Watch removed\n\n${this.formatWatch(watch)}` : undefined);
+			}
+		);
+
+		// ===== TOOL 5D: YOUR REC.US LOGIN (PROTECTED - AUTH REQUIRED) =====
+		this.server.registerTool(
+			"set_recus_login",
+			{
+				description: "Save your own rec.us login so bookings, cancellations and reservations use your account",
+				inputSchema: {
+					email: z.string().describe("Your rec.us email"),
+					password: z.string().describe("Your rec.us password. Stored encrypted; never returned"),
+					...TEXT_OPTION
+				},
+				outputSchema: OUTPUT_SCHEMAS.set_recus_login
+			},
+			async ({ email, password, includeText = false }) => {
+				// 🔒 AUTH CHECK
+				const user = await this.authenticateUser();
+				if (!user) {
+					return this.authRequired();
+				}
+
+				try {
+					const status = await saveRecUsLogin(getEnv() as Env, user.id, { email, password });
+					return toolResult({ login: status }, includeText ? `🔑 rec.us login saved for ${status.email}. Bookings you make from now on use this account.` : undefined);
+				} catch (error) {
+					return this.credentialError(error);
+				}
+			}
+		);
+
+		this.server.registerTool(
+			"get_recus_login",
+			{
+				description: "Which rec.us account your bookings use",
+				inputSchema: { ...TEXT_OPTION },
+				outputSchema: OUTPUT_SCHEMAS.get_recus_login
+			},
+			async ({ includeText = false }) => {
+				// 🔒 AUTH CHECK
+				const user = await this.authenticateUser();
+				if (!user) {
+					return this.authRequired();
+				}
+
+				const currentEnv = getEnv() as Env;
+				const status = credentialStatus(currentEnv, await getUserBookings(currentEnv, user.id).getCredentials());
+				const text = status.saved
+					? `🔑 Using your rec.us login ${status.email} (saved ${new Date(status.updatedAt ?? 0).toLocaleString()})`
+					: status.sharedFallback
+						? '🔑 No login saved: bookings use the shared rec.us account. Save yours with set_recus_login.'
+						: '🔑 No login saved. Save yours with set_recus_login before booking.';
+				return toolResult({ login: status }, includeText ? text : undefined);
+			}
+		);
+
+		this.server.registerTool(
+			"remove_recus_login",
+			{
+				description: "Delete your saved rec.us login",
+				inputSchema: { ...TEXT_OPTION },
+				outputSchema: OUTPUT_SCHEMAS.remove_recus_login
+			},
+			async ({ includeText = false }) => {
+				// 🔒 AUTH CHECK
+				const user = await this.authenticateUser();
+				if (!user) {
+					return this.authRequired();
+				}
+
+				const currentEnv = getEnv() as Env;
+				if (!(await removeRecUsLogin(currentEnv, user.id))) {
+					return toolError('not_found', 'You have no saved rec.us login.');
+				}
+				return toolResult({ login: credentialStatus(currentEnv, null) }, includeText ? '🗑️ rec.us login deleted' : undefined);
+			}
+		);
+
+		// ===== TOOL 5E: SMS CODE FORWARDING (PROTECTED - AUTH REQUIRED) =====
+		this.server.registerTool(
+			"set_sms_phone",
+			{
+				description: "Register the phone your rec.us codes arrive on, so codes forwarded to the /sms/inbound webhook complete your bookings automatically",
+				inputSchema: {
+					phone: z.string().describe("Phone number, e.g. '+1 415 555 0100' or '(415) 555-0100'"),
+					...TEXT_OPTION
+				},
+				outputSchema: OUTPUT_SCHEMAS.set_sms_phone
+			},
+			async ({ phone, includeText = false }) => {
+				// 🔒 AUTH CHECK
+				const user = await this.authenticateUser();
+				if (!user) {
+					return this.authRequired();
+				}
+
+				const normalized = normalizePhone(phone);
+				if (!normalized) {
+					return toolError('invalid_input', `"${phone}" is not a phone number`);
+				}
+
+				const result = await getUserBookings(getEnv() as Env, user.id).setSmsPhone(user.id, normalized);
+				if (result.error || !result.phone) {
+					return toolError('conflict', result.error ?? 'Could not register the phone');
+				}
+				return toolResult({ phone: result.phone, webhookPath: SMS_WEBHOOK_PATH }, includeText ? `📨 Codes texted to ${result.phone} will complete your bookings
+
+Forward rec.us texts from that phone to ${SMS_WEBHOOK_PATH} on this server, from an SMS forwarder app
+(JSON signed with SMS_WEBHOOK_SECRET) or a Twilio-style number. The code goes to the booking
+that was waiting for one when the text arrived.` : undefined);
+			}
+		);
+
+		this.server.registerTool(
+			"remove_sms_phone",
+			{
+				description: "Stop completing bookings from forwarded SMS codes",
+				inputSchema: {
+					...TEXT_OPTION
+				},
+				outputSchema: OUTPUT_SCHEMAS.remove_sms_phone
+			},
+			async ({ includeText = false }) => {
+				// 🔒 AUTH CHECK
+				const user = await this.authenticateUser();
+				if (!user) {
+					return this.authRequired();
+				}
+
+				const phone = await getUserBookings(getEnv() as Env, user.id).deleteSmsPhone();
+				if (!phone) {
+					return toolError('not_found', 'No phone is registered for forwarded SMS codes');
+				}
+				return toolResult({ phone, webhookPath: SMS_WEBHOOK_PATH }, includeText ? `🗑️ ${phone} removed. Enter codes with enter_sms_code_and_complete.` : undefined);
+			}
+		);
+
+		// ===== TOOL 5F: ORGANIZATION (PROTECTED - AUTH REQUIRED) =====
+		this.server.registerTool(
+			"set_organization",
+			{
+				description: "Choose the rec.us organization (parks department) your tools book and search in when a call doesn't name one",
+				inputSchema: {
+					organization: z.string().nullable().describe("Slug from the organization's rec.us address, e.g. \"sfrecpark\" for rec.us/sfrecpark, or the address itself. null goes back to the server default"),
+					...TEXT_OPTION
+				},
+				outputSchema: OUTPUT_SCHEMAS.set_organization
+			},
+			async ({ organization: requested, includeText = false }) => {
+				// 🔒 AUTH CHECK
+				const user = await this.authenticateUser();
+				if (!user) {
+					return this.authRequired();
+				}
+
+				let organization: string | null = null;
+				try {
+					organization = requested === null ? null : normalizeOrganization(requested);
+				} catch (error) {
+					return this.inputError(error);
+				}
+
+				// A slug with no courts behind it is almost always a typo
+				if (organization) {
+					const directory = await this.getCourtDirectory(organization);
+					if (directory.courts.length === 0) {
+						return toolError('unknown_court', this.noCourtsMessage(organization));
+					}
+				}
+
+				await getUserBookings(getEnv() as Env, user.id).setOrganization(organization);
+				const current = await this.resolveOrganization(user.id);
+				return toolResult({ organization: current, saved: organization !== null }, includeText
+					? organization
+						? `🏛️ Your tools now use ${current}. Bookings, scheduled bookings and watches you already have keep their own organization.`
+						: `🏛️ Back to the server default, ${current}.`
+					: undefined);
+			}
+		);
+
+		this.server.registerTool(
+			"get_organization",
+			{
+				description: "Which rec.us organization your tools use when a call doesn't name one",
+				inputSchema: { ...TEXT_OPTION },
+				outputSchema: OUTPUT_SCHEMAS.get_organization
+			},
+			async ({ includeText = false }) => {
+				// 🔒 AUTH CHECK
+				const user = await this.authenticateUser();
+				if (!user) {
+					return this.authRequired();
+				}
+
+				const saved = (await getUserBookings(getEnv() as Env, user.id).getOrganization()) !== null;
+				const organization = await this.resolveOrganization(user.id);
+				return toolResult({ organization, saved }, includeText
+					? `🏛️ Using ${organization}${saved ? '' : ' (server default; change it with set_organization)'}`
+					: undefined);
+			}
+		);
+
 		// ===== TOOL 6: GET AUTHENTICATION URL (PUBLIC) =====
-		this.server.tool(
+		this.server.registerTool(
 			"get_auth_url",
-			{},
-			async () => {
+			{
+				description: "How to sign in to use the booking tools",
+				inputSchema: {
+					...TEXT_OPTION
+				},
+				outputSchema: OUTPUT_SCHEMAS.get_auth_url
+			},
+			async ({ includeText = false }) => {
 				const currentEnv = getEnv() as Env;
-				return {
-					content: [{
-						type: "text",
-						text: `🔗 AUTHENTICATION URL
+				const authorizedUsers = (currentEnv.AUTHORIZED_USER_EMAILS || '').split(',').map(e => e.trim()).filter(Boolean);
+				return toolResult({ loginUrl: AUTH_URL, authorizedUsers }, includeText ? `🔗 AUTHENTICATION URL
 
-Visit this link to authenticate: ${this.AUTH_URL}
+Login page: ${AUTH_URL}
 
-This will:
-1. Redirect you to Google OAuth
-2. Verify you're an authorized user
-3. Register your session with the MCP server
-4. Allow you to use protected booking tools
+MCP clients authenticate with OAuth when they connect:
+1. The client registers itself and opens /authorize on this server
+2. You are sent to the login page above and sign in with Google
+3. The server verifies your Stytch session and that you're an authorized user
+4. The client receives an access token that is bound to you alone
 
 Authorized users: ${currentEnv.AUTHORIZED_USER_EMAILS || 'none configured'}
 
-After authentication, return here and try your booking command again.`
-					}]
-				};
+If booking tools say you're not authenticated, reconnect your MCP client to sign in again.` : undefined);
 			}
 		);
 
 		// ===== TOOL 7: AUTHENTICATION STATUS (PUBLIC) =====
-		this.server.tool(
+		this.server.registerTool(
 			"auth_status",
-			{},
-			async (params, extra) => {
+			{
+				description: "Whether this connection is signed in, and as whom",
+				inputSchema: {
+					...TEXT_OPTION
+				},
+				outputSchema: OUTPUT_SCHEMAS.auth_status
+			},
+			async ({ includeText = false }) => {
 				try {
-					const user = await this.authenticateUser(extra);
+					const user = await this.authenticateUser();
 					if (user) {
-						return {
-							content: [{
-								type: "text",
-								text: `✅ AUTHENTICATED
+						return toolResult({
+							authenticated: true,
+							user: { id: user.id, email: user.email }
+						}, includeText ? `✅ AUTHENTICATED
 
 User: ${user.email}
 ID: ${user.id}
 Email Verified: ${user.verified}
 
 You can now use:
+- list_participants (who a court can be booked for)
 - book_and_request_sms (book courts)
 - enter_sms_code_and_complete (complete bookings)
+- list_pending_bookings / resend_sms_code / abandon_pending_booking (bookings waiting for a code)
+- cancel_booking (release one of your bookings)
 - get_booking_history (view your bookings)
+- list_dry_runs (book_and_request_sms previews made with dryRun)
+- list_reservations (what the rec.us account actually holds)
+- check_site_compatibility (which rec.us selectors still work)
+- get_debug_artifacts (screenshots of failed browser steps)
+- schedule_booking (book the moment a date opens)
+- list_scheduled_bookings / cancel_scheduled_booking
+- watch_court (get notified when a slot opens up)
+- list_watches / remove_watch
+- set_recus_login / get_recus_login / remove_recus_login (book on your own rec.us account)
+- set_sms_phone / remove_sms_phone (complete bookings from forwarded SMS codes)
+- set_organization / get_organization (book in another rec.us organization)
 
 Anyone can still use:
 - check_tennis_courts (check availability)
 - test_browser (diagnostic tool)
-- get_auth_url (get authentication link)`
-							}]
-						};
+- get_auth_url (get authentication link)` : undefined);
 					} else {
 						const currentEnv = getEnv() as Env;
-						return {
-							content: [{
-								type: "text",
-								text: `🔐 NOT AUTHENTICATED
+						return toolResult({
+							authenticated: false,
+							user: null
+						}, includeText ? `🔐 NOT AUTHENTICATED
 
 🔗 **AUTHENTICATE NOW:**
-Visit: ${this.AUTH_URL}
+Reconnect your MCP client and sign in at ${AUTH_URL}
 
 Available without authentication:
 - check_tennis_courts (check court availability)
@@ -883,21 +2252,26 @@ Available without authentication:
 - get_auth_url (get authentication link)
 
 Requires authentication:
+- list_participants
 - book_and_request_sms
 - enter_sms_code_and_complete  
+- list_pending_bookings, resend_sms_code, abandon_pending_booking
+- cancel_booking
 - get_booking_history
-
-Authorized users: ${currentEnv.AUTHORIZED_USER_EMAILS || 'none configured'}`
-							}]
-						};
+- list_dry_runs
+- list_reservations
+- check_site_compatibility
+- get_debug_artifacts
+- schedule_booking, list_scheduled_bookings, cancel_scheduled_booking
+- watch_court, list_watches, remove_watch
+- set_recus_login, get_recus_login, remove_recus_login
+- set_sms_phone, remove_sms_phone
+- set_organization, get_organization
+
+Authorized users: ${currentEnv.AUTHORIZED_USER_EMAILS || 'none configured'}` : undefined);
 					}
 				} catch (error) {
-					return {
-						content: [{
-							type: "text",
-							text: `❌ Auth status check failed: ${error instanceof Error ? error.message : 'Unknown error'}`
-						}]
-					};
+					return toolError('internal_error', `Auth status check failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
 				}
 			}
 		);
@@ -906,9 +2280,33 @@ Authorized users: ${currentEnv.AUTHORIZED_USER_EMAILS || 'none configured'}`
 	}
 }
 
-// ===== CLOUDFLARE WORKER EXPORT =====
-export default {
-	async fetch(request: Request, env: Env, ctx: ExecutionContext) {
+// ===== NON-MCP ROUTES (login handoff, info page) =====
+// Requests to /sse and /mcp without a valid access token also land here via the OAuth
+// provider, which has already answered them with a 401 challenge.
+
+// JSON bodies these routes accept. Fields are unknown until checked, since anyone can post
+interface AuthenticateBody {
+	sessionToken?: unknown;
+	oauthRequestId?: unknown;
+}
+
+interface RecUsLoginBody {
+	email?: unknown;
+	password?: unknown;
+}
+
+interface LocalSmsBody {
+	phone?: unknown;
+	text?: unknown;
+}
+
+// The request's JSON object, or an empty one when the body is missing, malformed or not an object
+async function readJsonBody<T extends object>(request: Request): Promise<T> {
+	const body: unknown = await request.json().catch(() => null);
+	return (typeof body === 'object' && body !== null ? body : {}) as T;
+}
+const defaultHandler = {
+	async fetch(request: Request, env: Env): Promise<Response> {
 		const url = new URL(request.url);
 
 		// Handle CORS preflight
@@ -916,14 +2314,42 @@ export default {
 			return new Response(null, {
 				headers: {
 					'Access-Control-Allow-Origin': '*',
-					'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+					'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
 					'Access-Control-Allow-Headers': 'Content-Type, Authorization',
 					'Access-Control-Max-Age': '86400',
 				},
 			});
 		}
 
-		// ===== SIMPLIFIED AUTHENTICATION ENDPOINT =====
+		// ===== MCP OAUTH AUTHORIZATION ENDPOINT =====
+		if (url.pathname === '/authorize') {
+			return beginAuthorization(request, env);
+		}
+
+		// Consent page: the browser that started /authorize lands here after logging in and
+		// has to approve the client before any authorization code is issued
+		if (url.pathname === CONSENT_PATH) {
+			try {
+				if (request.method === 'GET') {
+					return await showConsent(request, env);
+				}
+				if (request.method === 'POST') {
+					return await completeAuthorization(request, env);
+				}
+				return new Response('Method not allowed', { status: 405 });
+			} catch (error) {
+				if (error instanceof AuthorizationRequestError) {
+					console.log(`Consent rejected: ${error.code}`);
+					return new Response(error.message, { status: 400 });
+				}
+				throw error;
+			}
+		}
+
+		// ===== AUTHENTICATION ENDPOINT =====
+		// Called by the frontend after Stytch login. When the login was started by an MCP
+		// client, the verified user is recorded on the pending request and the browser is
+		// sent on to the consent page.
 		if (url.pathname === '/authenticate') {
 			// Add CORS headers to all responses
 			const corsHeaders = {
@@ -934,40 +2360,64 @@ export default {
 			
 			if (request.method === 'POST') {
 				try {
-					// Get user info from frontend (already authenticated with Stytch)
-					const userInfo = await request.json() as any;
+					// Only the session token and request ID are read from the body; identity comes from Stytch
+					const body = await readJsonBody<AuthenticateBody>(request);
+					const session = await verifySessionToken(env, body.sessionToken);
 					
-					console.log('Received user info from frontend:', userInfo);
+					console.log('Verified Stytch session for:', session.email);
 					
 					// Check if user is authorized
-					const authorizedEmails = env.AUTHORIZED_USER_EMAILS
-						.split(',')
-						.map(email => email.trim().toLowerCase());
-					
-					if (!authorizedEmails.includes(userInfo.email.toLowerCase())) {
-						console.log(`Unauthorized user: ${userInfo.email}`);
-						return new Response(`Unauthorized user: ${userInfo.email}`, { 
+					if (!isAuthorizedEmail(env, session.email)) {
+						console.log(`Unauthorized user: ${session.email}`);
+						return Response.json({
+							error: 'unauthorized_email',
+							message: `Unauthorized user: ${session.email}`
+						}, { 
 							status: 403,
 							headers: corsHeaders
 						});
 					}
 					
-					// Store session for MCP access (no Stytch API call needed!)
-					console.log('Storing session for user:', userInfo.email);
-					await storeMCPSession(env, userInfo.userId, userInfo.email);
-					
-					// Return success
-					return new Response('Authentication successful', { 
+					// No MCP client waiting: the user just logged in to the dashboard
+					if (!body.oauthRequestId) {
+						return Response.json({ status: 'authenticated', email: session.email }, {
+							status: 200,
+							headers: corsHeaders
+						});
+					}
+
+					const { redirectTo } = await acceptAuthorizationLogin(env, String(body.oauthRequestId), session, url.origin);
+					return Response.json({ status: 'consent_required', email: session.email, redirectTo }, { 
 						status: 200,
-						headers: {
-							...corsHeaders,
-							'Content-Type': 'text/plain'
-						}
+						headers: corsHeaders
 					});
 					
 				} catch (error) {
+					if (error instanceof SessionVerificationError) {
+						console.log(`Session verification failed: ${error.code}`);
+						return Response.json({
+							error: error.code,
+							message: error.message
+						}, {
+							status: error.status,
+							headers: corsHeaders
+						});
+					}
+					if (error instanceof AuthorizationRequestError) {
+						console.log(`Authorization request rejected: ${error.code}`);
+						return Response.json({
+							error: error.code,
+							message: error.message
+						}, {
+							status: 400,
+							headers: corsHeaders
+						});
+					}
 					console.error('Authentication error:', error);
-					return new Response(`Authentication error: ${error}`, { 
+					return Response.json({
+						error: 'internal_error',
+						message: `Authentication error: ${error}`
+					}, { 
 						status: 500,
 						headers: corsHeaders
 					});
@@ -980,32 +2430,99 @@ export default {
 			});
 		}
 
-		// Debug endpoint to check stored sessions
-		if (url.pathname === '/debug-sessions') {
+		// ===== INBOUND SMS WEBHOOK =====
+		// SMS forwarders and Twilio-style numbers post rec.us's texts here. The code is
+		// queued for the sender's pending booking and entered by their UserBookings alarm.
+		// LOCAL_SMS_PATH takes {phone, text} and plays a forwarder, only with ALLOW_LOCAL_STANDINS.
+		if (url.pathname === SMS_WEBHOOK_PATH || url.pathname === LOCAL_SMS_PATH) {
+			if (request.method !== 'POST') {
+				return new Response('Method not allowed', { status: 405 });
+			}
+
 			try {
-				const keys = await env.KV.list({ prefix: 'mcp_session:' });
-				const sessions = [];
-				
-				for (const key of keys.keys) {
-					const session = await env.KV.get(key.name);
-					if (session) {
-						const data = JSON.parse(session);
-						sessions.push({
-							key: key.name,
-							email: data.email,
-							timestamp: new Date(data.timestamp).toISOString()
-						});
-					}
+				let sms: InboundSms;
+				if (url.pathname === LOCAL_SMS_PATH) {
+					const body = await readJsonBody<LocalSmsBody>(request);
+					const signed = await new LocalSmsSender(env).request(new URL(SMS_WEBHOOK_PATH, url).toString(), {
+						phone: String(body.phone ?? ''),
+						text: String(body.text ?? '')
+					});
+					sms = await parseInboundSms(signed, env);
+				} else {
+					sms = await parseInboundSms(request, env);
 				}
-				
-				return new Response(JSON.stringify({
-					totalSessions: sessions.length,
-					sessions: sessions
-				}, null, 2), {
-					headers: { 'Content-Type': 'application/json' }
-				});
+
+				const hold = await receiveInboundSms(env, sms);
+				console.log(`📨 SMS code from ${maskPhone(sms.phone)} queued for booking ${hold.id}`);
+				if (sms.format === 'twilio') {
+					return new Response('<Response></Response>', { headers: { 'Content-Type': 'text/xml' } });
+				}
+				return Response.json({ accepted: true, bookingId: hold.id }, { status: 202 });
 			} catch (error) {
-				return new Response(`Error: ${error}`, { status: 500 });
+				if (error instanceof InboundSmsError) {
+					console.warn(`📵 Inbound SMS rejected (${error.code}): ${error.message}`);
+					return Response.json({ error: error.code, message: error.message }, { status: error.status });
+				}
+				console.error('Inbound SMS error:', error);
+				return Response.json({ error: 'internal_error', message: `${error}` }, { status: 500 });
+			}
+		}
+
+		// ===== REC.US LOGIN ENDPOINT =====
+		// The dashboard saves, shows and deletes the signed-in user's rec.us login here,
+		// sending its Stytch session token as a bearer token. The password never comes back.
+		if (url.pathname === '/recus-login') {
+			const corsHeaders = {
+				'Access-Control-Allow-Origin': '*',
+				'Access-Control-Allow-Methods': 'GET, PUT, DELETE, OPTIONS',
+				'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+			};
+
+			try {
+				const sessionToken = request.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+				if (!sessionToken) {
+					return Response.json({
+						error: 'missing_session_token',
+						message: 'Send the Stytch session token as "Authorization: Bearer <token>"'
+					}, { status: 401, headers: corsHeaders });
+				}
+				const session = await verifySessionToken(env, sessionToken);
+				if (!isAuthorizedEmail(env, session.email)) {
+					return Response.json({
+						error: 'unauthorized_email',
+						message: `Unauthorized user: ${session.email}`
+					}, { status: 403, headers: corsHeaders });
+				}
+
+				const ledger = getUserBookings(env, session.userId);
+				if (request.method === 'GET') {
+					return Response.json(credentialStatus(env, await ledger.getCredentials()), { headers: corsHeaders });
+				}
+				if (request.method === 'PUT') {
+					const body = await readJsonBody<RecUsLoginBody>(request);
+					const status = await saveRecUsLogin(env, session.userId, {
+						email: String(body.email ?? ''),
+						password: String(body.password ?? '')
+					});
+					return Response.json(status, { headers: corsHeaders });
+				}
+				if (request.method === 'DELETE') {
+					await removeRecUsLogin(env, session.userId);
+					return Response.json(credentialStatus(env, null), { headers: corsHeaders });
+				}
+				return new Response('Method not allowed', { status: 405, headers: corsHeaders });
+			} catch (error) {
+				if (error instanceof SessionVerificationError) {
+					return Response.json({ error: error.code, message: error.message }, { status: error.status, headers: corsHeaders });
+				}
+				if (error instanceof CredentialError) {
+					return Response.json({
+						error: error.code,
+						message: error.message
+					}, { status: error.code === 'invalid_credentials' ? 400 : 500, headers: corsHeaders });
+				}
+				console.error('rec.us login error:', error);
+				return Response.json({ error: 'internal_error', message: `${error}` }, { status: 500, headers: corsHeaders });
 			}
 		}
 
@@ -1013,46 +2530,77 @@ export default {
 		if (url.pathname === '/') {
 			return new Response(`🎾 SF Tennis Court Booking MCP Server
 
-This server uses simplified frontend authentication.
+This server uses MCP OAuth backed by Stytch login.
 
-🔓 Public endpoints:
+🔓 Available to every connected user:
 - check_tennis_courts (check court availability)
 - test_browser (diagnostic tool)
 - auth_status (check authentication status)
 - get_auth_url (get authentication URL)
 
-🔒 Protected endpoints (authentication required):
+🔒 Protected endpoints (authorized users only):
+- list_participants (who a court can be booked for)
 - book_and_request_sms (book courts)
 - enter_sms_code_and_complete (complete bookings)  
+- list_pending_bookings / resend_sms_code / abandon_pending_booking (bookings waiting for a code)
+- cancel_booking (release one of your bookings)
 - get_booking_history (view booking history)
+- list_dry_runs (book_and_request_sms previews made with dryRun)
+- list_reservations (what the rec.us account actually holds)
+- check_site_compatibility (which rec.us selectors still work)
+- get_debug_artifacts (screenshots of failed browser steps)
+- schedule_booking (book the moment a date opens)
+- list_scheduled_bookings / cancel_scheduled_booking
+- watch_court (get notified when a slot opens up)
+- list_watches / remove_watch
+- set_recus_login / get_recus_login / remove_recus_login (book on your own rec.us account)
+- set_sms_phone / remove_sms_phone (complete bookings from forwarded SMS codes)
+- set_organization / get_organization (book in another rec.us organization)
 
 🔐 Authentication:
-- Authentication URL: https://mcp-tennis-auth.pages.dev/login
+- Login page: ${AUTH_URL}
 - Authorized users: ${env.AUTHORIZED_USER_EMAILS}
-- Users authenticate via React frontend app
+- OAuth endpoints: /authorize, /token, /register
+- Metadata: /.well-known/oauth-authorization-server
 
-🔗 MCP endpoints:
+🔗 MCP endpoints (require an access token):
 - SSE: /sse
-- MCP: /mcp
-
-To authenticate: Visit https://mcp-tennis-auth.pages.dev/login`, {
+- MCP: /mcp`, {
 				status: 200,
 				headers: { 'Content-Type': 'text/plain' },
 			});
 		}
 
-		// Route SSE (Server-Sent Events) requests for real-time communication
-		if (url.pathname === "/sse" || url.pathname === "/sse/message") {
-			// @ts-ignore
-			return MyMCP.serveSSE("/sse").fetch(request, env, ctx);
-		}
+		return new Response("Not found", { status: 404 });
+	},
+} satisfies ExportedHandler<Env>;
 
-		// Route MCP protocol requests
-		if (url.pathname === "/mcp") {
-			// @ts-ignore
-			return MyMCP.serve("/mcp").fetch(request, env, ctx);
-		}
+// ===== CLOUDFLARE WORKER EXPORT =====
+// The OAuth provider serves /token, /register and the OAuth metadata, and only lets
+// requests with a valid access token through to the MCP endpoints.
+//
+// The provider types its handlers against @cloudflare/workers-types, whose Request and
+// Response declarations differ slightly from this worker's generated runtime types.
+// They describe the same runtime objects, so handlers cross over here.
+type ProviderHandler = Exclude<NonNullable<OAuthProviderOptions["apiHandlers"]>[string], abstract new (...args: never) => unknown>;
+type ProviderFetch = ProviderHandler["fetch"];
+
+function providerHandler(handler: Required<Pick<ExportedHandler<Env>, "fetch">>): ProviderHandler {
+	return {
+		fetch: (request, env, ctx) =>
+			handler.fetch(request as unknown as Request<unknown, IncomingRequestCfProperties>, env as Env, ctx) as unknown as ReturnType<ProviderFetch>,
+	};
+}
 
-		return new Response("Not found", { status: 404 });
+export default new OAuthProvider({
+	apiHandlers: {
+		// Route SSE (Server-Sent Events) requests for real-time communication
+		"/sse": providerHandler(MyMCP.serveSSE("/sse")),
+		// Route MCP protocol requests
+		"/mcp": providerHandler(MyMCP.serve("/mcp")),
 	},
-};
\ No newline at end of file
+	defaultHandler: providerHandler(defaultHandler),
+	authorizeEndpoint: "/authorize",
+	tokenEndpoint: "/token",
+	clientRegistrationEndpoint: "/register",
+});
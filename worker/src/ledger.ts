@@ -0,0 +1,78 @@
+// ===== BOOKING LEDGER =====
+// Every booking attempt a user makes, kept in their UserBookings object: what was
+// asked for, what rec.us ended up holding and how it ended. The SQL lives with the
+// object; this is the record shape, which outcomes a booking can move between, and
+// the paging get_booking_history reads it with.
+
+export const BOOKING_STATUSES = ["pending", "confirmed", "failed", "cancelled"] as const;
+
+export type BookingStatus = (typeof BOOKING_STATUSES)[number];
+
+export interface BookingRecord {
+	id: string;
+	userId: string;
+	userEmail: string;
+	organization: string;
+	court: string;
+	date: string; // YYYY-MM-DD
+	time: string;
+	durationMinutes: number | null; // known once the slot is held
+	participants: string[]; // who it was booked for, once held; empty means not yet known
+	guests: string[];
+	status: BookingStatus;
+	error: string | null;
+	createdAt: number;
+	updatedAt: number;
+}
+
+export interface BookingQuery {
+	from?: string; // inclusive, YYYY-MM-DD
+	to?: string; // inclusive, YYYY-MM-DD
+	court?: string;
+	status?: BookingStatus;
+	limit?: number;
+	cursor?: string;
+}
+
+export interface BookingPage {
+	bookings: BookingRecord[];
+	total: number;
+	nextCursor: string | null;
+}
+
+// Which outcomes a booking can move to from each status
+export const BOOKING_TRANSITIONS: Record<BookingStatus, BookingStatus[]> = {
+	pending: ["confirmed", "failed", "cancelled"],
+	confirmed: ["cancelled"],
+	failed: [],
+	cancelled: [],
+};
+
+// Setting the status a booking already has is allowed, so a repeated update is harmless
+export function canChangeStatus(from: BookingStatus, to: BookingStatus): boolean {
+	return from === to || BOOKING_TRANSITIONS[from].includes(to);
+}
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+export function pageSize(limit?: number): number {
+	return Math.min(Math.max(limit ?? DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+}
+
+// Cursors are opaque to callers; internally they are just the next row offset
+export function decodeCursor(cursor?: string): number {
+	if (!cursor) return 0;
+	try {
+		const offset = Number.parseInt(atob(cursor), 10);
+		return Number.isFinite(offset) && offset > 0 ? offset : 0;
+	} catch {
+		return 0;
+	}
+}
+
+// The cursor after a page of `count` rows read from `offset`; null once all `total` are read
+export function nextCursor(offset: number, count: number, total: number): string | null {
+	const next = offset + count;
+	return next < total ? btoa(String(next)) : null;
+}
@@ -0,0 +1,194 @@
+// ===== SLOT NOTIFICATIONS =====
+// How a court watch tells its owner that something opened up. Each watch picks a
+// channel when it is created; NOTIFICATION_CHANNEL=local swaps every channel for a
+// stand-in that only logs, for development and tests.
+
+export type NotificationChannelType = "webhook" | "email" | "local";
+
+export interface SlotNotification {
+	watchId: string;
+	userEmail: string;
+	court: string;
+	date: string;
+	slots: string[]; // slots that opened since the last check
+	detectedAt: number;
+}
+
+export interface NotificationChannel {
+	readonly type: NotificationChannelType;
+	send(notification: SlotNotification): Promise<void>;
+}
+
+export class NotificationError extends Error {
+	constructor(
+		public readonly channel: NotificationChannelType,
+		message: string,
+	) {
+		super(message);
+		this.name = "NotificationError";
+	}
+}
+
+interface NotificationEnv {
+	ENVIRONMENT?: string;
+	NOTIFICATION_CHANNEL?: string;
+	NOTIFY_EMAIL?: SendEmail;
+	NOTIFY_EMAIL_FROM?: string;
+}
+
+function describe(notification: SlotNotification): string {
+	return `${notification.court} on ${notification.date}: ${notification.slots.join(", ")}`;
+}
+
+/**
+ * POSTs the notification as JSON. Works with anything that accepts a webhook: Slack
+ * or Discord relays, ntfy, Zapier, a home server.
+ */
+export class WebhookChannel implements NotificationChannel {
+	readonly type = "webhook";
+
+	constructor(private readonly url: string) {}
+
+	async send(notification: SlotNotification): Promise<void> {
+		let response: Response;
+		try {
+			response = await fetch(this.url, {
+				method: "POST",
+				headers: { "Content-Type": "application/json" },
+				body: JSON.stringify({
+					text: `🎾 Court opened up: ${describe(notification)}`,
+					...notification,
+				}),
+			});
+		} catch (error) {
+			throw new NotificationError("webhook", `Could not reach webhook: ${error}`);
+		}
+		if (!response.ok) {
+			throw new NotificationError("webhook", `Webhook returned ${response.status}`);
+		}
+	}
+}
+
+/**
+ * Sends through a Cloudflare Email Routing send_email binding. Routing only delivers
+ * to verified destination addresses, so each recipient has to be added there first.
+ */
+export class EmailChannel implements NotificationChannel {
+	readonly type = "email";
+
+	constructor(
+		private readonly binding: SendEmail,
+		private readonly from: string,
+		private readonly to: string,
+	) {}
+
+	async send(notification: SlotNotification): Promise<void> {
+		const raw = [
+			`From: SF Tennis Watch <${this.from}>`,
+			`To: ${this.to}`,
+			`Subject: Court opened up: ${notification.court} on ${notification.date}`,
+			`Message-ID: <${crypto.randomUUID()}@${this.from.split("@")[1]}>`,
+			`Date: ${new Date(notification.detectedAt).toUTCString()}`,
+			"MIME-Version: 1.0",
+			"Content-Type: text/plain; charset=utf-8",
+			"",
+			`New slots at ${describe(notification)}`,
+			"",
+			"Book one with book_and_request_sms before someone else does.",
+		].join("\r\n");
+
+		// Loaded here rather than at the top: cloudflare:email only exists in the Workers
+		// runtime, and the webhook checks below also run under the unit tests
+		const { EmailMessage } = await import("cloudflare:email");
+		try {
+			await this.binding.send(new EmailMessage(this.from, this.to, raw));
+		} catch (error) {
+			throw new NotificationError("email", `Could not send email: ${error}`);
+		}
+	}
+}
+
+/**
+ * Local stand-in: records what would have been sent and logs it. Every delivery is
+ * also kept in the watch's notification history, which is what tests look at.
+ */
+export class LocalNotificationChannel implements NotificationChannel {
+	readonly type = "local";
+	readonly sent: SlotNotification[] = [];
+
+	async send(notification: SlotNotification): Promise<void> {
+		this.sent.push(notification);
+		console.log(`🔔 [local notification] ${notification.userEmail}: ${describe(notification)}`);
+	}
+}
+
+export function getNotificationChannel(
+	env: NotificationEnv,
+	channel: NotificationChannelType,
+	target: string,
+): NotificationChannel {
+	if (env.NOTIFICATION_CHANNEL === "local" || channel === "local") {
+		if (env.ENVIRONMENT === "production") {
+			throw new NotificationError("local", "The local notification channel cannot be used in production");
+		}
+		return new LocalNotificationChannel();
+	}
+
+	if (channel === "webhook") {
+		return new WebhookChannel(target);
+	}
+
+	if (!env.NOTIFY_EMAIL || !env.NOTIFY_EMAIL_FROM) {
+		throw new NotificationError("email", "Email notifications need the NOTIFY_EMAIL binding and NOTIFY_EMAIL_FROM var");
+	}
+	return new EmailChannel(env.NOTIFY_EMAIL, env.NOTIFY_EMAIL_FROM, target);
+}
+
+// ===== WEBHOOK VERIFICATION =====
+// Watches only post to webhooks their owner has shown they can read. The first watch
+// for a URL sends a code there instead, and the watch starts once the code is given
+// back; after that the URL is trusted for that user. Email always goes to the user's
+// own login address, so it needs no check.
+
+const WEBHOOK_CODE_TTL_SECONDS = 15 * 60;
+
+async function webhookKey(kind: "code" | "verified", userId: string, url: string): Promise<string> {
+	const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(url));
+	const hex = [...new Uint8Array(digest)].map((b) => b.toString(16).padStart(2, "0")).join("");
+	return `webhook-${kind}:${userId}:${hex}`;
+}
+
+export async function isWebhookVerified(kv: KVNamespace, userId: string, url: string): Promise<boolean> {
+	return (await kv.get(await webhookKey("verified", userId, url))) !== null;
+}
+
+// Posts a fresh 6-digit code to `url`. Throws NotificationError when the webhook can't take it
+export async function sendWebhookCode(kv: KVNamespace, userId: string, url: string): Promise<void> {
+	const code = String(crypto.getRandomValues(new Uint32Array(1))[0] % 1000000).padStart(6, "0");
+	let response: Response;
+	try {
+		response = await fetch(url, {
+			method: "POST",
+			headers: { "Content-Type": "application/json" },
+			body: JSON.stringify({ text: `🎾 Court watch verification code: ${code}`, verificationCode: code }),
+		});
+	} catch (error) {
+		throw new NotificationError("webhook", `Could not reach webhook: ${error}`);
+	}
+	if (!response.ok) {
+		throw new NotificationError("webhook", `Webhook returned ${response.status}`);
+	}
+	await kv.put(await webhookKey("code", userId, url), code, { expirationTtl: WEBHOOK_CODE_TTL_SECONDS });
+}
+
+// True, and `url` trusted from now on, when `code` is the one last sent there
+export async function confirmWebhookCode(kv: KVNamespace, userId: string, url: string, code: string): Promise<boolean> {
+	const codeKey = await webhookKey("code", userId, url);
+	const expected = await kv.get(codeKey);
+	if (!expected || expected !== code.trim()) {
+		return false;
+	}
+	await kv.delete(codeKey);
+	await kv.put(await webhookKey("verified", userId, url), String(Date.now()));
+	return true;
+}
@@ -0,0 +1,259 @@
+// ===== MCP OAUTH AUTHORIZATION =====
+// The OAuth provider (see index.ts) implements /token and /register and validates
+// access tokens on /sse and /mcp. This module implements the /authorize half: the
+// user is sent to the Stytch login page, the frontend posts back a verified Stytch
+// session, and the user then approves the client on a consent page before any code is
+// issued. A pending request only completes in the browser that started it: /authorize
+// sets a cookie holding a nonce whose hash is kept with the request, and the consent
+// page checks it. Anyone can register a client, so nothing is granted without both.
+
+import type { AuthRequest, ClientInfo, OAuthHelpers } from "@cloudflare/workers-oauth-provider";
+import type { VerifiedSession } from "./stytch";
+
+export const AUTH_URL = "https://mcp-tennis-auth.pages.dev/login";
+export const CONSENT_PATH = "/authorize/consent";
+
+// Pending authorization requests only need to survive one trip through the login page
+const AUTH_REQUEST_TTL_SECONDS = 600;
+
+/**
+ * Properties bound to every access token this server issues. The OAuth provider
+ * hands them to MyMCP as `this.props` for the connection that presented the token.
+ */
+export type McpAuthProps = {
+	userId: string;
+	email: string;
+	authorizedAt: number;
+};
+
+export interface OAuthEnv {
+	KV: KVNamespace;
+	OAUTH_PROVIDER: OAuthHelpers;
+}
+
+export type AuthorizationErrorCode =
+	| "invalid_request"
+	| "invalid_client"
+	| "expired_authorization_request"
+	| "wrong_browser"
+	| "login_required";
+
+export class AuthorizationRequestError extends Error {
+	constructor(
+		public readonly code: AuthorizationErrorCode,
+		message: string,
+	) {
+		super(message);
+		this.name = "AuthorizationRequestError";
+	}
+}
+
+// What KV keeps for a request between /authorize and the consent page
+interface PendingAuthorization {
+	request: AuthRequest;
+	clientName: string;
+	browserHash: string; // of the nonce in the cookie /authorize set
+	login?: {
+		codeHash: string; // of the one-time code the login handoff put in the consent URL
+		userId: string;
+		email: string;
+	};
+}
+
+function requestKey(requestId: string): string {
+	return `oauth_request:${requestId}`;
+}
+
+function cookieName(requestId: string): string {
+	return `mcp_oauth_${requestId}`;
+}
+
+async function sha256Hex(value: string): Promise<string> {
+	const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(value));
+	return [...new Uint8Array(digest)].map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+function randomToken(): string {
+	return [...crypto.getRandomValues(new Uint8Array(32))].map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+function readCookie(request: Request, name: string): string | null {
+	for (const part of (request.headers.get("Cookie") ?? "").split(";")) {
+		const [key, ...value] = part.trim().split("=");
+		if (key === name) return value.join("=");
+	}
+	return null;
+}
+
+async function loadPending(env: OAuthEnv, requestId: string): Promise<PendingAuthorization> {
+	const stored = await env.KV.get(requestKey(requestId));
+	if (!stored) {
+		throw new AuthorizationRequestError(
+			"expired_authorization_request",
+			"Authorization request expired or was already used. Reconnect your MCP client to start again.",
+		);
+	}
+	return JSON.parse(stored) as PendingAuthorization;
+}
+
+async function savePending(env: OAuthEnv, requestId: string, pending: PendingAuthorization): Promise<void> {
+	await env.KV.put(requestKey(requestId), JSON.stringify(pending), { expirationTtl: AUTH_REQUEST_TTL_SECONDS });
+}
+
+// GET /authorize - park the parsed request in KV, tie it to this browser and hand the user to the login page
+export async function beginAuthorization(request: Request, env: OAuthEnv): Promise<Response> {
+	let oauthRequest: AuthRequest;
+	try {
+		oauthRequest = await env.OAUTH_PROVIDER.parseAuthRequest(request);
+	} catch (error) {
+		return new Response(`Invalid authorization request: ${error instanceof Error ? error.message : error}`, {
+			status: 400,
+		});
+	}
+
+	const client: ClientInfo | null = await env.OAUTH_PROVIDER.lookupClient(oauthRequest.clientId);
+	if (!client) {
+		return new Response("Unknown client_id. Register the client via /register first.", { status: 400 });
+	}
+
+	const requestId = crypto.randomUUID();
+	const nonce = randomToken();
+	await savePending(env, requestId, {
+		request: oauthRequest,
+		clientName: client.clientName || client.clientId,
+		browserHash: await sha256Hex(nonce),
+	});
+
+	console.log(`🔐 Authorization requested by ${client.clientName || client.clientId}, sending to login`);
+
+	const loginUrl = new URL(AUTH_URL);
+	loginUrl.searchParams.set("oauth_request", requestId);
+	return new Response(null, {
+		status: 302,
+		headers: {
+			Location: loginUrl.toString(),
+			// Lax so it comes back on the top-level navigation to the consent page
+			"Set-Cookie": `${cookieName(requestId)}=${nonce}; Path=/authorize; Max-Age=${AUTH_REQUEST_TTL_SECONDS}; HttpOnly; Secure; SameSite=Lax`,
+		},
+	});
+}
+
+/**
+ * Called from /authenticate once the Stytch session has been verified. Records who
+ * logged in and returns the consent page to send the browser to; nothing is granted
+ * until the user approves there.
+ */
+export async function acceptAuthorizationLogin(
+	env: OAuthEnv,
+	requestId: string,
+	session: VerifiedSession,
+	workerOrigin: string,
+): Promise<{ redirectTo: string }> {
+	const pending = await loadPending(env, requestId);
+	const code = randomToken();
+	await savePending(env, requestId, {
+		...pending,
+		login: { codeHash: await sha256Hex(code), userId: session.userId, email: session.email },
+	});
+
+	const consentUrl = new URL(CONSENT_PATH, workerOrigin);
+	consentUrl.searchParams.set("oauth_request", requestId);
+	consentUrl.searchParams.set("login", code);
+	return { redirectTo: consentUrl.toString() };
+}
+
+// The pending request, once this browser is the one that started it and has logged in
+async function checkConsentRequest(
+	request: Request,
+	env: OAuthEnv,
+	params: URLSearchParams,
+): Promise<{ requestId: string; pending: PendingAuthorization; login: NonNullable<PendingAuthorization["login"]> }> {
+	const requestId = params.get("oauth_request");
+	if (!requestId) {
+		throw new AuthorizationRequestError("invalid_request", "Missing oauth_request");
+	}
+	const pending = await loadPending(env, requestId);
+
+	const nonce = readCookie(request, cookieName(requestId));
+	if (!nonce || (await sha256Hex(nonce)) !== pending.browserHash) {
+		throw new AuthorizationRequestError(
+			"wrong_browser",
+			"This authorization was started in another browser. Reconnect your MCP client from this one.",
+		);
+	}
+
+	const code = params.get("login");
+	if (!pending.login || !code || (await sha256Hex(code)) !== pending.login.codeHash) {
+		throw new AuthorizationRequestError("login_required", "Log in before approving this client.");
+	}
+	return { requestId, pending, login: pending.login };
+}
+
+function escapeHtml(text: string): string {
+	return text.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+// GET /authorize/consent - who is asking, where the code would go, and Approve/Deny
+export async function showConsent(request: Request, env: OAuthEnv): Promise<Response> {
+	const url = new URL(request.url);
+	const { requestId, pending, login } = await checkConsentRequest(request, env, url.searchParams);
+
+	const html = `<!doctype html>
+<html>
+<head><meta charset="utf-8"><title>Authorize ${escapeHtml(pending.clientName)}</title></head>
+<body style="font-family: sans-serif; max-width: 32rem; margin: 3rem auto;">
+<h1>🎾 Authorize an MCP client</h1>
+<p><strong>${escapeHtml(pending.clientName)}</strong> wants to book and cancel tennis courts as <strong>${escapeHtml(login.email)}</strong>.</p>
+<p>If you approve, its access is sent to:<br><code>${escapeHtml(pending.request.redirectUri)}</code></p>
+<p>Only approve if you just connected this client yourself.</p>
+<form method="post" action="${CONSENT_PATH}">
+<input type="hidden" name="oauth_request" value="${escapeHtml(requestId)}">
+<input type="hidden" name="login" value="${escapeHtml(url.searchParams.get("login") ?? "")}">
+<button type="submit" name="decision" value="approve">Approve</button>
+<button type="submit" name="decision" value="deny">Deny</button>
+</form>
+</body>
+</html>`;
+	return new Response(html, {
+		headers: {
+			"Content-Type": "text/html; charset=utf-8",
+			"X-Frame-Options": "DENY",
+			"Content-Security-Policy": "frame-ancestors 'none'",
+		},
+	});
+}
+
+// POST /authorize/consent - the user's answer; only an explicit Approve issues a code
+export async function completeAuthorization(request: Request, env: OAuthEnv): Promise<Response> {
+	const form = new URLSearchParams(await request.text());
+	const { requestId, pending, login } = await checkConsentRequest(request, env, form);
+	// One-time use, whatever the answer
+	await env.KV.delete(requestKey(requestId));
+	const clearCookie = `${cookieName(requestId)}=; Path=/authorize; Max-Age=0; HttpOnly; Secure; SameSite=Lax`;
+
+	const oauthRequest = pending.request;
+	if (form.get("decision") !== "approve") {
+		console.log(`🚫 ${login.email} denied MCP access to client ${oauthRequest.clientId}`);
+		const denied = new URL(oauthRequest.redirectUri);
+		denied.searchParams.set("error", "access_denied");
+		if (oauthRequest.state) denied.searchParams.set("state", oauthRequest.state);
+		return new Response(null, { status: 302, headers: { Location: denied.toString(), "Set-Cookie": clearCookie } });
+	}
+
+	const props: McpAuthProps = {
+		userId: login.userId,
+		email: login.email,
+		authorizedAt: Date.now(),
+	};
+
+	console.log(`✅ Granting MCP access for ${login.email} to client ${oauthRequest.clientId}`);
+
+	const { redirectTo } = await env.OAUTH_PROVIDER.completeAuthorization({
+		request: oauthRequest,
+		userId: login.userId,
+		metadata: { label: login.email },
+		scope: oauthRequest.scope,
+		props,
+	});
+	return new Response(null, { status: 302, headers: { Location: redirectTo, "Set-Cookie": clearCookie } });
+}
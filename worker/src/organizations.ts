@@ -0,0 +1,72 @@
+// ===== ORGANIZATIONS =====
+// rec.us hosts many parks departments, each under its own slug: rec.us/sfrecpark is San
+// Francisco's. An organization names the booking system and the slug on it. rec.us is
+// the default system, so a bare slug ("sfrecpark") is a rec.us organization; another
+// system's would be written "provider:slug". The string form is what gets stored with
+// bookings, intents and watches, and what tools and the per-user setting take.
+
+export const PROVIDER_IDS = ["recus"] as const;
+
+export type ProviderId = (typeof PROVIDER_IDS)[number];
+
+export interface Organization {
+	provider: ProviderId;
+	slug: string;
+}
+
+// Used when neither the call nor the user's setting names one; DEFAULT_ORGANIZATION overrides
+export const DEFAULT_ORGANIZATION = "sfrecpark";
+
+export type OrganizationErrorCode = "invalid_organization" | "unknown_provider";
+
+export class OrganizationError extends Error {
+	constructor(
+		public readonly code: OrganizationErrorCode,
+		message: string,
+	) {
+		super(message);
+		this.name = "OrganizationError";
+	}
+}
+
+/**
+ * "sfrecpark", "rec.us/sfrecpark", "https://www.rec.us/sfrecpark" and "recus:sfrecpark"
+ * all read as rec.us's sfrecpark. Throws OrganizationError.
+ */
+export function parseOrganization(input: string): Organization {
+	const trimmed = input
+		.trim()
+		.toLowerCase()
+		.replace(/^https?:\/\/(www\.)?/, "")
+		.replace(/\/+$/, "");
+	const fromUrl = trimmed.match(/^rec\.us\/([^/?#]+)/);
+	const [provider, slug] = fromUrl
+		? ["recus", fromUrl[1]]
+		: trimmed.includes(":")
+			? trimmed.split(":", 2)
+			: ["recus", trimmed];
+
+	if (!PROVIDER_IDS.includes(provider as ProviderId)) {
+		throw new OrganizationError(
+			"unknown_provider",
+			`Unknown booking system "${provider}". Supported: ${PROVIDER_IDS.join(", ")}`,
+		);
+	}
+	if (!/^[a-z0-9][a-z0-9-]{1,62}$/.test(slug)) {
+		throw new OrganizationError(
+			"invalid_organization",
+			`"${input}" is not an organization slug. Use the part after rec.us/ in its booking page, e.g. "${DEFAULT_ORGANIZATION}"`,
+		);
+	}
+	return { provider: provider as ProviderId, slug };
+}
+
+// The stored form: a bare slug for rec.us, "provider:slug" otherwise
+export function formatOrganization(organization: Organization): string {
+	return organization.provider === "recus" ? organization.slug : `${organization.provider}:${organization.slug}`;
+}
+
+// Any accepted spelling -> the stored form
+export function normalizeOrganization(input: string): string {
+	return formatOrganization(parseOrganization(input));
+}
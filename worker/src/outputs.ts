@@ -0,0 +1,470 @@
+import { z } from "zod";
+import { BOOKING_STATUSES } from "./ledger";
+import { SITE_ERROR_CODES, type SiteFailure } from "./failures";
+import { HOLD_STATUSES } from "./holds";
+import { INTENT_STATUSES } from "./scheduler";
+
+// ===== TOOL OUTPUT SCHEMAS =====
+// Every tool declares what its structuredContent looks like so agents can chain tools
+// without parsing prose. Results always carry `ok`; failures carry `error.code` from
+// TOOL_ERROR_CODES and are flagged isError, with `retryable` saying whether the same
+// call could succeed later. Browser failures keep the code SiteError gave them and add
+// the step that failed and what to do next, plus a callId when a screenshot was saved. The JSON also goes in a text block for
+// clients that don't read structuredContent; the human-readable text is opt-in.
+
+export const TOOL_ERROR_CODES = [
+	"auth_required",
+	"unknown_court",
+	"not_found",
+	"conflict",
+	"limit_reached",
+	"credentials_required",
+	"verification_required",
+	"browser_unavailable",
+	"internal_error",
+	...SITE_ERROR_CODES,
+] as const;
+
+export type ToolErrorCode = (typeof TOOL_ERROR_CODES)[number];
+
+// Whether trying the same call again could help, for codes that aren't site failures
+const RETRYABLE: Partial<Record<ToolErrorCode, boolean>> = {
+	conflict: true, // usually a hold that is busy right now
+	browser_unavailable: true,
+	site_unavailable: true,
+	page_lost: true,
+};
+
+// Spread into each tool's input schema
+export const TEXT_OPTION = {
+	includeText: z
+		.boolean()
+		.optional()
+		.describe("Also return a human-readable text summary (default false: JSON only)"),
+};
+
+// Spread into the input schema of tools that talk to a booking site
+export const ORGANIZATION_OPTION = {
+	organization: z
+		.string()
+		.optional()
+		.describe("rec.us organization slug, e.g. \"sfrecpark\" for rec.us/sfrecpark (default: your saved organization)"),
+};
+
+const envelope = {
+	ok: z.boolean(),
+	error: z
+		.object({
+			code: z.enum(TOOL_ERROR_CODES),
+			message: z.string(),
+			retryable: z.boolean().describe("Whether the same call could succeed if tried again later"),
+			step: z.string().optional().describe("The browser step that failed"),
+			nextStep: z.string().optional().describe("What to do about it"),
+			attempts: z.number().optional().describe("How many times the step was tried"),
+			callId: z.string().optional().describe("Pass to get_debug_artifacts for a screenshot of the failure"),
+		})
+		.optional(),
+};
+
+const availabilitySchema = z.object({
+	court: z.string(),
+	date: z.string(),
+	availableTimes: z.array(z.string()),
+	totalSlots: z.number(),
+	requestedTimeAvailable: z.boolean().nullable().optional(),
+	matchingTimes: z.array(z.string()).optional(),
+	error: z.string().optional(),
+	errorCode: z.enum(SITE_ERROR_CODES).optional(),
+	retryable: z.boolean().optional(),
+	fetchedAt: z.number().optional(),
+	ageSeconds: z.number().optional(),
+	fromCache: z.boolean().optional(),
+	stale: z.boolean().optional(),
+});
+
+const matrixSchema = z.object({
+	date: z.string(),
+	times: z.array(z.string()),
+	courts: z.array(
+		z.object({
+			court: z.string(),
+			slots: z.record(z.boolean()),
+			error: z.string().optional(),
+			ageSeconds: z.number().optional(),
+		}),
+	),
+});
+
+const courtSchema = z.object({
+	name: z.string(),
+	neighborhood: z.string().nullable(),
+	address: z.string().nullable(),
+	courtCount: z.number().nullable(),
+	hasLights: z.boolean().nullable(),
+});
+
+const bookingSchema = z.object({
+	id: z.string(),
+	userId: z.string(),
+	userEmail: z.string(),
+	organization: z.string(),
+	court: z.string(),
+	date: z.string(),
+	time: z.string(),
+	durationMinutes: z.number().nullable(),
+	participants: z.array(z.string()),
+	guests: z.array(z.string()),
+	status: z.enum(BOOKING_STATUSES),
+	error: z.string().nullable(),
+	createdAt: z.number(),
+	updatedAt: z.number(),
+});
+
+const holdSchema = z.object({
+	id: z.string().describe("The booking ID"),
+	organization: z.string(),
+	court: z.string(),
+	date: z.string(),
+	time: z.string(),
+	durationMinutes: z.number().nullable(),
+	source: z.enum(["booking", "scheduled"]),
+	intentId: z.string().nullable(),
+	status: z.enum(HOLD_STATUSES),
+	smsRequestedAt: z.number().nullable(),
+	resendCount: z.number(),
+	inboundCodeAt: z.number().nullable(),
+	expiresAt: z.number(),
+	lastError: z.string().nullable(),
+	createdAt: z.number(),
+	updatedAt: z.number(),
+});
+
+const dryRunSchema = z.object({
+	id: z.string(),
+	organization: z.string(),
+	court: z.string(),
+	date: z.string(),
+	requestedTime: z.string(),
+	time: z.string().nullable(),
+	durationMinutes: z.number().nullable(),
+	endTime: z.string().nullable(),
+	participants: z.array(z.string()),
+	guests: z.array(z.string()),
+	price: z.string().nullable().describe("As shown at checkout, e.g. \"$12.00\""),
+	reason: z.string().nullable(),
+	selectors: z.record(z.string()).describe("Selector used at each step; notClicked is the one a real booking would click next"),
+	error: z.string().nullable(),
+	createdAt: z.number(),
+});
+
+const intentSchema = z.object({
+	id: z.string(),
+	organization: z.string(),
+	court: z.string(),
+	date: z.string(),
+	time: z.string(),
+	fallbacks: z.array(z.object({ court: z.string(), time: z.string() })),
+	releaseAt: z.number(),
+	status: z.enum(INTENT_STATUSES),
+	result: z.string().nullable(),
+	bookingId: z.string().nullable(),
+	createdAt: z.number(),
+	updatedAt: z.number(),
+});
+
+const watchSchema = z.object({
+	id: z.string(),
+	organization: z.string(),
+	court: z.string(),
+	date: z.string(),
+	windowStart: z.string().nullable(),
+	windowEnd: z.string().nullable(),
+	channel: z.enum(["webhook", "email", "local"]),
+	target: z.string(),
+	status: z.enum(["active", "expired"]),
+	lastSnapshot: z.array(z.string()).nullable(),
+	lastCheckedAt: z.number().nullable(),
+	lastNotifiedAt: z.number().nullable(),
+	lastError: z.string().nullable(),
+	createdAt: z.number(),
+	recentNotifications: z
+		.array(z.object({ channel: z.string(), slots: z.array(z.string()), sentAt: z.number() }))
+		.optional(),
+});
+
+const loginSchema = z.object({
+	saved: z.boolean(),
+	email: z.string().nullable().describe("Masked rec.us email"),
+	updatedAt: z.number().nullable(),
+	sharedFallback: z.boolean(),
+});
+
+// Which rec.us login a flow ran under
+const debugArtifactSchema = z.object({
+	id: z.string(),
+	callId: z.string(),
+	tool: z.string(),
+	step: z.string().nullable(),
+	code: z.string().nullable(),
+	message: z.string(),
+	url: z.string().nullable().describe("Where the page was when it failed"),
+	screenshotKey: z.string().nullable(),
+	domKey: z.string().nullable(),
+	store: z.enum(["r2", "local"]),
+	createdAt: z.number(),
+});
+
+const accountSchema = z.enum(["user", "shared"]);
+
+const reservationSchema = z.object({
+	reservationId: z.string().nullable(),
+	court: z.string(),
+	date: z.string(),
+	time: z.string(),
+	durationMinutes: z.number().nullable(),
+	status: z.enum(["upcoming", "past", "cancelled"]),
+});
+
+export const OUTPUT_SCHEMAS = {
+	check_tennis_courts: {
+		...envelope,
+		organization: z.string(),
+		dates: z.array(z.string()),
+		courts: z.array(z.string()),
+		requestedTime: z.string().nullable(),
+		results: z.array(availabilitySchema),
+		matrices: z.array(matrixSchema),
+		summary: z.string().optional().describe("AI-written summary, only when summarize is true"),
+	},
+	list_courts: {
+		...envelope,
+		organization: z.string(),
+		refreshedAt: z.number().nullable(),
+		source: z.enum(["rec.us", "fallback"]),
+		courts: z.array(courtSchema),
+	},
+	list_participants: {
+		...envelope,
+		organization: z.string(),
+		participants: z.array(z.string()),
+	},
+	book_and_request_sms: {
+		...envelope,
+		// "dry_run" stops before Send Code: no booking or hold, just what would be booked
+		state: z.enum(["awaiting_sms", "dry_run"]),
+		booking: bookingSchema.optional(),
+		hold: holdSchema.optional(),
+		dryRun: dryRunSchema.optional(),
+		// Which slot was held for the requested time or window, and why
+		choice: z.object({ requested: z.string(), time: z.string(), reason: z.string() }),
+		// null when rec.us showed a length that couldn't be read
+		duration: z.object({ minutes: z.number().nullable(), endTime: z.string().nullable() }),
+		account: accountSchema,
+	},
+	enter_sms_code_and_complete: {
+		...envelope,
+		// "timeout" means rec.us never answered; the booking may or may not exist
+		outcome: z.enum(["confirmed", "timeout"]),
+		booking: bookingSchema.nullable(),
+	},
+	list_pending_bookings: {
+		...envelope,
+		holds: z.array(holdSchema),
+	},
+	resend_sms_code: {
+		...envelope,
+		hold: holdSchema,
+	},
+	abandon_pending_booking: {
+		...envelope,
+		hold: holdSchema,
+	},
+	cancel_booking: {
+		...envelope,
+		// "unconfirmed" means cancel was clicked but rec.us showed no confirmation
+		outcome: z.enum(["cancelled", "unconfirmed"]),
+		booking: bookingSchema,
+	},
+	test_browser: {
+		...envelope,
+		testPageTitle: z.string(),
+	},
+	check_site_compatibility: {
+		...envelope,
+		organization: z.string(),
+		court: z.string(),
+		date: z.string(),
+		loggedIn: z.boolean(),
+		account: accountSchema.nullable(),
+		slot: z.string().nullable().describe("The open slot whose booking form was checked"),
+		compatible: z.boolean().describe("The walk finished and no selector came up missing"),
+		stoppedAt: z.string().nullable().describe("Why the walk ended early"),
+		checks: z.array(
+			z.object({
+				name: z.string(),
+				step: z.string(),
+				selector: z.string(),
+				status: z.enum(["ok", "missing", "skipped"]),
+				matches: z.number(),
+				note: z.string().nullable(),
+			}),
+		),
+		checkedAt: z.number(),
+	},
+	get_booking_history: {
+		...envelope,
+		bookings: z.array(bookingSchema),
+		total: z.number(),
+		nextCursor: z.string().nullable(),
+	},
+	list_dry_runs: {
+		...envelope,
+		dryRuns: z.array(dryRunSchema),
+	},
+	list_reservations: {
+		...envelope,
+		organization: z.string(),
+		reservations: z.array(reservationSchema),
+		matched: z.array(z.object({ reservationId: z.string().nullable(), bookingId: z.string() })),
+		mismatches: z.array(
+			z.object({
+				kind: z.enum(["missing_on_recus", "not_in_ledger", "status_mismatch"]),
+				reservation: reservationSchema.nullable(),
+				booking: bookingSchema.nullable(),
+				message: z.string(),
+			}),
+		),
+		account: accountSchema,
+	},
+	schedule_booking: {
+		...envelope,
+		intent: intentSchema,
+	},
+	list_scheduled_bookings: {
+		...envelope,
+		intents: z.array(intentSchema),
+	},
+	cancel_scheduled_booking: {
+		...envelope,
+		intent: intentSchema,
+	},
+	watch_court: {
+		...envelope,
+		watch: watchSchema,
+		intervalMinutes: z.number(),
+	},
+	list_watches: {
+		...envelope,
+		watches: z.array(watchSchema),
+	},
+	remove_watch: {
+		...envelope,
+		watch: watchSchema,
+	},
+	set_recus_login: {
+		...envelope,
+		login: loginSchema,
+	},
+	get_recus_login: {
+		...envelope,
+		login: loginSchema,
+	},
+	remove_recus_login: {
+		...envelope,
+		login: loginSchema,
+	},
+	set_organization: {
+		...envelope,
+		organization: z.string().describe("The organization your tools now use"),
+		saved: z.boolean().describe("False when reset to the server default"),
+	},
+	get_organization: {
+		...envelope,
+		organization: z.string(),
+		saved: z.boolean(),
+	},
+	get_debug_artifacts: {
+		...envelope,
+		artifacts: z.array(debugArtifactSchema).describe("Screenshots follow as image content, DOM snapshots as text"),
+	},
+	set_sms_phone: {
+		...envelope,
+		phone: z.string().describe("E.164"),
+		webhookPath: z.string(),
+	},
+	remove_sms_phone: {
+		...envelope,
+		phone: z.string(),
+		webhookPath: z.string(),
+	},
+	get_auth_url: {
+		...envelope,
+		loginUrl: z.string(),
+		authorizedUsers: z.array(z.string()),
+	},
+	auth_status: {
+		...envelope,
+		authenticated: z.boolean(),
+		user: z.object({ id: z.string(), email: z.string() }).nullable(),
+	},
+} as const;
+
+export type MediaContent =
+	| { type: "text"; text: string }
+	| { type: "image"; data: string; mimeType: string }; // data is base64
+
+/**
+ * A successful result: `data` as structuredContent and as a JSON text block, plus the
+ * human-readable `text` when the caller asked for it and any `media` after that.
+ */
+export function toolResult(data: Record<string, unknown>, text?: string, media: MediaContent[] = []) {
+	const structuredContent = { ok: true, ...data };
+	return {
+		content: [
+			{ type: "text" as const, text: JSON.stringify(structuredContent, null, 2) },
+			...(text ? [{ type: "text" as const, text }] : []),
+			...media,
+		],
+		structuredContent,
+	};
+}
+
+// Failures always include text: whoever reads an error is usually a person
+export function toolError(code: ToolErrorCode, message: string, text?: string) {
+	return {
+		content: [{ type: "text" as const, text: text ?? `❌ ${message}` }],
+		structuredContent: { ok: false, error: { code, message, retryable: RETRYABLE[code] ?? false } },
+		isError: true,
+	};
+}
+
+/**
+ * A browser failure: the SiteError's code, whether retrying makes sense, the step that
+ * failed and what to do next. `prefix` says which tool call it was.
+ */
+export function siteFailureError(failure: SiteFailure, prefix: string, text?: string) {
+	const message = `${prefix}: ${failure.message}`;
+	const { retryable, step, nextStep, attempts, callId } = failure;
+	const artifacts = callId ? `\n\nScreenshot of the failure: get_debug_artifacts with callId ${callId}` : "";
+	return {
+		content: [
+			{
+				type: "text" as const,
+				text: `${text ?? `❌ ${message}${attempts > 1 ? ` (tried ${attempts} times)` : ""}\n\n${nextStep}`}${artifacts}`,
+			},
+		],
+		structuredContent: {
+			ok: false,
+			error: {
+				code: failure.code,
+				message,
+				retryable,
+				...(step ? { step } : {}),
+				nextStep,
+				attempts,
+				...(callId ? { callId } : {}),
+			},
+		},
+		isError: true,
+	};
+}
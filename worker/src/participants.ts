@@ -0,0 +1,92 @@
+import { SiteError } from "./failures";
+
+// ===== BOOKING PARTICIPANTS =====
+// rec.us asks who each booking is for. The choices are the people on the account
+// (the owner plus household members); some courts allow more than one player, and
+// some let you name guests who aren't on the account.
+
+// What rec.us calls the account holder in the participant list
+export const ACCOUNT_OWNER = "Account Owner";
+
+// The most players and guests one booking can name
+export const MAX_PARTICIPANTS = 4;
+export const MAX_GUESTS = 4;
+
+export class ParticipantError extends SiteError {
+	constructor(
+		message: string,
+		public readonly available: string[],
+	) {
+		super("invalid_input", message, "choose participants");
+		this.name = "ParticipantError";
+	}
+}
+
+function normalize(name: string): string {
+	return name
+		.toLowerCase()
+		.replace(/\(.*?\)/g, " ") // "Jane Doe (Account Owner)"
+		.replace(/[^a-z0-9]+/g, " ")
+		.trim();
+}
+
+/**
+ * Finds `wanted` among the participant options: exact name (ignoring case and
+ * punctuation) first, then a first name or other part that fits only one person.
+ * "me" and "owner" mean the account owner. Throws ParticipantError listing the options.
+ */
+export function matchParticipant(wanted: string, options: string[]): string {
+	const key = normalize(wanted);
+	if (key === "me" || key === "owner" || key === "myself") {
+		const owner = options.find((o) => /account owner/i.test(o));
+		if (owner) return owner;
+	}
+
+	const exact = options.find((o) => normalize(o) === key);
+	if (exact) return exact;
+
+	const partial = options.filter((o) => ` ${normalize(o)} `.includes(` ${key} `));
+	if (partial.length === 1) return partial[0];
+
+	throw new ParticipantError(
+		partial.length > 1
+			? `"${wanted}" could be ${partial.join(" or ")}; use the full name`
+			: `No participant called "${wanted}" on the account. Choose from: ${options.join(", ")}`,
+		options,
+	);
+}
+
+// Several requested names must be several different people
+export function matchParticipants(wanted: string[], options: string[]): string[] {
+	const chosen = wanted.map((name) => matchParticipant(name, options));
+	const duplicate = chosen.find((name, i) => chosen.indexOf(name) !== i);
+	if (duplicate) {
+		throw new ParticipantError(`${duplicate} is listed twice`, options);
+	}
+	return chosen;
+}
+
+/**
+ * Guest names as they will be typed into rec.us: trimmed, none blank or given twice,
+ * and at most MAX_GUESTS of them. Throws ParticipantError otherwise.
+ */
+export function checkGuests(guests: string[]): string[] {
+	const names = guests.map((guest) => guest.trim().replace(/\s+/g, " "));
+	if (names.length > MAX_GUESTS) {
+		throw new ParticipantError(`At most ${MAX_GUESTS} guests can be named per booking`, []);
+	}
+	if (names.includes("")) {
+		throw new ParticipantError("Guest names can't be blank", []);
+	}
+	const keys = names.map(normalize);
+	const duplicate = names.find((_, i) => keys.indexOf(keys[i]) !== i);
+	if (duplicate) {
+		throw new ParticipantError(`${duplicate} is listed twice`, []);
+	}
+	return names;
+}
+
+export function describeParticipants(participants: string[], guests: string[]): string {
+	const people = participants.length > 0 ? participants.join(", ") : ACCOUNT_OWNER;
+	return guests.length > 0 ? `${people} + guests ${guests.join(", ")}` : people;
+}
@@ -0,0 +1,74 @@
+import type { Page } from "@cloudflare/playwright";
+import type { CourtAvailability } from "./availability";
+import type { CourtLocation } from "./courts";
+import { parseOrganization, type Organization, type ProviderId } from "./organizations";
+import {
+	RecUsProvider,
+	type BookingPreview,
+	type BookingRequest,
+	type CancelOutcome,
+	type ConfirmOutcome,
+	type HeldSlot,
+	type HoldOptions,
+	type HoldResult,
+	type SiteCompatibilityReport,
+} from "./recus";
+import type { ReservationCard } from "./reservations";
+import type { LoginSession } from "./sessions";
+
+// ===== BOOKING PROVIDERS =====
+// What the tools and the UserBookings alarm need from a booking system, bound to one
+// organization on it. rec.us is the only one so far; another system gets its own
+// adapter module implementing this and an entry in PROVIDERS, and every tool works
+// with it unchanged. Methods take a fresh page unless they say otherwise, and the
+// caller always owns (and closes) the page.
+
+export interface ProviderCredentials {
+	email: string;
+	password: string;
+	session?: LoginSession; // the page's saved login; logIn skips the form while it holds
+}
+
+export interface BookingProvider {
+	readonly organization: Organization;
+	readonly name: string; // for messages, e.g. "rec.us/sfrecpark"
+
+	// The organization's locations, from its public listing
+	listCourts(page: Page): Promise<CourtLocation[]>;
+	// Open slots at one court on each date; a date that fails carries its own error
+	checkAvailability(page: Page, court: string, dates: string[], time?: string): Promise<CourtAvailability[]>;
+
+	// Runs the booking up to the verification code and leaves the page waiting for it
+	requestBooking(page: Page, booking: BookingRequest, credentials: ProviderCredentials): Promise<HeldSlot>;
+	// requestBooking short of asking for the code; nothing is held or booked
+	previewBooking(page: Page, booking: BookingRequest, credentials: ProviderCredentials): Promise<BookingPreview>;
+	// The next three take a page left by requestBooking or holdSlot
+	hasCodePrompt(page: Page): Promise<boolean>;
+	resendCode(page: Page): Promise<void>;
+	confirm(page: Page, code: string): Promise<ConfirmOutcome>;
+	cancel(page: Page, booking: BookingRequest, credentials: ProviderCredentials): Promise<CancelOutcome>;
+
+	listParticipants(page: Page, court: string, date: string, credentials: ProviderCredentials): Promise<string[]>;
+	listReservations(page: Page, includePast: boolean, credentials: ProviderCredentials): Promise<ReservationCard[]>;
+	checkCompatibility(
+		page: Page,
+		target: { court: string; date: string },
+		credentials: ProviderCredentials | null,
+	): Promise<SiteCompatibilityReport>;
+
+	// Scheduled bookings log in early, sit on a court page and re-read the day until it opens
+	logIn(page: Page, credentials: ProviderCredentials): Promise<void>;
+	openCourt(page: Page, court: string): Promise<void>; // from any page of the organization
+	readTimes(page: Page, date: string): Promise<string>; // the court page's slot list for `date`
+	holdSlot(page: Page, normalizedTime: string, options?: HoldOptions): Promise<HoldResult>;
+}
+
+const PROVIDERS: Record<ProviderId, (slug: string) => BookingProvider> = {
+	recus: (slug) => new RecUsProvider(slug),
+};
+
+// The provider for a stored or user-supplied organization. Throws OrganizationError.
+export function getProvider(organization: string): BookingProvider {
+	const { provider, slug } = parseOrganization(organization);
+	return PROVIDERS[provider](slug);
+}
@@ -0,0 +1,1194 @@
+import type { Locator, Page } from "@cloudflare/playwright";
+import { requestedTimeFields, type CourtAvailability } from "./availability";
+import type { CourtLocation } from "./courts";
+import { monthsBetween, pacificToday } from "./dates";
+import { STEP_RETRY, SiteError, classifySiteError, siteStep } from "./failures";
+import type { Organization } from "./organizations";
+import { ParticipantError, checkGuests, matchParticipant, matchParticipants } from "./participants";
+import type { BookingProvider, ProviderCredentials } from "./providers";
+import type { ReservationCard } from "./reservations";
+import {
+	formatDuration,
+	formatTimeOfDay,
+	parseDurationMinutes,
+	parseSlots,
+	parseTimeOfDay,
+	parseTimeRequest,
+	pickBestSlot,
+	type SlotChoice,
+} from "./times";
+
+// ===== REC.US SITE ADAPTER =====
+// Everything that knows what rec.us looks like: the selectors, and the steps every tool
+// runs with them (checking availability, booking, the scheduled-booking alarm, the
+// court directory, reservations). Tools reach them through RecUsProvider, the
+// BookingProvider for one rec.us organization, instead of touching the page. Each step
+// runs through siteStep, so failures come out as typed SiteErrors, and the steps that
+// only load or read a page are retried when rec.us is slow or drops the connection.
+
+export const REC_US_ORIGIN = "https://www.rec.us";
+
+// An organization's landing page, e.g. https://www.rec.us/sfrecpark
+export function recUsUrl(slug: string): string {
+	return `${REC_US_ORIGIN}/${slug}`;
+}
+
+export interface BookingRequest {
+	court: string;
+	date: string; // YYYY-MM-DD
+	time: string;
+	durationMinutes?: number | null; // default: the first length rec.us offers
+	participants?: string[]; // default: the account owner
+	guests?: string[];
+}
+
+// What requestBookingSms ended up holding
+export interface HeldSlot {
+	choice: SlotChoice;
+	durationMinutes: number | null; // null when the option text couldn't be read
+	endTime: string | null;
+	participants: string[];
+	guests: string[];
+}
+
+export class DurationUnavailableError extends SiteError {
+	constructor(
+		public readonly requestedMinutes: number,
+		public readonly allowedMinutes: number[],
+	) {
+		super(
+			"not_available",
+			allowedMinutes.length > 0
+				? `${formatDuration(requestedMinutes)} is not available for this slot. Allowed: ${allowedMinutes.map(formatDuration).join(", ")}. The longest allowed is ${Math.max(...allowedMinutes)} minutes.`
+				: `${formatDuration(requestedMinutes)} is not available for this slot, and rec.us offered no other length`,
+			"choose the duration",
+		);
+		this.name = "DurationUnavailableError";
+	}
+}
+
+export type ConfirmOutcome = "confirmed" | "already_reserved" | "timeout";
+
+export type CancelOutcome = "cancelled" | "not_found" | "unconfirmed";
+
+// The account's reservations in every organization, reachable once logged in
+export const REC_US_RESERVATIONS_URL = `${REC_US_ORIGIN}/reservations`;
+
+// "7pm", "7 pm", "19:00" -> "7:00 PM", the way rec.us prints slots. Windows such as
+// "evening" come back unchanged.
+export function normalizeSlotTime(time: string): string {
+	const minutes = parseTimeOfDay(time);
+	return minutes === null ? time.trim() : formatTimeOfDay(minutes);
+}
+
+// A control on rec.us: a Playwright selector, or an ARIA role and accessible name
+export type SiteSelector = string | { role: "button" | "tab"; name: string | RegExp };
+
+// Every fixed selector the tools use, in flow order. When rec.us changes its markup
+// this is the place to fix, and check_site_compatibility reports which ones drifted.
+export const SELECTORS = {
+	courtLink: 'a[href*="/locations/"]',
+	logIn: "text=Log In",
+	email: 'input[id="email"]',
+	password: 'input[id="password"]',
+	logInSubmit: "text=log in & continue",
+	courtPage: "text=Court Reservations",
+	dateInput: "input",
+	datepicker: ".react-datepicker",
+	nextMonth: { role: "button", name: "right" },
+	previousMonth: { role: "button", name: "left" },
+	timesLoaded: "text=/(\\d:)|(No free)/",
+	timesPanel: "text=Tennis",
+	duration: "xpath=//label[text()='Duration']/following-sibling::button",
+	option: 'div[role="option"]',
+	openOption: 'div[role="option"]:not([aria-disabled="true"])',
+	participant: "text=Select participant",
+	addParticipant: { role: "button", name: /add (participant|player)/i },
+	addGuest: { role: "button", name: /add guest/i },
+	guestName: '[placeholder*="name" i]',
+	checkout: "button.max-w-max",
+	sendCode: "text=Send Code",
+	smsInput: 'input[id="totp"]',
+	resendCode: "text=/resend|send (a )?new code|send code/i",
+	confirm: "text=Confirm",
+	confirmed: "text=You're all set!",
+	reservationsLoaded: "text=/\\d{1,2}:\\d{2}\\s*[AP]M|no (upcoming )?reservations/i",
+	pastTab: { role: "tab", name: /past/i },
+	pastButton: { role: "button", name: /past/i },
+	cancelModal: '[role="dialog"], [role="alertdialog"]',
+	cancelModalConfirm: { role: "button", name: /yes|confirm|cancel (reservation|booking)/i },
+	cancelled: "text=/cancellation (confirmed|successful)|(has been|was|successfully) cancel(l)?ed/i",
+} as const satisfies Record<string, SiteSelector>;
+
+export type SelectorName = keyof typeof SELECTORS;
+
+// Matches "7:00 PM" in page text but not inside "17:00 PM" or "11:00 PM"
+function slotTextPattern(normalizedTime: string): string {
+	const [clock, meridiem = ""] = normalizedTime.split(" ");
+	return `(^|[^\\d:])${clock}\\s*${meridiem}`;
+}
+
+// Selectors built from what is being looked for
+export function courtSelector(court: string): string {
+	return `text=${court}`;
+}
+
+export function daySelector(day: number): string {
+	return `.react-datepicker__day--0${day < 10 ? "0" : ""}${day}:not(.react-datepicker__day--outside-month)`;
+}
+
+export function slotSelector(normalizedTime: string): string {
+	return `text=/${slotTextPattern(normalizedTime)}/i`;
+}
+
+export function locate(page: Page, selector: SiteSelector): Locator {
+	return typeof selector === "string" ? page.locator(selector) : page.getByRole(selector.role, { name: selector.name });
+}
+
+// How a selector is printed in reports
+export function describeSelector(selector: SiteSelector): string {
+	return typeof selector === "string" ? selector : `role=${selector.role}[name=${String(selector.name)}]`;
+}
+
+// Loads `url`, treating a server error page like a failed connection so it gets retried
+async function goto(page: Page, url: string, timeout?: number): Promise<void> {
+	const response = await page.goto(url, { timeout, waitUntil: "domcontentloaded" });
+	if (response && response.status() >= 500) {
+		throw new SiteError("site_unavailable", `rec.us answered ${url} with HTTP ${response.status()}`);
+	}
+}
+
+async function openRecUs(page: Page, slug: string): Promise<void> {
+	console.log("1. Connecting...");
+	await siteStep("open rec.us", () => goto(page, recUsUrl(slug), 20000), STEP_RETRY);
+	await page.waitForTimeout(2000);
+}
+
+// The organization's landing page, with the location cards the court directory is read from
+async function openCourtDirectory(page: Page, slug: string): Promise<void> {
+	await siteStep(
+		"open the court directory",
+		async () => {
+			await goto(page, recUsUrl(slug));
+			await page.waitForSelector(SELECTORS.courtLink, { timeout: 10000 });
+		},
+		STEP_RETRY,
+	);
+}
+
+/**
+ * Reads the location cards on the organization's landing page. Each card's text is split into
+ * lines and the fields picked out by shape, which survives most markup changes.
+ */
+async function scrapeCourtDirectory(page: Page): Promise<CourtLocation[]> {
+	const cards: string[] = await page.evaluate(
+		(selector: string) =>
+			Array.from(document.querySelectorAll(selector))
+				.map((el) => (el as HTMLElement).innerText)
+				.filter((text) => text && text.trim().length > 0),
+		SELECTORS.courtLink,
+	);
+
+	const courts = new Map<string, CourtLocation>();
+	for (const card of cards) {
+		const lines = card
+			.split("\n")
+			.map((line) => line.trim())
+			.filter(Boolean);
+		if (lines.length === 0 || !/tennis/i.test(card)) continue;
+
+		const addressIndex = lines.findIndex((line) => /^\d+\s+\S+/.test(line) || /San Francisco/i.test(line));
+		const countMatch = card.match(/(\d+)\s+(?:tennis\s+)?courts?/i);
+		const name = lines[0];
+
+		courts.set(name, {
+			name,
+			address: addressIndex > 0 ? lines[addressIndex] : null,
+			// The neighborhood line sits between the name and the address when present
+			neighborhood: addressIndex > 1 ? lines[1] : null,
+			courtCount: countMatch ? Number(countMatch[1]) : null,
+			hasLights: /lights?|lit courts?/i.test(card) ? !/no lights/i.test(card) : null,
+		});
+	}
+
+	return [...courts.values()].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// What rec.us shows under the login form when it turns the credentials down
+const LOGIN_REJECTED_PATTERN = /incorrect|invalid|wrong password|not recognized|doesn't match|does not match/i;
+
+/**
+ * Whether a page opened from a saved session is still signed in: the landing page has
+ * rendered and shows no Log In button. The saved state takes a moment to be picked up,
+ * so a button that is there at first gets a little while to go away.
+ */
+async function hasSession(page: Page): Promise<boolean> {
+	await page.waitForSelector(SELECTORS.courtLink, { timeout: 10000 }).catch(() => {});
+	return page
+		.locator(SELECTORS.logIn)
+		.first()
+		.waitFor({ state: "hidden", timeout: 1500 })
+		.then(
+			() => true,
+			() => false,
+		);
+}
+
+// From the organization's landing page. Skipped when the page's saved session still holds
+async function logIn(page: Page, credentials: ProviderCredentials): Promise<void> {
+	const { email, password, session } = credentials;
+	if (session?.restored && (await hasSession(page))) {
+		console.log("2. Still logged in from the saved session");
+		return;
+	}
+
+	console.log(session?.restored ? "2. Saved session expired, logging in..." : "2. Logging in...");
+	await siteStep("log in", async () => {
+		await page.waitForSelector(SELECTORS.logIn, { timeout: 10000 });
+		await page.locator(SELECTORS.logIn).click();
+		await page.waitForSelector(SELECTORS.email, { timeout: 8000 });
+		await page.fill(SELECTORS.email, email);
+		await page.fill(SELECTORS.password, password);
+		await page.locator(SELECTORS.logInSubmit).click();
+		// Done when the form closes; one that stays open gets checked for a complaint
+		await page.locator(SELECTORS.password).waitFor({ state: "hidden", timeout: 5000 }).catch(() => {});
+
+		// A form that is still open with a complaint under it means the login was refused
+		if (await page.locator(SELECTORS.password).isVisible({ timeout: 1000 }).catch(() => false)) {
+			const text = (await page.textContent("body", { timeout: 3000 }).catch(() => "")) ?? "";
+			if (LOGIN_REJECTED_PATTERN.test(text)) {
+				throw new SiteError("login_failed", `rec.us rejected the login for ${email}`);
+			}
+		}
+	});
+
+	// Only a form that closed and took the Log In button with it is a login worth keeping
+	const accepted =
+		(await page.locator(SELECTORS.password).isHidden().catch(() => false)) &&
+		(await page
+			.locator(SELECTORS.logIn)
+			.first()
+			.waitFor({ state: "hidden", timeout: 1500 })
+			.then(
+				() => true,
+				() => false,
+			));
+	if (accepted) {
+		await session?.save(page);
+	} else {
+		console.log("Login not confirmed, so the session is not saved");
+	}
+}
+
+async function openCourt(page: Page, court: string): Promise<void> {
+	console.log("3. Going to court...");
+	await siteStep(`open ${court}`, async () => {
+		await page.waitForSelector(courtSelector(court), { timeout: 10000 });
+		await page.locator(courtSelector(court)).click();
+	});
+	await page.waitForTimeout(2000);
+}
+
+/**
+ * Opens the datepicker and clicks `date`, walking forwards or backwards from the month
+ * it currently shows (`shownDate`, any day in that month). Months are counted on the
+ * Pacific calendar so the walk has no upper limit and can't be off by one at midnight.
+ */
+async function pickDate(page: Page, date: string, shownDate: string): Promise<void> {
+	await page.locator(SELECTORS.dateInput).click();
+	await page.waitForSelector(SELECTORS.datepicker, { timeout: 5000 });
+
+	const months = monthsBetween(shownDate, date);
+	for (let i = 0; i < Math.abs(months); i++) {
+		await locate(page, months > 0 ? SELECTORS.nextMonth : SELECTORS.previousMonth).click();
+		await page.waitForTimeout(300);
+	}
+
+	const day = Number(date.split("-")[2]);
+	console.log(`Selecting day ${day}...`);
+	await page.locator(daySelector(day)).first().click();
+}
+
+async function selectDate(page: Page, date: string): Promise<void> {
+	console.log("4. Selecting date...");
+	// A fresh court page opens the picker on the current month
+	await siteStep(`select ${date}`, () => pickDate(page, date, pacificToday()));
+	await page.waitForTimeout(1500);
+}
+
+async function readAvailableTimes(page: Page, timeout = 8000): Promise<string> {
+	console.log("5. Checking time availability...");
+	return siteStep(
+		"read the open times",
+		async () => {
+			await page.waitForSelector(SELECTORS.timesLoaded, { timeout });
+			return page
+				.locator(SELECTORS.timesPanel)
+				.first()
+				.evaluate((el: HTMLElement) => (el.parentElement as HTMLElement).innerText);
+		},
+		STEP_RETRY,
+	);
+}
+
+/**
+ * Which of the duration options to click: the one for `durationMinutes`, or the first
+ * when no length was asked for. `allowed` is each option's length, null where its text
+ * couldn't be read. Throws SiteError("site_changed") when no option could be read, and
+ * DurationUnavailableError when the length asked for isn't among them.
+ */
+export function durationIndex(allowed: (number | null)[], durationMinutes?: number): number {
+	const readable = allowed.filter((minutes): minutes is number => minutes !== null);
+	if (readable.length === 0) {
+		throw new SiteError(
+			"site_changed",
+			allowed.length === 0 ? "The duration list has no options" : "None of the duration options could be read",
+			"choose the duration",
+		);
+	}
+	if (durationMinutes === undefined) return 0;
+	const index = allowed.indexOf(durationMinutes);
+	if (index < 0) throw new DurationUnavailableError(durationMinutes, readable);
+	return index;
+}
+
+/**
+ * Step 7: opens the Duration dropdown and picks a length with durationIndex. Returns the
+ * minutes picked, or null when that option's text couldn't be read.
+ */
+async function chooseDuration(page: Page, durationMinutes?: number): Promise<number | null> {
+	console.log("7. Setting duration...");
+	const options = page.locator(SELECTORS.openOption);
+	const allowed = await siteStep("open the duration list", async () => {
+		await page.locator(SELECTORS.duration).click();
+		await page.waitForSelector(SELECTORS.option, { timeout: 5000 });
+		return (await options.allInnerTexts()).map((text) => parseDurationMinutes(text));
+	});
+	let index: number;
+	try {
+		index = durationIndex(allowed, durationMinutes);
+	} catch (error) {
+		await page.keyboard.press("Escape").catch(() => {});
+		throw error;
+	}
+
+	await siteStep("choose the duration", () => options.nth(index).click());
+	return allowed[index];
+}
+
+async function readParticipantOptions(page: Page): Promise<string[]> {
+	await page.waitForSelector(SELECTORS.option, { timeout: 5000 });
+	return (await page.locator(SELECTORS.openOption).allInnerTexts())
+		.map((text) => text.trim())
+		.filter(Boolean);
+}
+
+/**
+ * Step 8: picks who the court is for. Every name is matched against the account's
+ * participant list before anything is clicked; each extra player needs rec.us to
+ * offer another participant field, and guests need an "Add guest" button.
+ */
+async function chooseParticipants(
+	page: Page,
+	participants: string[],
+	guests: string[],
+): Promise<{ participants: string[]; guests: string[] }> {
+	console.log("8. Selecting participants...");
+	const guestNames = checkGuests(guests);
+	await page.locator(SELECTORS.participant).first().click();
+	const options = await readParticipantOptions(page);
+	let chosen: string[];
+	try {
+		chosen = participants.length > 0 ? matchParticipants(participants, options) : [matchParticipant("me", options)];
+	} catch (error) {
+		await page.keyboard.press("Escape").catch(() => {});
+		throw error;
+	}
+
+	for (const [i, name] of chosen.entries()) {
+		if (i > 0) {
+			const addPlayer = locate(page, SELECTORS.addParticipant);
+			if (!(await addPlayer.isVisible({ timeout: 1000 }).catch(() => false))) {
+				throw new ParticipantError(`This court allows ${i} participant${i === 1 ? "" : "s"} per booking`, options);
+			}
+			await addPlayer.click();
+			await page.locator(SELECTORS.participant).last().click();
+			await readParticipantOptions(page);
+		}
+		await page.locator(SELECTORS.option).filter({ hasText: name }).first().click();
+	}
+
+	for (const guest of guestNames) {
+		const addGuest = locate(page, SELECTORS.addGuest);
+		if (!(await addGuest.isVisible({ timeout: 1000 }).catch(() => false))) {
+			throw new ParticipantError("This court doesn't take guests on rec.us", options);
+		}
+		await addGuest.click();
+		await page.locator(SELECTORS.guestName).last().fill(guest);
+	}
+
+	return { participants: chosen, guests: guestNames };
+}
+
+export interface HoldOptions {
+	durationMinutes?: number;
+	participants?: string[]; // names on the account; default the account owner
+	guests?: string[];
+}
+
+export interface HoldResult {
+	durationMinutes: number | null;
+	participants: string[];
+	guests: string[];
+}
+
+// Steps 6-8: pick the slot, duration and participants
+async function fillBookingForm(page: Page, normalizedTime: string, options: HoldOptions): Promise<HoldResult> {
+	console.log("6. Booking time...");
+	await siteStep(`open the ${normalizedTime} slot`, () => page.locator(slotSelector(normalizedTime)).first().click());
+
+	const durationMinutes = await chooseDuration(page, options.durationMinutes);
+	const people = await siteStep("choose participants", () =>
+		chooseParticipants(page, options.participants ?? [], options.guests ?? []),
+	);
+	return { durationMinutes, ...people };
+}
+
+// Steps 6-9: fill in the form, then ask rec.us to text a code
+async function holdSlotAndRequestSms(
+	page: Page,
+	normalizedTime: string,
+	options: HoldOptions = {},
+): Promise<HoldResult> {
+	const held = await fillBookingForm(page, normalizedTime, options);
+
+	// Not retried: a second Send Code would text a second code
+	console.log("9. Requesting SMS...");
+	await siteStep("request the SMS code", async () => {
+		await page.locator(SELECTORS.checkout).click();
+		await page.locator(SELECTORS.sendCode).click();
+
+		await page.waitForTimeout(2000);
+
+		await page.waitForSelector(SELECTORS.smsInput, { timeout: 8000 });
+	});
+	console.log("✅ SMS verification step reached!");
+	return held;
+}
+
+// "$12.00" from the checkout summary, preferring a labelled total; null when none is shown
+async function readPrice(page: Page): Promise<string | null> {
+	const text = (await page.textContent("body", { timeout: 3000 }).catch(() => "")) ?? "";
+	const labelled = text.match(/(?:total|price|fee|amount)\D{0,20}?(\$\s?\d+(?:\.\d{2})?)/i);
+	const price = labelled?.[1] ?? text.match(/\$\s?\d+(?:\.\d{2})?/)?.[0];
+	return price ? price.replace(/\s/g, "") : null;
+}
+
+/**
+ * The people on the account, as rec.us lists them when booking. Opens the first open
+ * slot on `date` at `court` just far enough to read the participant list; nothing is
+ * held. Expects a logged-in page.
+ */
+async function listAccountParticipants(page: Page, court: string, date: string): Promise<string[]> {
+	await openCourt(page, court);
+	await selectDate(page, date);
+	const slots = parseSlots(await readAvailableTimes(page));
+	if (slots.length === 0) {
+		throw new SiteError("not_available", `${court} has no open slots on ${date} to read the participant list from`);
+	}
+	const options = await siteStep("read the participant list", async () => {
+		await page.locator(slotSelector(slots[0].label)).first().click();
+		await page.locator(SELECTORS.participant).first().click();
+		return readParticipantOptions(page);
+	});
+	await page.keyboard.press("Escape").catch(() => {});
+	return options;
+}
+
+/**
+ * Runs the whole flow from a fresh page up to the SMS step. `booking.time` may be an
+ * exact time or a window; returns the slot it held, why it chose that one and for how
+ * long. Throws with the available times when nothing suitable is open.
+ */
+async function requestBookingSms(
+	page: Page,
+	slug: string,
+	booking: BookingRequest,
+	credentials: ProviderCredentials,
+): Promise<HeldSlot> {
+	const choice = await chooseSlot(page, slug, booking, credentials);
+	const held = await holdSlotAndRequestSms(page, choice.slot.label, holdOptions(booking));
+	return toHeldSlot(choice, held);
+}
+
+// Steps 1-5: log in, open the court and date, and pick the slot for `booking.time`
+async function chooseSlot(
+	page: Page,
+	slug: string,
+	booking: BookingRequest,
+	credentials: ProviderCredentials,
+): Promise<SlotChoice> {
+	const request = parseTimeRequest(booking.time);
+
+	await openRecUs(page, slug);
+	await logIn(page, credentials);
+	await openCourt(page, booking.court);
+	await selectDate(page, booking.date);
+
+	const times = await readAvailableTimes(page);
+	const slots = parseSlots(times);
+	console.log(`Looking for ${request.label} in available times: ${slots.map((s) => s.label).join(", ")}`);
+
+	const choice = pickBestSlot(slots, request);
+	if (!choice) {
+		throw new SiteError(
+			"not_available",
+			`${request.label} not available. Available: ${slots.map((s) => s.label).join(", ") || "nothing"}`,
+			"choose a slot",
+		);
+	}
+	return choice;
+}
+
+function holdOptions(booking: BookingRequest): HoldOptions {
+	return {
+		durationMinutes: booking.durationMinutes ?? undefined,
+		participants: booking.participants,
+		guests: booking.guests,
+	};
+}
+
+function toHeldSlot(choice: SlotChoice, held: HoldResult): HeldSlot {
+	return {
+		...held,
+		choice,
+		endTime: held.durationMinutes !== null ? formatTimeOfDay(choice.slot.start + held.durationMinutes) : null,
+	};
+}
+
+// What a dry run would have booked, and what it clicked to get there
+export interface BookingPreview extends HeldSlot {
+	price: string | null; // as shown at checkout, e.g. "$12.00"
+	selectors: Record<string, string>;
+}
+
+/**
+ * The whole flow short of "Send Code": logs in, picks the slot, duration and
+ * participants, opens checkout and reads the price. No code is texted and nothing is
+ * booked; the caller closes the page, which abandons the form.
+ */
+async function previewBooking(
+	page: Page,
+	slug: string,
+	booking: BookingRequest,
+	credentials: ProviderCredentials,
+): Promise<BookingPreview> {
+	const choice = await chooseSlot(page, slug, booking, credentials);
+	const held = await fillBookingForm(page, choice.slot.label, holdOptions(booking));
+
+	console.log("9. Opening checkout (dry run, no SMS)...");
+	await siteStep("open checkout", async () => {
+		await page.locator(SELECTORS.checkout).click();
+		await page.waitForSelector(SELECTORS.sendCode, { timeout: 8000 });
+	});
+	const price = await readPrice(page);
+	console.log(`✅ Dry run stopped before Send Code${price ? ` (price ${price})` : ""}`);
+
+	return {
+		...toHeldSlot(choice, held),
+		price,
+		selectors: {
+			slot: slotSelector(choice.slot.label),
+			duration: SELECTORS.duration,
+			durationOption: SELECTORS.openOption,
+			participant: SELECTORS.participant,
+			participantOption: SELECTORS.openOption,
+			checkout: SELECTORS.checkout,
+			notClicked: SELECTORS.sendCode,
+		},
+	};
+}
+
+async function hasSmsPrompt(page: Page): Promise<boolean> {
+	return page
+		.locator(SELECTORS.smsInput)
+		.isVisible({ timeout: 1000 })
+		.catch(() => false);
+}
+
+// Asks rec.us for a fresh code from a page already at the SMS step
+async function resendSmsCode(page: Page): Promise<void> {
+	if (!(await hasSmsPrompt(page))) {
+		throw new SiteError("page_lost", "The page is no longer at the SMS step", "resend the code");
+	}
+	await siteStep("resend the code", async () => {
+		await page.locator(SELECTORS.resendCode).last().click();
+		await page.waitForTimeout(2000);
+		await page.waitForSelector(SELECTORS.smsInput, { timeout: 8000 });
+	});
+	console.log("✅ SMS code re-sent");
+}
+
+// Types the SMS code and waits up to 3 minutes for rec.us to confirm
+async function confirmWithSmsCode(page: Page, code: string): Promise<ConfirmOutcome> {
+	console.log("entering code");
+	await siteStep("enter the code", () => page.type(SELECTORS.smsInput, code));
+
+	page.setDefaultTimeout(180000); // 3 minute timeout
+	console.log("confirming with 3 min timeout");
+
+	await siteStep("confirm the booking", () => page.locator(SELECTORS.confirm).last().click());
+
+	try {
+		await page.waitForSelector(SELECTORS.confirmed);
+		console.log("success!, terminating");
+		return "confirmed";
+	} catch (e) {
+		console.error(e);
+		console.log("script was too late to book :(, terminating");
+
+		const pageText = await page.textContent("body", { timeout: 3000 }).catch(() => "");
+		if (pageText?.includes("Court already reserved at this time")) {
+			return "already_reserved";
+		}
+		return "timeout";
+	}
+}
+
+/**
+ * Reads the open slots for one court on each of `dates`, walking the datepicker on a
+ * single page. A date that fails gets its own error and the walk carries on. The
+ * caller owns the page.
+ */
+async function scrapeAvailability(
+	page: Page,
+	slug: string,
+	court: string,
+	dates: string[],
+	time?: string,
+): Promise<CourtAvailability[]> {
+	const failed = (date: string, error: unknown): CourtAvailability => {
+		const failure = classifySiteError(error);
+		return {
+			court,
+			date,
+			error: failure.message,
+			errorCode: failure.code,
+			retryable: failure.retryable,
+			availableTimes: [],
+			totalSlots: 0,
+		};
+	};
+
+	try {
+		// Navigate to the specific court page; starting from the landing page each time
+		// makes the whole step safe to repeat
+		await siteStep(
+			`open ${court}`,
+			async () => {
+				await goto(page, recUsUrl(slug));
+				await page.locator(courtSelector(court)).click();
+				await page.waitForSelector(SELECTORS.courtPage, { timeout: 5000 });
+			},
+			STEP_RETRY,
+		);
+	} catch (error) {
+		console.log(`Error opening ${court}: ${error}`);
+		return dates.map((date) => failed(date, error));
+	}
+
+	// The picker opens on the month of the last selected date (this month at first)
+	let shownDate = pacificToday();
+	const results: CourtAvailability[] = [];
+
+	for (const date of dates) {
+		try {
+			await siteStep(`select ${date}`, () => pickDate(page, date, shownDate));
+			shownDate = date;
+
+			// The previous date's slots may still be showing
+			await page.waitForTimeout(1000);
+			const times = await readAvailableTimes(page, 5000);
+			const availableTimes = parseSlots(times).map((slot) => slot.label);
+
+			results.push({
+				court,
+				date,
+				availableTimes,
+				...requestedTimeFields(availableTimes, time),
+				totalSlots: availableTimes.length,
+				fetchedAt: Date.now(),
+			});
+		} catch (error) {
+			console.log(`Error checking ${court} on ${date}: ${error}`);
+			results.push(failed(date, error));
+			// Close the picker if it is still open so the next date starts clean
+			await page.keyboard.press("Escape").catch(() => {});
+		}
+	}
+
+	return results;
+}
+
+function escapeRegExp(text: string): string {
+	return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// `text` as a whole token in page text: "Aug 2" matches "Sat, Aug 2" but not "Aug 20"
+function wholeTextPattern(text: string): string {
+	return `(^|[^\\w/])${escapeRegExp(text).replace(/ /g, "\\s+")}(?![\\w/])`;
+}
+
+// "2025-08-02" -> patterns for the ways rec.us writes that date on a reservation card
+function reservationDatePatterns(date: string): string[] {
+	const d = new Date(`${date}T12:00:00Z`);
+	const format = (options: Intl.DateTimeFormatOptions) => d.toLocaleDateString("en-US", { timeZone: "UTC", ...options });
+	return [
+		format({ month: "short", day: "numeric" }), // Aug 2
+		format({ month: "long", day: "numeric" }), // August 2
+		format({ month: "numeric", day: "numeric", year: "numeric" }), // 8/2/2025
+		format({ month: "2-digit", day: "2-digit", year: "numeric" }), // 08/02/2025
+		date,
+	].map(wholeTextPattern);
+}
+
+/**
+ * Tags the card for `booking` on the reservations page with data-mcp-cancel-target, so
+ * Playwright can click inside it, moving the tag off any card tagged before. False when
+ * no card with a Cancel button matches.
+ */
+async function markReservationCard(page: Page, booking: BookingRequest): Promise<boolean> {
+	const normalizedTime = normalizeSlotTime(booking.time);
+
+	// The smallest element with exactly one Cancel button whose text names the court, the
+	// date and the time, each as a whole token, is the reservation card. Requiring a
+	// single button keeps a list that mixes several cards from passing as one. Tag it so
+	// Playwright can click inside it.
+	return page.evaluate(
+		({ courtPattern, datePatterns, timePattern }) => {
+			for (const tagged of Array.from(document.querySelectorAll("[data-mcp-cancel-target]"))) {
+				tagged.removeAttribute("data-mcp-cancel-target");
+			}
+			const candidates = Array.from(document.querySelectorAll<HTMLElement>("div, li, article, section"))
+				.filter((el) => {
+					const text = el.innerText || "";
+					return (
+						new RegExp(courtPattern, "i").test(text) &&
+						new RegExp(timePattern, "i").test(text) &&
+						datePatterns.some((pattern) => new RegExp(pattern, "i").test(text)) &&
+						Array.from(el.querySelectorAll("button, a")).filter((b) => /cancel/i.test((b as HTMLElement).innerText))
+							.length === 1
+					);
+				})
+				.sort((a, b) => a.innerText.length - b.innerText.length);
+			if (candidates.length === 0) return false;
+			candidates[0].setAttribute("data-mcp-cancel-target", "true");
+			return true;
+		},
+		{
+			courtPattern: wholeTextPattern(booking.court),
+			datePatterns: reservationDatePatterns(booking.date),
+			timePattern: slotTextPattern(normalizedTime),
+		},
+	);
+}
+
+// How long rec.us gets to show that a cancellation went through
+const CANCEL_CONFIRM_TIMEOUT_MS = 10000;
+
+/**
+ * Whether the cancellation went through. Only a positive signal counts: a confirmation
+ * inside the cancel dialog, or a fresh load of the reservations page that has finished
+ * loading and no longer lists the booking. A list that is re-rendering, still loading or
+ * gone from the page is never taken as cancelled, and neither are "Cancelled" badges
+ * elsewhere on the page.
+ */
+export async function cancellationConfirmed(page: Page, booking: BookingRequest): Promise<boolean> {
+	const dialog = page.locator(SELECTORS.cancelModal);
+	for (let waited = 0; waited < CANCEL_CONFIRM_TIMEOUT_MS; waited += 1000) {
+		if (
+			await dialog
+				.locator(SELECTORS.cancelled)
+				.first()
+				.isVisible()
+				.catch(() => false)
+		) {
+			return true;
+		}
+		// No dialog left to say so; the reload below is the only other proof
+		if (!(await dialog.first().isVisible().catch(() => false))) break;
+		await page.waitForTimeout(1000);
+	}
+
+	await page.waitForTimeout(2000);
+	try {
+		await goto(page, REC_US_RESERVATIONS_URL, 20000);
+		await page.waitForSelector(SELECTORS.reservationsLoaded, { timeout: 10000 });
+		return !(await markReservationCard(page, booking));
+	} catch (error) {
+		console.log(`Couldn't reload reservations to check the cancellation: ${error}`);
+		return false;
+	}
+}
+
+/**
+ * Finds the reservation for `booking` on the account's reservations page and cancels
+ * it, accepting whichever confirmation rec.us asks for. Expects a logged-in page.
+ */
+async function cancelReservation(page: Page, booking: BookingRequest): Promise<CancelOutcome> {
+	const normalizedTime = normalizeSlotTime(booking.time);
+
+	console.log("Opening reservations...");
+	await siteStep("open reservations", () => goto(page, REC_US_RESERVATIONS_URL, 20000), STEP_RETRY);
+	await page.waitForSelector(courtSelector(booking.court), { timeout: 10000 }).catch(() => {});
+
+	if (!(await markReservationCard(page, booking))) {
+		console.log(`No reservation card for ${booking.court} ${booking.date} ${normalizedTime}`);
+		return "not_found";
+	}
+
+	// Native confirm() dialogs are accepted; in-page modals are clicked through below
+	page.once("dialog", (dialog) => dialog.accept().catch(() => {}));
+
+	console.log("Cancelling reservation...");
+	await siteStep("cancel the reservation", () => page.locator("[data-mcp-cancel-target] >> text=/cancel/i").first().click());
+	await page.waitForTimeout(1000);
+
+	const modalConfirm = page.locator(SELECTORS.cancelModal).getByRole(SELECTORS.cancelModalConfirm.role, {
+		name: SELECTORS.cancelModalConfirm.name,
+	});
+	if (await modalConfirm.first().isVisible({ timeout: 3000 }).catch(() => false)) {
+		await modalConfirm.first().click();
+	}
+
+	if (await cancellationConfirmed(page, booking)) {
+		console.log("✅ Reservation cancelled");
+		return "cancelled";
+	}
+	return "unconfirmed";
+}
+
+// Cards on whichever reservations tab is showing
+async function readReservationCards(page: Page): Promise<ReservationCard[]> {
+	return page.evaluate(() => {
+		const timePattern = /\d{1,2}:\d{2}\s*[AP]M/i;
+		// Innermost elements that carry a slot time: each one is a single reservation
+		const cards = Array.from(document.querySelectorAll<HTMLElement>("a, li, article, div")).filter((el) => {
+			const text = el.innerText || "";
+			if (!timePattern.test(text) || text.length > 600) return false;
+			return !Array.from(el.children).some((child) => timePattern.test((child as HTMLElement).innerText || ""));
+		});
+		return cards.map((el) => {
+			// Widen to the enclosing card so the court and date come along with the time
+			const card = (el.closest("a, li, article") as HTMLElement | null) ?? el.parentElement ?? el;
+			const link = card.matches("a") ? (card as HTMLAnchorElement) : card.querySelector("a");
+			return { text: card.innerText, href: link?.getAttribute("href") ?? null };
+		});
+	});
+}
+
+/**
+ * Reads the upcoming reservations and, when asked, the past ones from the account's
+ * reservations page. Expects a logged-in page.
+ */
+async function scrapeReservationCards(page: Page, includePast: boolean): Promise<ReservationCard[]> {
+	console.log("Opening reservations...");
+	await siteStep("open reservations", () => goto(page, REC_US_RESERVATIONS_URL, 20000), STEP_RETRY);
+	await page.waitForSelector(SELECTORS.reservationsLoaded, { timeout: 10000 }).catch(() => {});
+
+	const cards = await siteStep("read reservations", () => readReservationCards(page));
+
+	if (includePast) {
+		const pastTab = locate(page, SELECTORS.pastTab).or(locate(page, SELECTORS.pastButton));
+		if (await pastTab.first().isVisible({ timeout: 2000 }).catch(() => false)) {
+			console.log("Reading past reservations...");
+			await pastTab.first().click();
+			await page.waitForTimeout(1500);
+			cards.push(...(await siteStep("read past reservations", () => readReservationCards(page))));
+		}
+	}
+
+	// A card can be reached from more than one time element
+	const seen = new Set<string>();
+	return cards.filter((card) => {
+		const key = `${card.href}|${card.text}`;
+		if (seen.has(key)) return false;
+		seen.add(key);
+		return true;
+	});
+}
+
+// ===== SITE COMPATIBILITY =====
+// What check_site_compatibility reports: for each selector, whether it still finds
+// something on the part of the flow that can be walked without changing anything.
+
+export type SelectorStatus = "ok" | "missing" | "skipped";
+
+export interface SelectorCheck {
+	name: string; // a SELECTORS key, or court/day/slot for the built ones
+	step: string;
+	selector: string;
+	status: SelectorStatus;
+	matches: number;
+	note: string | null; // why it was skipped
+}
+
+export interface SiteCompatibilityReport {
+	court: string;
+	date: string;
+	loggedIn: boolean;
+	slot: string | null; // the open slot whose form was checked
+	compatible: boolean; // the walk finished and nothing checked was missing
+	stoppedAt: string | null; // why the walk ended early
+	checks: SelectorCheck[];
+	checkedAt: number;
+}
+
+// Selectors the walk can't reach without holding, booking or cancelling, and why
+const UNWALKED: Partial<Record<SelectorName, string>> = {
+	addParticipant: "Only offered by courts that take several players",
+	addGuest: "Only offered by courts that take guests",
+	guestName: "Only shown after Add guest",
+	sendCode: "Only shown after checkout, which holds the slot",
+	smsInput: "Only shown after Send Code, which texts a code",
+	resendCode: "Only shown at the SMS step",
+	confirm: "Only shown at the SMS step",
+	confirmed: "Only shown once a booking completes",
+	pastButton: "Checked together with pastTab",
+	cancelModal: "Only shown while cancelling",
+	cancelModalConfirm: "Only shown while cancelling",
+	cancelled: "Only shown in the cancel dialog once a cancellation completes",
+};
+
+const PROBE_TIMEOUT_MS = 8000;
+
+/**
+ * Opens rec.us, logs in when `credentials` are given, opens `court` on `date` and the
+ * first open slot's form, checking each selector on the way: the duration and
+ * participant dropdowns are opened and closed, checkout is found but not clicked, and
+ * the reservations page is read. Nothing is held, booked or cancelled. The caller owns
+ * the page.
+ */
+async function checkSiteCompatibility(
+	page: Page,
+	slug: string,
+	target: { court: string; date: string },
+	credentials: { email: string; password: string } | null,
+): Promise<SiteCompatibilityReport> {
+	const checks: SelectorCheck[] = [];
+	let step = "open";
+	let slot: string | null = null;
+
+	// Whether any of `selectors` finds something; one check is recorded under `name`
+	const probe = async (
+		name: string,
+		selectors: SiteSelector | SiteSelector[],
+		timeout = PROBE_TIMEOUT_MS,
+	): Promise<boolean> => {
+		const list = Array.isArray(selectors) ? selectors : [selectors];
+		const locator = list.map((selector) => locate(page, selector)).reduce((a, b) => a.or(b));
+		const matches = await locator
+			.first()
+			.waitFor({ state: "attached", timeout })
+			.then(() => locator.count())
+			.catch(() => 0);
+		checks.push({
+			name,
+			step,
+			selector: list.map(describeSelector).join(" or "),
+			status: matches > 0 ? "ok" : "missing",
+			matches,
+			note: null,
+		});
+		return matches > 0;
+	};
+
+	// Returns why it stopped early, or null once everything reachable was checked
+	const walk = async (): Promise<string | null> => {
+		await siteStep("open rec.us", () => goto(page, recUsUrl(slug), 20000), STEP_RETRY);
+		if (!(await probe("courtLink", SELECTORS.courtLink))) return "rec.us showed no locations";
+
+		if (credentials) {
+			step = "log in";
+			if (!(await probe("logIn", SELECTORS.logIn))) return "no Log In button";
+			await page.locator(SELECTORS.logIn).click();
+			const email = await probe("email", SELECTORS.email);
+			const password = await probe("password", SELECTORS.password);
+			const submit = await probe("logInSubmit", SELECTORS.logInSubmit);
+			if (!email || !password || !submit) return "the login form changed";
+			await page.fill(SELECTORS.email, credentials.email);
+			await page.fill(SELECTORS.password, credentials.password);
+			await page.locator(SELECTORS.logInSubmit).click();
+			await page.waitForTimeout(3000);
+		}
+
+		step = "court";
+		if (!(await probe("court", courtSelector(target.court)))) return `${target.court} is not listed`;
+		await page.locator(courtSelector(target.court)).click();
+		if (!(await probe("courtPage", SELECTORS.courtPage))) return "the court page changed";
+
+		step = "date";
+		if (!(await probe("dateInput", SELECTORS.dateInput))) return "no date input";
+		await page.locator(SELECTORS.dateInput).click();
+		if (!(await probe("datepicker", SELECTORS.datepicker))) return "the datepicker didn't open";
+		const next = await probe("nextMonth", SELECTORS.nextMonth, 2000);
+		const previous = await probe("previousMonth", SELECTORS.previousMonth, 2000);
+		const months = monthsBetween(pacificToday(), target.date);
+		if ((months > 0 && !next) || (months < 0 && !previous)) return "can't change month";
+		for (let i = 0; i < Math.abs(months); i++) {
+			await locate(page, months > 0 ? SELECTORS.nextMonth : SELECTORS.previousMonth).click();
+			await page.waitForTimeout(300);
+		}
+		const day = Number(target.date.split("-")[2]);
+		if (!(await probe("day", daySelector(day)))) return `day ${day} is not in the picker`;
+		await page.locator(daySelector(day)).first().click();
+		await page.waitForTimeout(1500);
+
+		step = "times";
+		const loaded = await probe("timesLoaded", SELECTORS.timesLoaded);
+		if (!(await probe("timesPanel", SELECTORS.timesPanel)) || !loaded) return "the time list changed";
+		const slots = parseSlots(await readAvailableTimes(page, 2000));
+		if (slots.length === 0) return `${target.court} has no open slots on ${target.date}; try another date`;
+
+		step = "booking form";
+		slot = slots[0].label;
+		if (!(await probe("slot", slotSelector(slot)))) return `the ${slot} slot can't be clicked`;
+		await page.locator(slotSelector(slot)).first().click();
+		if (await probe("duration", SELECTORS.duration)) {
+			await page.locator(SELECTORS.duration).click();
+			await probe("option", SELECTORS.option);
+			await probe("openOption", SELECTORS.openOption);
+			await page.keyboard.press("Escape").catch(() => {});
+		}
+		if (credentials && (await probe("participant", SELECTORS.participant))) {
+			await page.locator(SELECTORS.participant).first().click();
+			await probe("option", SELECTORS.option);
+			await page.keyboard.press("Escape").catch(() => {});
+		}
+		await probe("checkout", SELECTORS.checkout);
+
+		if (credentials) {
+			step = "reservations";
+			await siteStep("open reservations", () => goto(page, REC_US_RESERVATIONS_URL, 20000), STEP_RETRY);
+			await probe("reservationsLoaded", SELECTORS.reservationsLoaded, 10000);
+			await probe("pastTab", [SELECTORS.pastTab, SELECTORS.pastButton], 2000);
+		}
+		return null;
+	};
+
+	let stoppedAt: string | null;
+	try {
+		stoppedAt = await walk();
+	} catch (error) {
+		stoppedAt = `${step}: ${classifySiteError(error).message}`;
+	}
+
+	// Everything the walk didn't get to, so the report covers the whole map
+	const checked = new Set(checks.map((check) => check.name));
+	for (const [name, selector] of Object.entries(SELECTORS) as [SelectorName, SiteSelector][]) {
+		if (checked.has(name)) continue;
+		const note =
+			UNWALKED[name] ??
+			(!credentials && ["logIn", "email", "password", "logInSubmit", "participant", "reservationsLoaded", "pastTab"].includes(name)
+				? "Needs a rec.us login"
+				: stoppedAt
+					? `Not reached: ${stoppedAt}`
+					: "Not checked");
+		checks.push({ name, step: "-", selector: describeSelector(selector), status: "skipped", matches: 0, note });
+	}
+
+	return {
+		court: target.court,
+		date: target.date,
+		loggedIn: credentials !== null,
+		slot,
+		compatible: stoppedAt === null && !checks.some((check) => check.status === "missing"),
+		stoppedAt,
+		checks,
+		checkedAt: Date.now(),
+	};
+}
+
+// ===== PROVIDER =====
+// rec.us behind the BookingProvider interface, for the organization at rec.us/<slug>
+export class RecUsProvider implements BookingProvider {
+	readonly organization: Organization;
+	readonly name: string;
+
+	constructor(private readonly slug: string) {
+		this.organization = { provider: "recus", slug };
+		this.name = `rec.us/${slug}`;
+	}
+
+	async listCourts(page: Page): Promise<CourtLocation[]> {
+		await openCourtDirectory(page, this.slug);
+		return siteStep("read the court directory", () => scrapeCourtDirectory(page));
+	}
+
+	checkAvailability(page: Page, court: string, dates: string[], time?: string): Promise<CourtAvailability[]> {
+		return scrapeAvailability(page, this.slug, court, dates, time);
+	}
+
+	requestBooking(page: Page, booking: BookingRequest, credentials: ProviderCredentials): Promise<HeldSlot> {
+		return requestBookingSms(page, this.slug, booking, credentials);
+	}
+
+	previewBooking(page: Page, booking: BookingRequest, credentials: ProviderCredentials): Promise<BookingPreview> {
+		return previewBooking(page, this.slug, booking, credentials);
+	}
+
+	hasCodePrompt(page: Page): Promise<boolean> {
+		return hasSmsPrompt(page);
+	}
+
+	resendCode(page: Page): Promise<void> {
+		return resendSmsCode(page);
+	}
+
+	confirm(page: Page, code: string): Promise<ConfirmOutcome> {
+		return confirmWithSmsCode(page, code);
+	}
+
+	async cancel(page: Page, booking: BookingRequest, credentials: ProviderCredentials): Promise<CancelOutcome> {
+		await this.logIn(page, credentials);
+		return cancelReservation(page, booking);
+	}
+
+	async listParticipants(page: Page, court: string, date: string, credentials: ProviderCredentials): Promise<string[]> {
+		await this.logIn(page, credentials);
+		return listAccountParticipants(page, court, date);
+	}
+
+	async listReservations(page: Page, includePast: boolean, credentials: ProviderCredentials): Promise<ReservationCard[]> {
+		await this.logIn(page, credentials);
+		return scrapeReservationCards(page, includePast);
+	}
+
+	checkCompatibility(
+		page: Page,
+		target: { court: string; date: string },
+		credentials: ProviderCredentials | null,
+	): Promise<SiteCompatibilityReport> {
+		return checkSiteCompatibility(page, this.slug, target, credentials);
+	}
+
+	async logIn(page: Page, credentials: ProviderCredentials): Promise<void> {
+		await openRecUs(page, this.slug);
+		await logIn(page, credentials);
+	}
+
+	async openCourt(page: Page, court: string): Promise<void> {
+		await openRecUs(page, this.slug);
+		await openCourt(page, court);
+	}
+
+	// Empty when no slot list shows up (the date isn't open yet)
+	async readTimes(page: Page, date: string): Promise<string> {
+		await selectDate(page, date);
+		return readAvailableTimes(page).catch(() => "");
+	}
+
+	holdSlot(page: Page, normalizedTime: string, options?: HoldOptions): Promise<HoldResult> {
+		return holdSlotAndRequestSms(page, normalizedTime, options);
+	}
+}
@@ -0,0 +1,161 @@
+import type { BookingRecord } from "./ledger";
+import { parseDurationMinutes } from "./times";
+
+// ===== REC.US RESERVATIONS =====
+// What the shared rec.us account actually holds, read from its reservations page and
+// lined up against the caller's booking ledger. Bookings made on the site directly, or
+// by another user of the account, only show up here.
+
+export interface RecUsReservation {
+	reservationId: string | null;
+	court: string;
+	date: string; // YYYY-MM-DD
+	time: string; // "7:00 PM"
+	durationMinutes: number | null;
+	status: "upcoming" | "past" | "cancelled";
+}
+
+// One reservation card as scraped: its text and any reservation link inside it
+export interface ReservationCard {
+	text: string;
+	href: string | null;
+}
+
+export type ReservationMismatchKind =
+	| "missing_on_recus" // ledger says confirmed, rec.us has no such reservation
+	| "not_in_ledger" // on rec.us but not in this user's history
+	| "status_mismatch"; // on rec.us, but the ledger has it pending, failed or cancelled
+
+export interface ReservationMismatch {
+	kind: ReservationMismatchKind;
+	reservation: RecUsReservation | null;
+	booking: BookingRecord | null;
+	message: string;
+}
+
+export interface ReservationReconciliation {
+	matched: { reservation: RecUsReservation; booking: BookingRecord }[];
+	mismatches: ReservationMismatch[];
+}
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+function pad(n: number): string {
+	return String(n).padStart(2, "0");
+}
+
+/**
+ * Reads a date in any of the shapes rec.us uses ("Sat, Aug 2, 2025", "August 2",
+ * "8/2/2025"). A date without a year is placed within a year of `today`.
+ */
+export function parseReservationDate(text: string, today: string): string | null {
+	const [todayYear] = today.split("-").map(Number);
+
+	const numeric = text.match(/\b(\d{1,2})\/(\d{1,2})\/(\d{4})\b/);
+	if (numeric) return `${numeric[3]}-${pad(Number(numeric[1]))}-${pad(Number(numeric[2]))}`;
+
+	const iso = text.match(/\b(\d{4})-(\d{2})-(\d{2})\b/);
+	if (iso) return iso[0];
+
+	const named = text.match(/\b(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\.?\s+(\d{1,2})(?:,?\s+(\d{4}))?/i);
+	if (!named) return null;
+
+	const month = MONTHS.indexOf(named[1].toLowerCase()) + 1;
+	const day = Number(named[2]);
+	if (named[3]) return `${named[3]}-${pad(month)}-${pad(day)}`;
+
+	// No year: pick whichever of last/this/next year lands closest to today
+	const candidates = [todayYear - 1, todayYear, todayYear + 1].map((y) => `${y}-${pad(month)}-${pad(day)}`);
+	const distance = (d: string) => Math.abs(Date.parse(d) - Date.parse(today));
+	return candidates.sort((a, b) => distance(a) - distance(b))[0];
+}
+
+/**
+ * Turns scraped cards into reservations. Court names are recognised against the court
+ * directory (longest name first, so "Golden Gate Park" wins over "Golden Gate");
+ * cards without a known court, date or time are skipped.
+ */
+export function parseReservationCards(cards: ReservationCard[], courtNames: string[], today: string): RecUsReservation[] {
+	const byLength = [...courtNames].sort((a, b) => b.length - a.length);
+	const reservations: RecUsReservation[] = [];
+
+	for (const card of cards) {
+		const court = byLength.find((name) => card.text.toLowerCase().includes(name.toLowerCase()));
+		const date = parseReservationDate(card.text, today);
+		const time = card.text.match(/\b(\d{1,2}:\d{2}\s*[AP]M)\b/i)?.[1].replace(/\s+/, " ").toUpperCase();
+		if (!court || !date || !time) continue;
+
+		const idFromHref = card.href?.match(/reservations?\/([\w-]+)/i)?.[1] ?? null;
+		const idFromText = card.text.match(/(?:reservation|confirmation)\s*(?:#|id:?|number:?)\s*([\w-]+)/i)?.[1] ?? null;
+
+		reservations.push({
+			reservationId: idFromHref ?? idFromText,
+			court,
+			date,
+			time,
+			durationMinutes: parseDurationMinutes(card.text),
+			status: /cancel(l)?ed/i.test(card.text) ? "cancelled" : date < today ? "past" : "upcoming",
+		});
+	}
+
+	return reservations.sort((a, b) => a.date.localeCompare(b.date) || a.time.localeCompare(b.time));
+}
+
+function sameSlot(reservation: RecUsReservation, booking: BookingRecord): boolean {
+	return (
+		reservation.court.toLowerCase() === booking.court.toLowerCase() &&
+		reservation.date === booking.date &&
+		reservation.time === booking.time
+	);
+}
+
+/**
+ * Lines up rec.us reservations with ledger entries by court, date and time. Only
+ * confirmed bookings are expected on rec.us; pending and failed ones are expected not
+ * to be, and show up as mismatches only if rec.us has them anyway.
+ */
+export function reconcileReservations(
+	reservations: RecUsReservation[],
+	bookings: BookingRecord[],
+): ReservationReconciliation {
+	const matched: ReservationReconciliation["matched"] = [];
+	const mismatches: ReservationMismatch[] = [];
+	const live = reservations.filter((r) => r.status !== "cancelled");
+
+	for (const reservation of live) {
+		const candidates = bookings.filter((b) => sameSlot(reservation, b));
+		const confirmed = candidates.find((b) => b.status === "confirmed");
+
+		if (confirmed) {
+			matched.push({ reservation, booking: confirmed });
+		} else if (candidates.length > 0) {
+			const booking = candidates[0];
+			mismatches.push({
+				kind: "status_mismatch",
+				reservation,
+				booking,
+				message: `${reservation.court} ${reservation.date} ${reservation.time} exists on rec.us but is ${booking.status} in your history`,
+			});
+		} else {
+			mismatches.push({
+				kind: "not_in_ledger",
+				reservation,
+				booking: null,
+				message: `${reservation.court} ${reservation.date} ${reservation.time} is on rec.us but not in your history (booked on the site or by another user)`,
+			});
+		}
+	}
+
+	for (const booking of bookings) {
+		if (booking.status !== "confirmed") continue;
+		if (live.some((r) => sameSlot(r, booking))) continue;
+		mismatches.push({
+			kind: "missing_on_recus",
+			reservation: null,
+			booking,
+			message: `${booking.court} ${booking.date} ${booking.time} is confirmed in your history but not on rec.us`,
+		});
+	}
+
+	return { matched, mismatches };
+}
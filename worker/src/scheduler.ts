@@ -0,0 +1,98 @@
+import { DEFAULT_BOOKING_WINDOW_DAYS, PACIFIC_TIME_ZONE, addDays } from "./dates";
+
+// ===== RELEASE-WINDOW SCHEDULING =====
+// SF Rec opens each date for booking a fixed number of days ahead at a fixed local
+// time. A booking intent waits in the user's UserBookings Durable Object until that
+// moment; the object's alarm fires a little early so the browser is already logged in.
+
+export const INTENT_STATUSES = ["scheduled", "running", "awaiting_sms", "succeeded", "failed", "cancelled"] as const;
+
+export type IntentStatus = (typeof INTENT_STATUSES)[number];
+
+export interface IntentSlot {
+	court: string;
+	time: string;
+}
+
+export interface BookingIntent {
+	id: string;
+	userId: string;
+	userEmail: string;
+	organization: string; // fallbacks are in the same one
+	court: string;
+	date: string; // YYYY-MM-DD
+	time: string;
+	fallbacks: IntentSlot[]; // tried in order when the primary slot is gone
+	releaseAt: number; // epoch ms
+	status: IntentStatus;
+	result: string | null;
+	bookingId: string | null;
+	createdAt: number;
+	updatedAt: number;
+}
+
+export const RELEASE_TIME_ZONE = PACIFIC_TIME_ZONE;
+export const DEFAULT_RELEASE_DAYS_AHEAD = DEFAULT_BOOKING_WINDOW_DAYS;
+export const DEFAULT_RELEASE_TIME = "08:00";
+
+// How early the alarm fires to launch the browser and log in
+export const WARMUP_MS = 60 * 1000;
+// How long to keep re-reading the day after release before giving up
+export const RELEASE_POLL_MS = 45 * 1000;
+
+// Offset of `timeZone` from UTC at the given instant, in ms
+function zoneOffsetMs(epoch: number, timeZone: string): number {
+	const parts = Object.fromEntries(
+		new Intl.DateTimeFormat("en-US", {
+			timeZone,
+			hourCycle: "h23",
+			year: "numeric",
+			month: "2-digit",
+			day: "2-digit",
+			hour: "2-digit",
+			minute: "2-digit",
+			second: "2-digit",
+		})
+			.formatToParts(new Date(epoch))
+			.map((p) => [p.type, p.value]),
+	);
+	const asUtc = Date.UTC(
+		Number(parts.year),
+		Number(parts.month) - 1,
+		Number(parts.day),
+		Number(parts.hour),
+		Number(parts.minute),
+		Number(parts.second),
+	);
+	return asUtc - (epoch - (epoch % 1000));
+}
+
+// Wall-clock date and time in `timeZone` -> epoch ms
+export function zonedTimeToEpoch(date: string, time: string, timeZone: string): number {
+	const [year, month, day] = date.split("-").map(Number);
+	const [hour, minute] = time.split(":").map(Number);
+	const guess = Date.UTC(year, month - 1, day, hour, minute);
+	// The offset at the UTC guess is hours away from the answer and can be on the other
+	// side of a DST change; the offset at that first answer is the one that applies
+	const first = guess - zoneOffsetMs(guess, timeZone);
+	return guess - zoneOffsetMs(first, timeZone);
+}
+
+/**
+ * When rec.us opens `date` for booking: `daysAhead` days before it, at `releaseTime`
+ * Pacific time.
+ */
+export function computeReleaseAt(date: string, daysAhead: number, releaseTime: string): number {
+	return zonedTimeToEpoch(addDays(date, -daysAhead), releaseTime, RELEASE_TIME_ZONE);
+}
+
+export function formatPacific(epoch: number): string {
+	return new Date(epoch).toLocaleString("en-US", { timeZone: RELEASE_TIME_ZONE, timeZoneName: "short" });
+}
+
+export async function sleepUntil(epoch: number): Promise<void> {
+	const ms = epoch - Date.now();
+	if (ms > 0) {
+		await new Promise((resolve) => setTimeout(resolve, ms));
+	}
+}
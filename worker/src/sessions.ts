@@ -0,0 +1,116 @@
+import type { Browser, BrowserContext, Page } from "@cloudflare/playwright";
+import { maskEmail, openValue, sealValue, type CredentialEnv, type RecUsCredentials } from "./credentials";
+
+// ===== SAVED LOGIN SESSIONS =====
+// Logging in to rec.us on every page costs seconds on the booking path and risks its
+// login rate limits. After a login that rec.us accepted, the page's storage state
+// (cookies, local storage and IndexedDB) is sealed under CREDENTIALS_ENCRYPTION_KEY and
+// kept in KV. It belongs to the user plus the exact login they saved: saving someone
+// else's email with a made-up password never reaches their session, and changing the
+// password starts a new one. New pages start from it, and the login step only logs in
+// again when rec.us no longer takes it. Without the encryption key nothing is saved.
+
+export type LoginState = Awaited<ReturnType<BrowserContext["storageState"]>>;
+
+export interface SessionEnv extends CredentialEnv {
+	KV: KVNamespace;
+}
+
+// Handed to the provider with the credentials of the page it was opened for
+export interface LoginSession {
+	restored: boolean; // the page started from this login's saved state
+	save(page: Page): Promise<void>; // after rec.us accepted a submitted login; never throws
+}
+
+// rec.us keeps people signed in for weeks; a week-old state is dropped anyway
+const SESSION_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+function toHex(bytes: ArrayBuffer): string {
+	return [...new Uint8Array(bytes)].map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Who a saved session belongs to: the user ID plus an HMAC of the login under the
+ * encryption key, so the fingerprint says nothing about the password on its own. Used
+ * as the sealing owner; the KV key is its hash.
+ */
+export async function sessionOwner(env: SessionEnv, userId: string, credentials: RecUsCredentials): Promise<string> {
+	const key = await crypto.subtle.importKey(
+		"raw",
+		new TextEncoder().encode(env.CREDENTIALS_ENCRYPTION_KEY),
+		{ name: "HMAC", hash: "SHA-256" },
+		false,
+		["sign"],
+	);
+	const login = `${credentials.email.trim().toLowerCase()}\n${credentials.password}`;
+	const fingerprint = toHex(await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(login)));
+	return `${userId}:${fingerprint}`;
+}
+
+async function sessionKey(owner: string): Promise<string> {
+	return `recus-session:${toHex(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(owner)))}`;
+}
+
+export async function loadLoginState(
+	env: SessionEnv,
+	userId: string,
+	credentials: RecUsCredentials,
+): Promise<LoginState | null> {
+	if (!env.CREDENTIALS_ENCRYPTION_KEY) return null;
+	const owner = await sessionOwner(env, userId, credentials);
+	const sealed = await env.KV.get(await sessionKey(owner));
+	if (!sealed) return null;
+	try {
+		return await openValue<LoginState>(env, owner, sealed, "rec.us session");
+	} catch {
+		// Sealed under a rotated key: log in again and save over it
+		return null;
+	}
+}
+
+// Only for a page whose login rec.us just accepted with these credentials
+export async function saveLoginState(
+	env: SessionEnv,
+	userId: string,
+	credentials: RecUsCredentials,
+	page: Page,
+): Promise<void> {
+	if (!env.CREDENTIALS_ENCRYPTION_KEY) return;
+	try {
+		const owner = await sessionOwner(env, userId, credentials);
+		const state = await page.context().storageState({ indexedDB: true });
+		const sealed = await sealValue(env, owner, state);
+		await env.KV.put(await sessionKey(owner), sealed, { expirationTtl: SESSION_TTL_SECONDS });
+		console.log(`🔑 Saved the rec.us session for ${maskEmail(credentials.email)}`);
+	} catch (error) {
+		console.error("Could not save the rec.us session:", error);
+	}
+}
+
+export async function forgetLoginState(env: SessionEnv, userId: string, credentials: RecUsCredentials): Promise<void> {
+	if (!env.CREDENTIALS_ENCRYPTION_KEY) return;
+	await env.KV.delete(await sessionKey(await sessionOwner(env, userId, credentials)));
+}
+
+/**
+ * A page in a new browser context that starts from the session `userId` saved for
+ * `credentials`, if any. Callers close the page as usual; its context is closed along
+ * with it.
+ */
+export async function openSessionPage(
+	browser: Browser,
+	env: SessionEnv,
+	userId: string,
+	credentials: RecUsCredentials,
+): Promise<{ page: Page; session: LoginSession }> {
+	const saved = await loadLoginState(env, userId, credentials).catch(() => null);
+	const context = await browser.newContext(saved ? { storageState: saved } : undefined);
+	const page = await context.newPage();
+	page.on("close", () => {
+		context.close().catch(() => {});
+	});
+	return {
+		page,
+		session: { restored: saved !== null, save: (loggedIn) => saveLoginState(env, userId, credentials, loggedIn) },
+	};
+}
@@ -0,0 +1,250 @@
+// ===== INBOUND SMS =====
+// rec.us texts a verification code to the phone on the account. Instead of someone
+// typing it into enter_sms_code_and_complete, the text can be forwarded to the worker's
+// /sms/inbound webhook, either from a Twilio-style number (form-encoded, signed with
+// X-Twilio-Signature) or from an SMS forwarder app (JSON, signed with an HMAC of the
+// body). The phone the code arrived on says whose it is; the time it arrived says which
+// of their pending bookings it belongs to. A signed request can be captured and sent
+// again, so forwarder payloads must be recent and every message is processed once.
+
+export type InboundSmsFormat = "twilio" | "forwarder";
+
+export interface InboundSms {
+	format: InboundSmsFormat;
+	phone: string; // the user's phone, E.164
+	text: string;
+	receivedAt: number;
+	messageId: string; // the sender's ID for the message, or its signature when it has none
+}
+
+export type InboundSmsErrorCode =
+	| "not_configured"
+	| "bad_signature"
+	| "bad_request"
+	| "stale"
+	| "replayed"
+	| "unknown_number"
+	| "no_code"
+	| "no_pending_booking";
+
+export class InboundSmsError extends Error {
+	constructor(
+		public readonly code: InboundSmsErrorCode,
+		message: string,
+		public readonly status: number,
+	) {
+		super(message);
+		this.name = "InboundSmsError";
+	}
+}
+
+export interface SmsEnv {
+	ENVIRONMENT?: string;
+	ALLOW_LOCAL_STANDINS?: string; // "true" in .dev.vars only; enables LocalSmsSender
+	SMS_WEBHOOK_SECRET?: string; // HMAC key for forwarder payloads
+	TWILIO_AUTH_TOKEN?: string; // verifies X-Twilio-Signature
+}
+
+export const SMS_WEBHOOK_PATH = "/sms/inbound";
+export const LOCAL_SMS_PATH = "/sms/inbound/local";
+export const FORWARDER_SIGNATURE_HEADER = "X-Signature";
+
+// A code is accepted if it arrives this long before rec.us was asked for it (clock skew)
+export const SMS_CLOCK_SKEW_MS = 30 * 1000;
+
+// Forwarder payloads stamped longer ago than this are refused as possible replays
+export const SMS_MAX_AGE_MS = 5 * 60 * 1000;
+
+// Processed message IDs are remembered for longer than a payload stays acceptable
+export const SMS_SEEN_TTL_SECONDS = 15 * 60;
+
+// Twilio requests carry no timestamp, so a captured one stays valid; its MessageSid is
+// remembered for a day, well past any verification code it could carry
+export const SMS_TWILIO_SEEN_TTL_SECONDS = 24 * 60 * 60;
+
+// "(415) 555-0100", "415.555.0100", "+1 415 555 0100" -> "+14155550100"; US numbers by default
+export function normalizePhone(input: string): string | null {
+	const digits = input.replace(/[^\d+]/g, "");
+	if (/^\+\d{8,15}$/.test(digits)) return digits;
+	if (/^\d{10}$/.test(digits)) return `+1${digits}`;
+	if (/^1\d{10}$/.test(digits)) return `+${digits}`;
+	return null;
+}
+
+// "+14155550100" -> "+1••••••0100", for logs
+export function maskPhone(phone: string): string {
+	return `${phone.slice(0, 2)}${"•".repeat(Math.max(0, phone.length - 6))}${phone.slice(-4)}`;
+}
+
+/**
+ * The verification code in a text: digits right after "code", "passcode" or "PIN"
+ * first, otherwise the only 4-8 digit number in the message. Null when there is none
+ * or several numbers could be it.
+ */
+export function extractVerificationCode(text: string): string | null {
+	const labelled = text.match(/\b(?:code|passcode|pin)\b\D{0,20}?(\d{4,8})\b/i);
+	if (labelled) return labelled[1];
+
+	const numbers = [...new Set(text.match(/\b\d{4,8}\b/g) ?? [])];
+	return numbers.length === 1 ? numbers[0] : null;
+}
+
+// ===== SIGNATURES =====
+async function hmac(algorithm: "SHA-1" | "SHA-256", secret: string, data: string): Promise<Uint8Array> {
+	const key = await crypto.subtle.importKey(
+		"raw",
+		new TextEncoder().encode(secret),
+		{ name: "HMAC", hash: algorithm },
+		false,
+		["sign"],
+	);
+	return new Uint8Array(await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(data)));
+}
+
+function timingSafeEqual(a: string, b: string): boolean {
+	if (a.length !== b.length) return false;
+	let diff = 0;
+	for (let i = 0; i < a.length; i++) {
+		diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+	}
+	return diff === 0;
+}
+
+// Twilio signs the full URL followed by each POST parameter name and value, sorted by name
+export async function twilioSignature(authToken: string, url: string, params: Record<string, string>): Promise<string> {
+	const data =
+		url +
+		Object.keys(params)
+			.sort()
+			.map((name) => name + params[name])
+			.join("");
+	return btoa(String.fromCharCode(...(await hmac("SHA-1", authToken, data))));
+}
+
+// Forwarders send "sha256=<hex HMAC-SHA256 of the raw body>"
+export async function forwarderSignature(secret: string, body: string): Promise<string> {
+	const digest = await hmac("SHA-256", secret, body);
+	return `sha256=${[...digest].map((b) => b.toString(16).padStart(2, "0")).join("")}`;
+}
+
+/**
+ * Verifies and reads a webhook request. Form-encoded bodies are Twilio-style
+ * (From, Body, MessageSid); JSON bodies are forwarder payloads ({to, text, receivedAt,
+ * id?}) where `to` is the phone the forwarder runs on and `receivedAt` must fall within
+ * SMS_MAX_AGE_MS of `now`. Throws InboundSmsError.
+ */
+export async function parseInboundSms(request: Request, env: SmsEnv, now = Date.now()): Promise<InboundSms> {
+	const contentType = request.headers.get("Content-Type") ?? "";
+	const body = await request.text();
+
+	if (contentType.includes("application/x-www-form-urlencoded")) {
+		if (!env.TWILIO_AUTH_TOKEN) {
+			throw new InboundSmsError("not_configured", "TWILIO_AUTH_TOKEN is not configured", 503);
+		}
+		const params: Record<string, string> = {};
+		new URLSearchParams(body).forEach((value, name) => {
+			params[name] = value;
+		});
+		const expected = await twilioSignature(env.TWILIO_AUTH_TOKEN, request.url, params);
+		if (!timingSafeEqual(request.headers.get("X-Twilio-Signature") ?? "", expected)) {
+			throw new InboundSmsError("bad_signature", "X-Twilio-Signature does not match", 403);
+		}
+		return toInboundSms("twilio", params.From, params.Body, now, params.MessageSid || expected);
+	}
+
+	if (!env.SMS_WEBHOOK_SECRET) {
+		throw new InboundSmsError("not_configured", "SMS_WEBHOOK_SECRET is not configured", 503);
+	}
+	const expected = await forwarderSignature(env.SMS_WEBHOOK_SECRET, body);
+	if (!timingSafeEqual(request.headers.get(FORWARDER_SIGNATURE_HEADER) ?? "", expected)) {
+		throw new InboundSmsError("bad_signature", `${FORWARDER_SIGNATURE_HEADER} does not match`, 403);
+	}
+
+	let payload: Record<string, unknown>;
+	try {
+		payload = JSON.parse(body);
+	} catch {
+		throw new InboundSmsError("bad_request", "Body must be JSON or form-encoded", 400);
+	}
+	const text = payload.text ?? payload.body ?? payload.message;
+	const receivedAt = Number(payload.receivedAt ?? payload.receivedStamp);
+	if (!Number.isFinite(receivedAt) || receivedAt <= 0) {
+		throw new InboundSmsError("bad_request", "Missing receivedAt (epoch ms)", 400);
+	}
+	if (now - receivedAt > SMS_MAX_AGE_MS || receivedAt - now > SMS_CLOCK_SKEW_MS) {
+		throw new InboundSmsError("stale", `receivedAt is more than ${SMS_MAX_AGE_MS / 60000} minutes from now`, 400);
+	}
+	const id = payload.id ?? payload.messageId;
+	return toInboundSms(
+		"forwarder",
+		payload.to ?? payload.phone,
+		text,
+		receivedAt,
+		typeof id === "string" && id !== "" ? id : expected,
+	);
+}
+
+function toInboundSms(
+	format: InboundSmsFormat,
+	phone: unknown,
+	text: unknown,
+	receivedAt: number,
+	messageId: string,
+): InboundSms {
+	const normalized = typeof phone === "string" ? normalizePhone(phone) : null;
+	if (!normalized) {
+		throw new InboundSmsError("bad_request", `Missing or invalid phone number: ${phone}`, 400);
+	}
+	if (typeof text !== "string" || text.trim() === "") {
+		throw new InboundSmsError("bad_request", "Missing message text", 400);
+	}
+	return { format, phone: normalized, text, receivedAt, messageId: `${format}:${messageId}` };
+}
+
+/**
+ * Local stand-in for a forwarder: builds the signed request a real one would send, so
+ * the whole webhook path can be exercised without a phone. Only where .dev.vars sets
+ * ALLOW_LOCAL_STANDINS=true, and never in production.
+ */
+export class LocalSmsSender {
+	constructor(private readonly env: SmsEnv) {
+		if (env.ALLOW_LOCAL_STANDINS !== "true" || env.ENVIRONMENT === "production") {
+			throw new InboundSmsError(
+				"not_configured",
+				"The local SMS sender needs ALLOW_LOCAL_STANDINS=true in .dev.vars and is never used in production",
+				403,
+			);
+		}
+		if (!env.SMS_WEBHOOK_SECRET) {
+			throw new InboundSmsError("not_configured", "SMS_WEBHOOK_SECRET is not configured", 503);
+		}
+	}
+
+	async request(webhookUrl: string, sms: { phone: string; text: string; receivedAt?: number }): Promise<Request> {
+		const body = JSON.stringify({ to: sms.phone, text: sms.text, receivedAt: sms.receivedAt ?? Date.now() });
+		console.log(`📨 [local sms] ${maskPhone(normalizePhone(sms.phone) ?? sms.phone)}: ${sms.text}`);
+		return new Request(webhookUrl, {
+			method: "POST",
+			headers: {
+				"Content-Type": "application/json",
+				[FORWARDER_SIGNATURE_HEADER]: await forwarderSignature(this.env.SMS_WEBHOOK_SECRET as string, body),
+			},
+			body,
+		});
+	}
+}
+
+// KV index from phone number to the user who registered it
+export function phoneKey(phone: string): string {
+	return `sms-phone:${phone}`;
+}
+
+// KV marker for a message that has already been processed
+export function seenMessageKey(messageId: string): string {
+	return `sms-seen:${messageId}`;
+}
+
+// How long the seen marker for `sms` is kept
+export function seenMessageTtl(sms: InboundSms): number {
+	return sms.format === "twilio" ? SMS_TWILIO_SEEN_TTL_SECONDS : SMS_SEEN_TTL_SECONDS;
+}
@@ -0,0 +1,198 @@
+// ===== STYTCH SESSION VERIFICATION =====
+// The frontend finishes the Stytch OAuth flow in the browser and hands the worker a
+// session token. Nothing else in the request body is trusted: the user's identity
+// always comes from the session the verifier returns.
+
+export type SessionErrorCode =
+	| "missing_session_token"
+	| "session_expired"
+	| "session_revoked"
+	| "session_invalid"
+	| "verifier_misconfigured"
+	| "stytch_unavailable";
+
+export class SessionVerificationError extends Error {
+	constructor(
+		public readonly code: SessionErrorCode,
+		message: string,
+		public readonly status: number,
+	) {
+		super(message);
+		this.name = "SessionVerificationError";
+	}
+}
+
+export interface VerifiedSession {
+	sessionId: string;
+	userId: string;
+	email: string;
+	expiresAt: number; // epoch ms
+}
+
+export interface SessionVerifier {
+	authenticate(sessionToken: string): Promise<VerifiedSession>;
+}
+
+interface VerifierEnv {
+	ENVIRONMENT?: string;
+	ALLOW_LOCAL_STANDINS?: string; // "true" in .dev.vars only; never a deployed var
+	STYTCH_PROJECT_ID?: string;
+	STYTCH_SECRET?: string;
+	STYTCH_VERIFIER?: string;
+	LOCAL_STYTCH_SESSIONS?: string;
+}
+
+// Shared by both verifiers so a session that is past its expiry is rejected the same
+// way no matter where it came from.
+function assertNotExpired(session: VerifiedSession): VerifiedSession {
+	if (!Number.isFinite(session.expiresAt) || session.expiresAt <= Date.now()) {
+		throw new SessionVerificationError("session_expired", "Stytch session has expired. Please log in again.", 401);
+	}
+	return session;
+}
+
+// The parts of Stytch's /v1/sessions/authenticate response (or error) that are read
+interface StytchAuthenticateResponse {
+	error_type?: string;
+	session?: {
+		session_id: string;
+		user_id: string;
+		expires_at: string;
+	};
+	user?: {
+		emails?: { email: string; verified: boolean }[];
+	};
+}
+
+/**
+ * Verifies session tokens against the Stytch Consumer API
+ * (POST /v1/sessions/authenticate). Test projects talk to test.stytch.com.
+ */
+export class StytchSessionVerifier implements SessionVerifier {
+	private readonly baseUrl: string;
+
+	constructor(
+		private readonly projectId: string,
+		private readonly secret: string,
+	) {
+		this.baseUrl = projectId.startsWith("project-test-") ? "https://test.stytch.com" : "https://api.stytch.com";
+	}
+
+	async authenticate(sessionToken: string): Promise<VerifiedSession> {
+		let response: Response;
+		try {
+			response = await fetch(`${this.baseUrl}/v1/sessions/authenticate`, {
+				method: "POST",
+				headers: {
+					Authorization: `Basic ${btoa(`${this.projectId}:${this.secret}`)}`,
+					"Content-Type": "application/json",
+				},
+				body: JSON.stringify({ session_token: sessionToken }),
+			});
+		} catch (error) {
+			throw new SessionVerificationError("stytch_unavailable", `Could not reach Stytch: ${error}`, 502);
+		}
+
+		const body: StytchAuthenticateResponse = await response.json<StytchAuthenticateResponse>().catch(() => ({}));
+
+		if (!response.ok) {
+			const errorType: string = body.error_type || "unknown_error";
+			console.log(`Stytch rejected session (${response.status}): ${errorType}`);
+
+			// Stytch reports both revoked and timed-out sessions as session_not_found
+			if (errorType === "session_not_found") {
+				throw new SessionVerificationError(
+					"session_revoked",
+					"Stytch session is no longer active (revoked or logged out). Please log in again.",
+					401,
+				);
+			}
+			if (response.status === 401 || response.status === 403) {
+				throw new SessionVerificationError(
+					"verifier_misconfigured",
+					"Worker could not authenticate with Stytch. Check STYTCH_PROJECT_ID and STYTCH_SECRET.",
+					500,
+				);
+			}
+			if (response.status >= 500) {
+				throw new SessionVerificationError("stytch_unavailable", `Stytch returned ${response.status}`, 502);
+			}
+			throw new SessionVerificationError("session_invalid", `Stytch rejected the session token (${errorType})`, 401);
+		}
+
+		const email = body.user?.emails?.find((e) => e.verified)?.email ?? body.user?.emails?.[0]?.email;
+		if (!body.session?.user_id || !email) {
+			throw new SessionVerificationError("session_invalid", "Stytch session has no user email attached", 401);
+		}
+
+		return assertNotExpired({
+			sessionId: body.session.session_id,
+			userId: body.session.user_id,
+			email,
+			expiresAt: Date.parse(body.session.expires_at),
+		});
+	}
+}
+
+interface LocalSessionRecord {
+	user_id: string;
+	email: string;
+	expires_at: string;
+	revoked?: boolean;
+}
+
+/**
+ * Local stand-in for Stytch used in development and tests, and only where .dev.vars
+ * sets ALLOW_LOCAL_STANDINS=true. Sessions are read from the LOCAL_STYTCH_SESSIONS var: a JSON object mapping session token to
+ * { user_id, email, expires_at, revoked? }.
+ */
+export class LocalSessionVerifier implements SessionVerifier {
+	constructor(private readonly sessions: Record<string, LocalSessionRecord>) {}
+
+	async authenticate(sessionToken: string): Promise<VerifiedSession> {
+		const record = this.sessions[sessionToken];
+		if (!record) {
+			throw new SessionVerificationError("session_invalid", "Unknown session token", 401);
+		}
+		if (record.revoked) {
+			throw new SessionVerificationError("session_revoked", "Session has been revoked. Please log in again.", 401);
+		}
+
+		return assertNotExpired({
+			sessionId: `local-${sessionToken.slice(0, 8)}`,
+			userId: record.user_id,
+			email: record.email,
+			expiresAt: Date.parse(record.expires_at),
+		});
+	}
+}
+
+export function getSessionVerifier(env: VerifierEnv): SessionVerifier {
+	if (env.STYTCH_VERIFIER === "local") {
+		// Opt-in per machine: a deployed worker never has the flag, whatever ENVIRONMENT says
+		if (env.ALLOW_LOCAL_STANDINS !== "true" || env.ENVIRONMENT === "production") {
+			throw new SessionVerificationError(
+				"verifier_misconfigured",
+				"The local session verifier needs ALLOW_LOCAL_STANDINS=true in .dev.vars and is never used in production",
+				500,
+			);
+		}
+		return new LocalSessionVerifier(JSON.parse(env.LOCAL_STYTCH_SESSIONS || "{}"));
+	}
+
+	if (!env.STYTCH_PROJECT_ID || !env.STYTCH_SECRET) {
+		throw new SessionVerificationError(
+			"verifier_misconfigured",
+			"STYTCH_PROJECT_ID and STYTCH_SECRET secrets are not configured",
+			500,
+		);
+	}
+	return new StytchSessionVerifier(env.STYTCH_PROJECT_ID, env.STYTCH_SECRET);
+}
+
+export async function verifySessionToken(env: VerifierEnv, sessionToken: unknown): Promise<VerifiedSession> {
+	if (typeof sessionToken !== "string" || sessionToken.trim() === "") {
+		throw new SessionVerificationError("missing_session_token", "Request body must include a sessionToken", 400);
+	}
+	return getSessionVerifier(env).authenticate(sessionToken.trim());
+}
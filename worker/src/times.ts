@@ -0,0 +1,229 @@
+// ===== SLOT TIMES =====
+// rec.us lists slots as page text ("7:00 PM", sometimes "7:00 PM - 8:00 PM"). Slots
+// and requested times are both turned into minutes after midnight, so "7 pm", "19:00"
+// and "7:00 PM" name the same slot and "0:00 AM" can never match inside "10:00 AM".
+// A request is either one exact time or a window to pick the best open slot from.
+
+export interface TimeSlot {
+	label: string; // "7:00 PM", the way rec.us prints the start
+	start: number; // minutes after midnight
+	end: number | null; // when the page shows one
+}
+
+export type TimeRequest =
+	| { kind: "exact"; start: number; label: string }
+	| { kind: "window"; start: number; end: number; preferred: number; label: string };
+
+export interface SlotChoice {
+	slot: TimeSlot;
+	reason: string;
+}
+
+export class TimeError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "TimeError";
+	}
+}
+
+// Start and end are the earliest and latest slot start; `preferred` is what "best" aims for
+export const NAMED_WINDOWS: Record<string, { start: number; end: number; preferred: number }> = {
+	"early morning": { start: 6 * 60, end: 8 * 60, preferred: 7 * 60 },
+	morning: { start: 6 * 60, end: 11 * 60 + 30, preferred: 9 * 60 },
+	lunch: { start: 11 * 60 + 30, end: 13 * 60 + 30, preferred: 12 * 60 },
+	midday: { start: 11 * 60 + 30, end: 13 * 60 + 30, preferred: 12 * 60 },
+	afternoon: { start: 12 * 60, end: 17 * 60, preferred: 15 * 60 },
+	"after work": { start: 17 * 60, end: 20 * 60, preferred: 18 * 60 },
+	evening: { start: 17 * 60, end: 21 * 60, preferred: 18 * 60 },
+	night: { start: 19 * 60, end: 22 * 60, preferred: 20 * 60 },
+};
+
+// "7pm", "7 pm", "7:30 PM", "19:00", "noon" -> minutes after midnight
+export function parseTimeOfDay(input: string): number | null {
+	const text = input.trim().toLowerCase().replace(/\./g, "");
+	if (text === "noon") return 12 * 60;
+	if (text === "midnight") return 0;
+
+	const match = text.match(/^(\d{1,2})(?::(\d{2}))?\s*(am|pm)?$/);
+	if (!match) return null;
+
+	let hours = Number(match[1]);
+	const minutes = Number(match[2] ?? 0);
+	const meridiem = match[3];
+	if (minutes > 59 || (meridiem ? hours < 1 || hours > 12 : hours > 23)) return null;
+
+	if (meridiem) hours = (hours % 12) + (meridiem === "pm" ? 12 : 0);
+	return hours * 60 + minutes;
+}
+
+// 1140 -> "7:00 PM"
+export function formatTimeOfDay(minutes: number): string {
+	const hours = Math.floor(minutes / 60) % 24;
+	const hour12 = hours % 12 === 0 ? 12 : hours % 12;
+	return `${hour12}:${String(minutes % 60).padStart(2, "0")} ${hours < 12 ? "AM" : "PM"}`;
+}
+
+// "2 hours", "1 hr 30 min", "90 minutes" -> minutes
+export function parseDurationMinutes(text: string): number | null {
+	const hours = text.match(/(\d+(?:\.\d+)?)\s*(?:hours?|hrs?)\b/i);
+	const minutes = text.match(/(\d+)\s*(?:minutes?|mins?)\b/i);
+	if (!hours && !minutes) return null;
+	return Math.round((hours ? Number(hours[1]) * 60 : 0) + (minutes ? Number(minutes[1]) : 0));
+}
+
+// 90 -> "1 hour 30 minutes"
+export function formatDuration(minutes: number): string {
+	const hours = Math.floor(minutes / 60);
+	const rest = minutes % 60;
+	const parts = [
+		hours > 0 ? `${hours} hour${hours === 1 ? "" : "s"}` : "",
+		rest > 0 ? `${rest} minute${rest === 1 ? "" : "s"}` : "",
+	];
+	return parts.filter(Boolean).join(" ") || "0 minutes";
+}
+
+/**
+ * Every slot in a block of page text, in order and without duplicates. A start only
+ * counts when it isn't the tail of a longer number, and a range with one AM/PM
+ * ("7:00 - 8:00 PM") lends it to the start.
+ */
+export function parseSlots(text: string): TimeSlot[] {
+	const pattern = /(?<![\d:])(\d{1,2}):(\d{2})\s*([AP]M)?(?:\s*[-–]\s*(\d{1,2}):(\d{2})\s*([AP]M))?/gi;
+	const slots = new Map<number, TimeSlot>();
+
+	for (const match of text.matchAll(pattern)) {
+		const meridiem = match[3] ?? match[6];
+		if (!meridiem) continue; // a bare "19:00" on the page is not a slot
+		const start = parseTimeOfDay(`${match[1]}:${match[2]} ${meridiem}`);
+		if (start === null || slots.has(start)) continue;
+		const end = match[4] ? parseTimeOfDay(`${match[4]}:${match[5]} ${match[6]}`) : null;
+		slots.set(start, { label: formatTimeOfDay(start), start, end });
+	}
+
+	return [...slots.values()];
+}
+
+// One end of a range; a missing AM/PM is settled once the other end is known
+function parseBound(text: string): { minutes: number; hasMeridiem: boolean } | null {
+	const minutes = parseTimeOfDay(text);
+	if (minutes === null) return null;
+	return { minutes, hasMeridiem: /[ap]\.?m\.?$|noon|midnight/i.test(text.trim()) };
+}
+
+/**
+ * Reads what someone asked for: an exact time ("7pm", "19:00"), a range ("between 5
+ * and 8pm", "5-8pm", "after 6pm", "before 10am") or a named window ("morning",
+ * "lunch", "evening"). Throws TimeError with the accepted forms otherwise.
+ */
+export function parseTimeRequest(input: string): TimeRequest {
+	const text = input
+		.trim()
+		.toLowerCase()
+		.replace(/\s+/g, " ")
+		.replace(/^(in the|at|around) /, "");
+
+	const named = NAMED_WINDOWS[text];
+	if (named) {
+		return { kind: "window", ...named, label: `${text} (${formatTimeOfDay(named.start)}–${formatTimeOfDay(named.end)})` };
+	}
+
+	const exact = parseTimeOfDay(text);
+	if (exact !== null) {
+		return { kind: "exact", start: exact, label: formatTimeOfDay(exact) };
+	}
+
+	const after = text.match(/^(?:after|from|not before) (.+)$/);
+	if (after) {
+		const start = parseTimeOfDay(after[1]);
+		if (start !== null) {
+			return { kind: "window", start, end: 23 * 60, preferred: start, label: `after ${formatTimeOfDay(start)}` };
+		}
+	}
+
+	const before = text.match(/^(?:before|by|until|no later than) (.+)$/);
+	if (before) {
+		const limit = parseTimeOfDay(before[1]);
+		if (limit !== null && limit > 0) {
+			// A slot starting at the limit isn't before it; aim for the last one that is
+			return { kind: "window", start: 0, end: limit - 1, preferred: limit, label: `before ${formatTimeOfDay(limit)}` };
+		}
+	}
+
+	const range = text.match(/^(?:between |from )?(.+?) ?(?:-|–|to|and|until) ?(.+)$/);
+	if (range) {
+		const from = parseBound(range[1]);
+		const to = parseBound(range[2]);
+		if (from && to) {
+			let start = from.minutes;
+			const end = to.minutes;
+			// "5 to 8pm" means 5 PM; "11 to 1pm" means 11 AM
+			if (!from.hasMeridiem && to.hasMeridiem && start < 12 * 60 && end >= 12 * 60 && start + 12 * 60 <= end) {
+				start += 12 * 60;
+			}
+			if (start > end) {
+				throw new TimeError(`"${input}" ends before it starts`);
+			}
+			return {
+				kind: "window",
+				start,
+				end,
+				preferred: start,
+				label: `${formatTimeOfDay(start)}–${formatTimeOfDay(end)}`,
+			};
+		}
+	}
+
+	throw new TimeError(
+		`Could not understand the time "${input}". Use a time like "7pm" or "19:00", a range like "between 5 and 8pm", or one of: ${Object.keys(NAMED_WINDOWS).join(", ")}.`,
+	);
+}
+
+export function slotMatches(slot: TimeSlot, request: TimeRequest): boolean {
+	return request.kind === "exact"
+		? slot.start === request.start
+		: slot.start >= request.start && slot.start <= request.end;
+}
+
+// The labels in `availableTimes` that satisfy `time`; none when `time` doesn't parse
+export function matchingTimes(availableTimes: string[], time: string): string[] {
+	let request: TimeRequest;
+	try {
+		request = parseTimeRequest(time);
+	} catch {
+		return [];
+	}
+	return parseSlots(availableTimes.join("\n"))
+		.filter((slot) => slotMatches(slot, request))
+		.map((slot) => slot.label);
+}
+
+/**
+ * The open slot to book for `request`, and why. An exact request only takes its own
+ * slot. A window takes the slot nearest its preferred time (the start of a range, the
+ * heart of a named window), the earlier one on a tie.
+ */
+export function pickBestSlot(slots: TimeSlot[], request: TimeRequest): SlotChoice | null {
+	const candidates = slots.filter((slot) => slotMatches(slot, request));
+	if (candidates.length === 0) return null;
+
+	if (request.kind === "exact") {
+		return { slot: candidates[0], reason: `${candidates[0].label} is open, exactly as requested` };
+	}
+
+	const distance = (slot: TimeSlot) => Math.abs(slot.start - request.preferred);
+	const [best, ...others] = [...candidates].sort((a, b) => distance(a) - distance(b) || a.start - b.start);
+	const why =
+		distance(best) === 0
+			? `${best.label} is open at the preferred time in the window ${request.label}`
+			: `${best.label} is the open slot closest to ${formatTimeOfDay(request.preferred)}, the preferred time in the window ${request.label}`;
+	return {
+		slot: best,
+		reason:
+			others.length > 0
+				? `${why}; also open in the window: ${others
+						.sort((a, b) => a.start - b.start)
+						.map((s) => s.label)
+						.join(", ")}`
+				: `${why}; it is the only open slot in the window`,
+	};
+}
@@ -0,0 +1,71 @@
+import type { NotificationChannelType } from "./notifications";
+import { parseTimeOfDay } from "./times";
+
+// ===== COURT WATCHES =====
+// A watch is a court, a date and a time window. The owner's UserBookings object
+// re-reads the court on an alarm and compares the slots in the window against the
+// previous snapshot; only slots that weren't there last time trigger a notification.
+
+export type WatchStatus = "active" | "expired";
+
+export interface CourtWatch {
+	id: string;
+	userId: string;
+	userEmail: string;
+	organization: string;
+	court: string;
+	date: string; // YYYY-MM-DD
+	windowStart: string | null; // "6:00 PM"; null means the whole day
+	windowEnd: string | null;
+	channel: NotificationChannelType;
+	target: string; // webhook URL or email address
+	status: WatchStatus;
+	lastSnapshot: string[] | null; // slots in the window at the last check; null before the first
+	lastCheckedAt: number | null;
+	lastNotifiedAt: number | null;
+	lastError: string | null;
+	createdAt: number;
+}
+
+export const MAX_WATCHES_PER_USER = 10;
+export const DEFAULT_WATCH_INTERVAL_MINUTES = 5;
+
+export function slotInWindow(slot: string, windowStart: string | null, windowEnd: string | null): boolean {
+	const minutes = parseTimeOfDay(slot.replace(/\s+/g, " "));
+	if (minutes === null) return false;
+	const start = windowStart ? parseTimeOfDay(windowStart) : null;
+	const end = windowEnd ? parseTimeOfDay(windowEnd) : null;
+	return (start === null || minutes >= start) && (end === null || minutes <= end);
+}
+
+/**
+ * Slots in the window that weren't in the previous snapshot. Before the first check
+ * there is no snapshot, so whatever is already open counts as new.
+ */
+export function newlyOpenedSlots(previous: string[] | null, current: string[]): string[] {
+	const before = new Set(previous ?? []);
+	return current.filter((slot) => !before.has(slot));
+}
+
+/**
+ * One check of a watch: the available slots that fall in its window, which become the
+ * next snapshot once the owner has been told, and the ones among them to tell them
+ * about. A snapshot is only replaced after a successful notification, so a slot is
+ * announced once and a failed send is retried at the next check.
+ */
+export function compareWatchSlots(
+	watch: Pick<CourtWatch, "windowStart" | "windowEnd" | "lastSnapshot">,
+	availableTimes: string[],
+): { current: string[]; opened: string[] } {
+	const current = availableTimes
+		.map((slot) => slot.trim())
+		.filter((slot) => slotInWindow(slot, watch.windowStart, watch.windowEnd));
+	return { current, opened: newlyOpenedSlots(watch.lastSnapshot, current) };
+}
+
+export function describeWindow(watch: Pick<CourtWatch, "windowStart" | "windowEnd">): string {
+	if (watch.windowStart && watch.windowEnd) return `${watch.windowStart}–${watch.windowEnd}`;
+	if (watch.windowStart) return `from ${watch.windowStart}`;
+	if (watch.windowEnd) return `until ${watch.windowEnd}`;
+	return "any time";
+}
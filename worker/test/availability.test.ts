@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import {
+	ageSeconds,
+	cacheDecision,
+	formatAge,
+	fromCachedAvailability,
+	invalidateAvailability,
+	readCachedAvailability,
+	writeCachedAvailability,
+	type AvailabilityCacheMode,
+	type CacheDecision,
+} from "../src/availability";
+import { memoryKV } from "./helpers";
+
+const NOW = Date.parse("2025-08-01T15:00:00Z");
+const TTL = 120;
+
+function fetchedSecondsAgo(seconds: number) {
+	return { fetchedAt: NOW - seconds * 1000 };
+}
+
+describe("cacheDecision", () => {
+	it.each<[string, { fetchedAt: number } | null, AvailabilityCacheMode, CacheDecision]>([
+		["a fresh entry", fetchedSecondsAgo(30), "default", "fresh"],
+		["an entry exactly at the TTL", fetchedSecondsAgo(TTL), "default", "fresh"],
+		["an expired entry", fetchedSecondsAgo(TTL + 1), "default", "scrape"],
+		["no entry", null, "default", "scrape"],
+		["a fresh entry in stale-while-revalidate mode", fetchedSecondsAgo(30), "stale-while-revalidate", "fresh"],
+		["an expired entry in stale-while-revalidate mode", fetchedSecondsAgo(TTL + 1), "stale-while-revalidate", "stale"],
+		["an hour-old entry in stale-while-revalidate mode", fetchedSecondsAgo(3600), "stale-while-revalidate", "stale"],
+		["no entry in stale-while-revalidate mode", null, "stale-while-revalidate", "scrape"],
+		["a fresh entry in bypass mode", fetchedSecondsAgo(1), "bypass", "scrape"],
+	])("%s", (_, entry, mode, expected) => {
+		expect(cacheDecision(entry, mode, TTL, NOW)).toBe(expected);
+	});
+
+	it("treats an entry from a clock ahead of ours as fresh", () => {
+		expect(cacheDecision({ fetchedAt: NOW + 5000 }, "default", TTL, NOW)).toBe("fresh");
+	});
+});
+
+describe("ages", () => {
+	it("rounds to whole seconds and never goes negative", () => {
+		expect(ageSeconds(NOW - 1499, NOW)).toBe(1);
+		expect(ageSeconds(NOW + 10_000, NOW)).toBe(0);
+	});
+
+	it("formats seconds, minutes and hours", () => {
+		expect(formatAge(45)).toBe("45s old");
+		expect(formatAge(150)).toBe("3 min old");
+		expect(formatAge(7200)).toBe("2 h old");
+	});
+});
+
+describe("availability cache", () => {
+	const result = {
+		court: "Moscone",
+		date: "2025-08-02",
+		availableTimes: ["6:00 PM", "7:00 PM"],
+		totalSlots: 2,
+		fetchedAt: NOW,
+	};
+
+	it("keeps entries per organization, whatever the court's case", async () => {
+		const kv = memoryKV();
+		await writeCachedAvailability(kv, "sfrecpark", result, TTL);
+
+		expect(await readCachedAvailability(kv, "sfrecpark", "MOSCONE", "2025-08-02")).toEqual({
+			court: "Moscone",
+			date: "2025-08-02",
+			availableTimes: ["6:00 PM", "7:00 PM"],
+			fetchedAt: NOW,
+		});
+		expect(await readCachedAvailability(kv, "oakland", "Moscone", "2025-08-02")).toBeNull();
+		expect(await readCachedAvailability(kv, "sfrecpark", "Moscone", "2025-08-03")).toBeNull();
+	});
+
+	it("never caches a failed check", async () => {
+		const kv = memoryKV();
+		await writeCachedAvailability(kv, "sfrecpark", { ...result, error: "rec.us could not be reached" }, TTL);
+		expect(await readCachedAvailability(kv, "sfrecpark", "Moscone", "2025-08-02")).toBeNull();
+	});
+
+	it("drops an entry once a booking touches it", async () => {
+		const kv = memoryKV();
+		await writeCachedAvailability(kv, "sfrecpark", result, TTL);
+		await invalidateAvailability(kv, "sfrecpark", "moscone", "2025-08-02");
+		expect(await readCachedAvailability(kv, "sfrecpark", "Moscone", "2025-08-02")).toBeNull();
+	});
+
+	it("marks what it serves as cached, stale or not, and matches the requested time", () => {
+		const entry = { court: "Moscone", date: "2025-08-02", availableTimes: ["6:00 PM", "7:00 PM"], fetchedAt: NOW };
+		expect(fromCachedAvailability(entry, "evening", true)).toMatchObject({
+			totalSlots: 2,
+			fromCache: true,
+			stale: true,
+			requestedTimeAvailable: true,
+			matchingTimes: ["6:00 PM", "7:00 PM"],
+		});
+		expect(fromCachedAvailability(entry, undefined, false)).toMatchObject({ stale: false, requestedTimeAvailable: null });
+	});
+});
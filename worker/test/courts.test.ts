@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import {
+	FALLBACK_COURT_NAMES,
+	describeCourtMismatch,
+	fallbackDirectory,
+	isDirectoryStale,
+	matchCourt,
+	type CourtLocation,
+} from "../src/courts";
+
+const COURTS = fallbackDirectory("sfrecpark").courts;
+
+function court(name: string): CourtLocation {
+	return { name, neighborhood: null, address: null, courtCount: null, hasLights: null };
+}
+
+function matchedName(input: string, courts = COURTS): string | null {
+	const match = matchCourt(input, courts);
+	return match.ok ? match.court.name : null;
+}
+
+describe("matchCourt", () => {
+	it("resolves exact names whatever the case, spacing or punctuation", () => {
+		expect(matchedName("Alice Marble")).toBe("Alice Marble");
+		expect(matchedName("alice  MARBLE")).toBe("Alice Marble");
+		expect(matchedName("St. Mary's")).toBe("St. Mary's");
+		expect(matchedName("J.P. Murphy")).toBe("J.P. Murphy");
+	});
+
+	it("ignores words like tennis, courts and park", () => {
+		expect(matchedName("Alice Marble Tennis Courts")).toBe("Alice Marble");
+		expect(matchedName("Golden Gate")).toBe("Golden Gate Park");
+		expect(matchedName("Moscone Recreation Center")).toBe("Moscone");
+	});
+
+	it("resolves a partial name only when it names one court", () => {
+		expect(matchedName("Marble")).toBe("Alice Marble");
+		expect(matchedName("Upper")).toBe("Upper Noe");
+
+		const courts = [court("Golden Gate Heights"), court("Golden Gate Valley"), court("Rossi")];
+		expect(matchCourt("Golden Gate", courts)).toEqual({
+			ok: false,
+			input: "Golden Gate",
+			suggestions: ["Golden Gate Heights", "Golden Gate Valley"],
+		});
+	});
+
+	it("never resolves names too short to be meant as a partial match", () => {
+		expect(matchCourt("no", COURTS).ok).toBe(false);
+	});
+
+	it("suggests the closest names for a typo", () => {
+		const match = matchCourt("Mosconi", COURTS);
+		expect(match.ok).toBe(false);
+		if (!match.ok) expect(match.suggestions[0]).toBe("Moscone");
+	});
+
+	it("suggests nothing for a name nowhere near the directory", () => {
+		expect(matchCourt("Wimbledon Centre", COURTS)).toEqual({ ok: false, input: "Wimbledon Centre", suggestions: [] });
+	});
+});
+
+describe("describeCourtMismatch", () => {
+	it("lists suggestions when there are some", () => {
+		expect(describeCourtMismatch({ ok: false, input: "Golden Gate", suggestions: ["Golden Gate Park", "Golden Gate Heights"] })).toBe(
+			'Unknown court "Golden Gate". Did you mean "Golden Gate Park" or "Golden Gate Heights"?',
+		);
+	});
+
+	it("points at list_courts when there are none", () => {
+		expect(describeCourtMismatch({ ok: false, input: "Wimbledon", suggestions: [] })).toBe(
+			'Unknown court "Wimbledon". Run list_courts to see every location.',
+		);
+	});
+});
+
+describe("court directory", () => {
+	it("only has a built-in fallback for sfrecpark", () => {
+		expect(fallbackDirectory("sfrecpark").courts.map((c) => c.name)).toEqual(FALLBACK_COURT_NAMES);
+		expect(fallbackDirectory("oaklandca")).toMatchObject({ courts: [], source: "fallback", refreshedAt: 0 });
+	});
+
+	it("goes stale after the refresh interval", () => {
+		const hour = 60 * 60 * 1000;
+		expect(isDirectoryStale({ courts: [], refreshedAt: Date.now() - 23 * hour, source: "rec.us" }, 24)).toBe(false);
+		expect(isDirectoryStale({ courts: [], refreshedAt: Date.now() - 25 * hour, source: "rec.us" }, 24)).toBe(true);
+	});
+});
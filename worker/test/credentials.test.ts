@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest";
+import {
+	CredentialError,
+	credentialStatus,
+	maskEmail,
+	openCredentials,
+	openValue,
+	resolveCredentials,
+	sealCredentials,
+	sealValue,
+	toBase64,
+	validateCredentials,
+	type StoredCredentials,
+} from "../src/credentials";
+
+const env = { CREDENTIALS_ENCRYPTION_KEY: "test-encryption-key" };
+const LOGIN = { email: "player@example.com", password: "hunter2" };
+const SHARED = { REC_EMAIL: "club@example.com", REC_PASSWORD: "shared-secret" };
+
+async function stored(userId: string): Promise<StoredCredentials> {
+	return { sealed: await sealCredentials(env, userId, LOGIN), emailHint: maskEmail(LOGIN.email), updatedAt: 1 };
+}
+
+// Flips one bit of the ciphertext, keeping the sealed format intact
+function tamper(sealed: string): string {
+	const [version, iv, ciphertext] = sealed.split(".");
+	const bytes = Uint8Array.from(atob(ciphertext), (c) => c.charCodeAt(0));
+	bytes[0] ^= 1;
+	return [version, iv, toBase64(bytes)].join(".");
+}
+
+describe("sealing", () => {
+	it("opens a value for the owner it was sealed for", async () => {
+		const sealed = await sealValue(env, "user-a", { cookies: ["session=1"] });
+		expect(sealed).toMatch(/^v1\./);
+		expect(sealed).not.toContain("session=1");
+		expect(await openValue(env, "user-a", sealed, "browser session")).toEqual({ cookies: ["session=1"] });
+	});
+
+	it("never seals the same value the same way twice", async () => {
+		expect(await sealValue(env, "user-a", LOGIN)).not.toBe(await sealValue(env, "user-a", LOGIN));
+	});
+
+	it("refuses to open a login sealed for another user", async () => {
+		const sealed = await sealCredentials(env, "user-a", LOGIN);
+		await expect(openCredentials(env, "user-b", sealed)).rejects.toMatchObject({
+			code: "unreadable",
+			message: "The saved rec.us login can't be decrypted; save it again",
+		});
+	});
+
+	it("refuses a tampered value", async () => {
+		const sealed = await sealCredentials(env, "user-a", LOGIN);
+		await expect(openCredentials(env, "user-a", tamper(sealed))).rejects.toMatchObject({ code: "unreadable" });
+	});
+
+	it("refuses values sealed under another key or in another format", async () => {
+		const sealed = await sealCredentials(env, "user-a", LOGIN);
+		await expect(openCredentials({ CREDENTIALS_ENCRYPTION_KEY: "rotated" }, "user-a", sealed)).rejects.toBeInstanceOf(
+			CredentialError,
+		);
+		await expect(openCredentials(env, "user-a", "plain-text")).rejects.toMatchObject({
+			code: "unreadable",
+			message: expect.stringContaining("unknown format"),
+		});
+	});
+
+	it("needs the encryption key to be configured", async () => {
+		await expect(sealValue({}, "user-a", LOGIN)).rejects.toMatchObject({ code: "not_configured" });
+	});
+});
+
+describe("resolveCredentials", () => {
+	it("uses the user's own login when one is saved", async () => {
+		const resolved = await resolveCredentials({ ...env, ...SHARED, REC_CREDENTIALS_FALLBACK: "shared" }, "user-a", await stored("user-a"));
+		expect(resolved).toEqual({ ...LOGIN, source: "user" });
+	});
+
+	it("never falls back to the shared account for a login it can't open", async () => {
+		const withShared = { ...env, ...SHARED, REC_CREDENTIALS_FALLBACK: "shared" };
+		await expect(resolveCredentials(withShared, "user-b", await stored("user-a"))).rejects.toMatchObject({ code: "unreadable" });
+	});
+
+	it("falls back to the shared account only when REC_CREDENTIALS_FALLBACK=shared", async () => {
+		expect(await resolveCredentials({ ...env, ...SHARED, REC_CREDENTIALS_FALLBACK: "shared" }, "user-a", null)).toEqual({
+			email: SHARED.REC_EMAIL,
+			password: SHARED.REC_PASSWORD,
+			source: "shared",
+		});
+		for (const fallback of [undefined, "", "true", "SHARED", "user"]) {
+			await expect(
+				resolveCredentials({ ...env, ...SHARED, REC_CREDENTIALS_FALLBACK: fallback }, "user-a", null),
+			).rejects.toMatchObject({ code: "no_credentials" });
+		}
+	});
+
+	it("needs both shared secrets before falling back", async () => {
+		await expect(
+			resolveCredentials({ ...env, REC_EMAIL: SHARED.REC_EMAIL, REC_CREDENTIALS_FALLBACK: "shared" }, "user-a", null),
+		).rejects.toMatchObject({ code: "no_credentials" });
+	});
+});
+
+describe("login details", () => {
+	it("trims the email and rejects unusable logins", () => {
+		expect(validateCredentials({ email: " player@example.com ", password: "x" })).toEqual({
+			email: "player@example.com",
+			password: "x",
+		});
+		expect(() => validateCredentials({ email: "player", password: "x" })).toThrow(CredentialError);
+		expect(() => validateCredentials({ email: "player@example.com", password: "" })).toThrow(/password is empty/);
+	});
+
+	it("reports what is saved without the login itself", async () => {
+		const status = credentialStatus({ REC_CREDENTIALS_FALLBACK: "shared" }, await stored("user-a"));
+		expect(status).toEqual({ saved: true, email: "p***@example.com", updatedAt: 1, sharedFallback: true });
+		expect(credentialStatus({}, null)).toEqual({ saved: false, email: null, updatedAt: null, sharedFallback: false });
+	});
+
+	it("encodes large byte arrays in chunks", () => {
+		const bytes = new Uint8Array(100_000).map((_, i) => i % 256);
+		expect(Uint8Array.from(atob(toBase64(bytes)), (c) => c.charCodeAt(0))).toEqual(bytes);
+	});
+});
@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import {
+	DateError,
+	addDays,
+	assertDateInWindow,
+	monthsBetween,
+	pacificToday,
+	parseDate,
+	parseDateRange,
+	resolveDate,
+	weekdayOf,
+} from "../src/dates";
+
+// A Friday
+const TODAY = "2025-08-01";
+
+describe("calendar arithmetic", () => {
+	it("reads today on the Pacific calendar", () => {
+		// 10 PM on July 31 in San Francisco is already August 1 in UTC
+		expect(pacificToday(new Date("2025-08-01T05:00:00Z"))).toBe("2025-07-31");
+		expect(pacificToday(new Date("2025-08-01T19:00:00Z"))).toBe("2025-08-01");
+	});
+
+	it("adds days across months and years", () => {
+		expect(addDays("2025-12-31", 1)).toBe("2026-01-01");
+		expect(addDays("2025-03-01", -1)).toBe("2025-02-28");
+		expect(weekdayOf(TODAY)).toBe("fri");
+	});
+
+	it("counts months between dates in either direction", () => {
+		expect(monthsBetween("2025-08-31", "2025-09-01")).toBe(1);
+		expect(monthsBetween("2025-08-01", "2025-06-15")).toBe(-2);
+		expect(monthsBetween("2025-12-05", "2026-01-05")).toBe(1);
+	});
+});
+
+describe("parseDate", () => {
+	it.each([
+		["2025-08-05", "2025-08-05"],
+		["today", "2025-08-01"],
+		["Tomorrow", "2025-08-02"],
+		["in 5 days", "2025-08-06"],
+		["in 2 weeks", "2025-08-15"],
+		["friday", "2025-08-01"],
+		["next friday", "2025-08-08"],
+		["this sunday", "2025-08-03"],
+		["this weekend", "2025-08-02"],
+		["Aug 2", "2025-08-02"],
+		["August 20th", "2025-08-20"],
+		["Sat, Aug 9", "2025-08-09"],
+		["8/2", "2025-08-02"],
+		["Jul 4", "2026-07-04"],
+		["1/15/2026", "2026-01-15"],
+	])("reads %s", (input, expected) => {
+		expect(parseDate(input, TODAY)).toBe(expected);
+	});
+
+	it("rejects dates that don't exist or can't be read", () => {
+		for (const input of ["2025-02-30", "Feb 30", "someday", "13/1"]) {
+			expect(() => parseDate(input, TODAY)).toThrow(DateError);
+		}
+	});
+});
+
+describe("parseDateRange", () => {
+	it("expands weekend and week phrases", () => {
+		expect(parseDateRange("this weekend", TODAY)).toEqual({ start: "2025-08-02", end: "2025-08-03" });
+		expect(parseDateRange("next weekend", TODAY)).toEqual({ start: "2025-08-09", end: "2025-08-10" });
+		expect(parseDateRange("this week", TODAY)).toEqual({ start: "2025-08-01", end: "2025-08-03" });
+		expect(parseDateRange("next week", TODAY)).toEqual({ start: "2025-08-04", end: "2025-08-10" });
+		expect(parseDateRange("this weekend", "2025-08-03")).toEqual({ start: "2025-08-03", end: "2025-08-03" });
+		expect(parseDateRange("tomorrow", TODAY)).toBeNull();
+	});
+});
+
+describe("booking window", () => {
+	it("refuses past dates and dates rec.us hasn't opened", () => {
+		expect(() => assertDateInWindow("2025-07-31", { today: TODAY })).toThrow(
+			expect.objectContaining({ code: "date_in_past" }),
+		);
+		expect(() => assertDateInWindow("2025-08-09", { today: TODAY, windowDays: 7 })).toThrow(
+			expect.objectContaining({ code: "beyond_booking_window", message: expect.stringContaining("opens on 2025-08-02") }),
+		);
+	});
+
+	it("lets scheduling look further ahead, up to its own limit", () => {
+		expect(assertDateInWindow("2025-08-09", { today: TODAY, allowBeyondWindow: true })).toBe("2025-08-09");
+		expect(() => assertDateInWindow("2025-10-15", { today: TODAY, allowBeyondWindow: true })).toThrow(DateError);
+	});
+
+	it("defaults a missing date to tomorrow", () => {
+		expect(resolveDate(undefined, { today: TODAY })).toBe("2025-08-02");
+	});
+});
@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import { SiteError, classifySiteError, isSiteFailure, siteStep, toSiteFailure } from "../src/failures";
+
+const FAST_RETRY = { attempts: 3, baseDelayMs: 1, maxDelayMs: 1 };
+
+function timeoutError(message: string): Error {
+	const error = new Error(message);
+	error.name = "TimeoutError";
+	return error;
+}
+
+describe("classifySiteError", () => {
+	it("treats network failures as retryable outages", () => {
+		const error = classifySiteError(new Error("page.goto: net::ERR_CONNECTION_RESET at https://www.rec.us"), "open rec.us");
+		expect(error).toMatchObject({ code: "site_unavailable", retryable: true, step: "open rec.us" });
+		expect(error.message).toContain("while trying to open rec.us");
+	});
+
+	it("treats a closed or detached page as lost", () => {
+		const error = classifySiteError(new Error("locator.click: Target page, context or browser has been closed"));
+		expect(error).toMatchObject({ code: "page_lost", retryable: true });
+	});
+
+	it("tells slow navigation apart from a missing element", () => {
+		expect(classifySiteError(timeoutError("page.goto: Timeout 20000ms exceeded.")).code).toBe("site_unavailable");
+		expect(classifySiteError(timeoutError("locator.click: Timeout 5000ms exceeded.")).code).toBe("site_changed");
+		expect(classifySiteError(new Error("waitForSelector: Timeout 8000ms exceeded.")).retryable).toBe(false);
+	});
+
+	it("keeps only the first line of Playwright's call log", () => {
+		const error = classifySiteError(new Error("Something odd\nCall log:\n  - waiting for locator"), "pick a date");
+		expect(error).toMatchObject({ code: "recus_error", message: "Failed to pick a date: Something odd" });
+	});
+
+	it("passes SiteErrors through and fills in a missing step", () => {
+		const original = new SiteError("login_failed", "rec.us rejected the login");
+		const classified = classifySiteError(original, "log in");
+		expect(classified).toBe(original);
+		expect(classified.step).toBe("log in");
+		expect(classified.nextStep).toMatch(/set_recus_login/);
+	});
+
+	it("flattens into a SiteFailure for RPC and tool results", () => {
+		const failure = toSiteFailure(new Error("net::ERR_NAME_NOT_RESOLVED"), "open reservations");
+		expect(failure).toEqual({
+			code: "site_unavailable",
+			message: expect.stringContaining("open reservations"),
+			retryable: true,
+			step: "open reservations",
+			nextStep: expect.any(String),
+			attempts: 1,
+		});
+		expect(isSiteFailure(failure)).toBe(true);
+		expect(isSiteFailure({ code: "not_found", message: "No booking" })).toBe(false);
+	});
+});
+
+describe("siteStep", () => {
+	it("retries retryable failures and returns the first success", async () => {
+		let calls = 0;
+		const result = await siteStep(
+			"open rec.us",
+			async () => {
+				calls++;
+				if (calls < 3) throw new Error("net::ERR_CONNECTION_RESET");
+				return "loaded";
+			},
+			FAST_RETRY,
+		);
+		expect(result).toBe("loaded");
+		expect(calls).toBe(3);
+	});
+
+	it("gives up after the last attempt and says how many were made", async () => {
+		const error = await siteStep(
+			"open rec.us",
+			async () => {
+				throw new Error("net::ERR_CONNECTION_RESET");
+			},
+			FAST_RETRY,
+		).catch((e) => e);
+		expect(error).toBeInstanceOf(SiteError);
+		expect(error).toMatchObject({ code: "site_unavailable", attempts: 3 });
+	});
+
+	it("never repeats failures that aren't retryable, or steps without a policy", async () => {
+		let calls = 0;
+		const changed = async () => {
+			calls++;
+			throw timeoutError("locator.click: Timeout 5000ms exceeded.");
+		};
+		await expect(siteStep("click checkout", changed, FAST_RETRY)).rejects.toMatchObject({ code: "site_changed" });
+		expect(calls).toBe(1);
+
+		const unavailable = async () => {
+			calls++;
+			throw new Error("net::ERR_CONNECTION_RESET");
+		};
+		await expect(siteStep("confirm", unavailable)).rejects.toMatchObject({ code: "site_unavailable", attempts: 1 });
+		expect(calls).toBe(2);
+	});
+});
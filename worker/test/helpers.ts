@@ -0,0 +1,18 @@
+// In-memory stand-ins for the bindings the pure modules take
+
+export function memoryKV(): KVNamespace {
+	const values = new Map<string, string>();
+	const kv = {
+		async get(key: string, type?: string) {
+			const value = values.get(key) ?? null;
+			return value !== null && type === "json" ? JSON.parse(value) : value;
+		},
+		async put(key: string, value: string) {
+			values.set(key, value);
+		},
+		async delete(key: string) {
+			values.delete(key);
+		},
+	};
+	return kv as unknown as KVNamespace;
+}
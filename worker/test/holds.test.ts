@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { HOLD_STATUSES, OPEN_HOLD_STATUSES, canTransition, describeExpiry, type HoldStatus } from "../src/holds";
+
+const FINAL: HoldStatus[] = ["confirmed", "failed", "abandoned", "expired"];
+
+describe("canTransition", () => {
+	it.each<[HoldStatus, HoldStatus]>([
+		["holding", "awaiting_sms"],
+		["holding", "failed"],
+		["holding", "abandoned"],
+		["holding", "expired"],
+		["awaiting_sms", "confirmed"],
+		["awaiting_sms", "failed"],
+		["awaiting_sms", "abandoned"],
+		["awaiting_sms", "expired"],
+	])("lets %s move to %s", (from, to) => {
+		expect(canTransition(from, to)).toBe(true);
+	});
+
+	it("only confirms a hold that reached the SMS step", () => {
+		expect(canTransition("holding", "confirmed")).toBe(false);
+	});
+
+	it("never moves backwards or stays put", () => {
+		expect(canTransition("awaiting_sms", "holding")).toBe(false);
+		for (const status of HOLD_STATUSES) {
+			expect(canTransition(status, status)).toBe(false);
+		}
+	});
+
+	it("never moves a settled hold again", () => {
+		for (const from of FINAL) {
+			for (const to of HOLD_STATUSES) {
+				expect(canTransition(from, to)).toBe(false);
+			}
+		}
+	});
+
+	it("counts exactly the statuses that can still move as open", () => {
+		expect(HOLD_STATUSES.filter((status) => HOLD_STATUSES.some((to) => canTransition(status, to)))).toEqual(
+			OPEN_HOLD_STATUSES,
+		);
+	});
+});
+
+describe("describeExpiry", () => {
+	const now = Date.parse("2025-08-01T15:00:00Z");
+
+	it("counts down in minutes, then seconds", () => {
+		expect(describeExpiry({ expiresAt: now + 4 * 60 * 1000 }, now)).toBe("4 min left");
+		expect(describeExpiry({ expiresAt: now + 45 * 1000 }, now)).toBe("45s left");
+		expect(describeExpiry({ expiresAt: now }, now)).toBe("expired");
+		expect(describeExpiry({ expiresAt: now - 1000 }, now)).toBe("expired");
+	});
+});
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import {
+	BOOKING_STATUSES,
+	DEFAULT_PAGE_SIZE,
+	MAX_PAGE_SIZE,
+	canChangeStatus,
+	decodeCursor,
+	nextCursor,
+	pageSize,
+	type BookingStatus,
+} from "../src/ledger";
+
+describe("canChangeStatus", () => {
+	it.each<[BookingStatus, BookingStatus, boolean]>([
+		["pending", "confirmed", true],
+		["pending", "failed", true],
+		["pending", "cancelled", true],
+		["confirmed", "cancelled", true],
+		["confirmed", "pending", false],
+		["confirmed", "failed", false],
+		["failed", "confirmed", false],
+		["failed", "pending", false],
+		["cancelled", "confirmed", false],
+		["cancelled", "pending", false],
+	])("%s -> %s is %s", (from, to, allowed) => {
+		expect(canChangeStatus(from, to)).toBe(allowed);
+	});
+
+	it("lets a booking be set to the status it already has", () => {
+		for (const status of BOOKING_STATUSES) {
+			expect(canChangeStatus(status, status)).toBe(true);
+		}
+	});
+});
+
+describe("paging", () => {
+	it("keeps page sizes within bounds", () => {
+		expect(pageSize()).toBe(DEFAULT_PAGE_SIZE);
+		expect(pageSize(5)).toBe(5);
+		expect(pageSize(0)).toBe(1);
+		expect(pageSize(-3)).toBe(1);
+		expect(pageSize(MAX_PAGE_SIZE + 1)).toBe(MAX_PAGE_SIZE);
+	});
+
+	it("walks every row once and stops after the last page", () => {
+		const total = 45;
+		const seen: number[] = [];
+		let cursor: string | undefined;
+		for (let page = 0; page < 10; page++) {
+			const offset = decodeCursor(cursor);
+			const count = Math.min(pageSize(20), total - offset);
+			seen.push(...Array.from({ length: count }, (_, i) => offset + i));
+			const next = nextCursor(offset, count, total);
+			if (!next) break;
+			cursor = next;
+		}
+		expect(seen).toEqual(Array.from({ length: total }, (_, i) => i));
+	});
+
+	it("has no next page when the rows fit exactly", () => {
+		expect(nextCursor(0, 20, 20)).toBeNull();
+		expect(nextCursor(20, 0, 20)).toBeNull();
+		expect(nextCursor(0, 0, 0)).toBeNull();
+	});
+
+	it("starts from the top for missing or garbled cursors", () => {
+		expect(decodeCursor(undefined)).toBe(0);
+		expect(decodeCursor("")).toBe(0);
+		expect(decodeCursor("not base64!")).toBe(0);
+		expect(decodeCursor(btoa("-5"))).toBe(0);
+		expect(decodeCursor(btoa("abc"))).toBe(0);
+		expect(decodeCursor(nextCursor(0, 20, 45) ?? undefined)).toBe(20);
+	});
+});
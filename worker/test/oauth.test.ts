@@ -0,0 +1,185 @@
+import type { AuthRequest, CompleteAuthorizationOptions, OAuthHelpers } from "@cloudflare/workers-oauth-provider";
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+	AUTH_URL,
+	AuthorizationRequestError,
+	acceptAuthorizationLogin,
+	beginAuthorization,
+	completeAuthorization,
+	type OAuthEnv,
+	showConsent,
+} from "../src/oauth";
+import { SessionVerificationError, verifySessionToken } from "../src/stytch";
+import { memoryKV } from "./helpers";
+
+const WORKER = "https://worker.example";
+
+const LOCAL_SESSIONS = JSON.stringify({
+	"dev-token": { user_id: "user-test-1", email: "you@example.com", expires_at: "2030-01-01T00:00:00Z" },
+	"old-token": { user_id: "user-test-2", email: "old@example.com", expires_at: "2020-01-01T00:00:00Z" },
+	"gone-token": { user_id: "user-test-3", email: "gone@example.com", expires_at: "2030-01-01T00:00:00Z", revoked: true },
+});
+
+const localVerifierEnv = { STYTCH_VERIFIER: "local", ALLOW_LOCAL_STANDINS: "true", LOCAL_STYTCH_SESSIONS: LOCAL_SESSIONS };
+
+const authRequest: AuthRequest = {
+	responseType: "code",
+	clientId: "client-1",
+	redirectUri: "https://client.example/callback",
+	scope: ["mcp"],
+	state: "xyz",
+};
+
+// Just enough of the OAuth provider's helpers for /authorize
+function fakeProvider(completed: CompleteAuthorizationOptions[]): OAuthHelpers {
+	return {
+		parseAuthRequest: async () => authRequest,
+		lookupClient: async (clientId: string) =>
+			clientId === "client-1" ? { clientId, clientName: "Test <Client>", redirectUris: [authRequest.redirectUri] } : null,
+		completeAuthorization: async (options: CompleteAuthorizationOptions) => {
+			completed.push(options);
+			return { redirectTo: `${authRequest.redirectUri}?code=issued&state=${authRequest.state}` };
+		},
+	} as unknown as OAuthHelpers;
+}
+
+function cookieFrom(response: Response): string {
+	return (response.headers.get("Set-Cookie") ?? "").split(";")[0];
+}
+
+function consentForm(requestId: string, login: string, decision: string): string {
+	return new URLSearchParams({ oauth_request: requestId, login, decision }).toString();
+}
+
+describe("local session verifier", () => {
+	it("returns the session's user", async () => {
+		const session = await verifySessionToken(localVerifierEnv, "dev-token");
+		expect(session).toMatchObject({ userId: "user-test-1", email: "you@example.com" });
+	});
+
+	it("rejects unknown, expired and revoked tokens", async () => {
+		await expect(verifySessionToken(localVerifierEnv, "nope")).rejects.toMatchObject({ code: "session_invalid" });
+		await expect(verifySessionToken(localVerifierEnv, "old-token")).rejects.toMatchObject({ code: "session_expired" });
+		await expect(verifySessionToken(localVerifierEnv, "gone-token")).rejects.toMatchObject({ code: "session_revoked" });
+		await expect(verifySessionToken(localVerifierEnv, " ")).rejects.toMatchObject({ code: "missing_session_token" });
+	});
+
+	it("is refused without ALLOW_LOCAL_STANDINS, whatever ENVIRONMENT says", async () => {
+		for (const env of [
+			{ ...localVerifierEnv, ALLOW_LOCAL_STANDINS: undefined, ENVIRONMENT: "development" },
+			{ ...localVerifierEnv, ENVIRONMENT: "production" },
+		]) {
+			const error = await verifySessionToken(env, "dev-token").catch((e) => e);
+			expect(error).toBeInstanceOf(SessionVerificationError);
+			expect(error.code).toBe("verifier_misconfigured");
+		}
+	});
+});
+
+describe("MCP authorization round trip", () => {
+	let env: OAuthEnv;
+	let completed: CompleteAuthorizationOptions[];
+
+	beforeEach(() => {
+		completed = [];
+		env = { KV: memoryKV(), OAUTH_PROVIDER: fakeProvider(completed) };
+	});
+
+	// /authorize, then the login handoff; returns what the browser holds at the consent page
+	async function logIn(): Promise<{ requestId: string; cookie: string; consentUrl: URL }> {
+		const started = await beginAuthorization(new Request(`${WORKER}/authorize?client_id=client-1`), env);
+		expect(started.status).toBe(302);
+		const loginUrl = new URL(started.headers.get("Location") ?? "");
+		expect(loginUrl.toString().startsWith(AUTH_URL)).toBe(true);
+		const requestId = loginUrl.searchParams.get("oauth_request") ?? "";
+
+		const session = await verifySessionToken(localVerifierEnv, "dev-token");
+		const { redirectTo } = await acceptAuthorizationLogin(env, requestId, session, WORKER);
+		return { requestId, cookie: cookieFrom(started), consentUrl: new URL(redirectTo) };
+	}
+
+	it("issues a code only after the user approves the client", async () => {
+		const { requestId, cookie, consentUrl } = await logIn();
+		expect(completed).toHaveLength(0);
+
+		const page = await showConsent(new Request(consentUrl, { headers: { Cookie: cookie } }), env);
+		const html = await page.text();
+		expect(html).toContain("Test &#60;Client&#62;");
+		expect(html).toContain(authRequest.redirectUri);
+		expect(html).toContain("you@example.com");
+
+		const approved = await completeAuthorization(
+			new Request(`${WORKER}/authorize/consent`, {
+				method: "POST",
+				headers: { Cookie: cookie, "Content-Type": "application/x-www-form-urlencoded" },
+				body: consentForm(requestId, consentUrl.searchParams.get("login") ?? "", "approve"),
+			}),
+			env,
+		);
+		expect(approved.status).toBe(302);
+		expect(approved.headers.get("Location")).toContain("code=issued");
+		expect(completed).toHaveLength(1);
+		expect(completed[0]).toMatchObject({ userId: "user-test-1", props: { userId: "user-test-1", email: "you@example.com" } });
+	});
+
+	it("sends a denial back to the client without issuing a code", async () => {
+		const { requestId, cookie, consentUrl } = await logIn();
+		const denied = await completeAuthorization(
+			new Request(`${WORKER}/authorize/consent`, {
+				method: "POST",
+				headers: { Cookie: cookie },
+				body: consentForm(requestId, consentUrl.searchParams.get("login") ?? "", "deny"),
+			}),
+			env,
+		);
+		const location = new URL(denied.headers.get("Location") ?? "");
+		expect(location.searchParams.get("error")).toBe("access_denied");
+		expect(location.searchParams.get("state")).toBe("xyz");
+		expect(completed).toHaveLength(0);
+	});
+
+	it("refuses a consent page opened in another browser", async () => {
+		const { consentUrl } = await logIn();
+		const error = await showConsent(new Request(consentUrl), env).catch((e) => e);
+		expect(error).toBeInstanceOf(AuthorizationRequestError);
+		expect(error.code).toBe("wrong_browser");
+	});
+
+	it("refuses approval without the login code", async () => {
+		const { requestId, cookie } = await logIn();
+		const error = await completeAuthorization(
+			new Request(`${WORKER}/authorize/consent`, {
+				method: "POST",
+				headers: { Cookie: cookie },
+				body: consentForm(requestId, "guessed", "approve"),
+			}),
+			env,
+		).catch((e) => e);
+		expect(error.code).toBe("login_required");
+		expect(completed).toHaveLength(0);
+	});
+
+	it("uses each authorization request once", async () => {
+		const { requestId, cookie, consentUrl } = await logIn();
+		const approve = () =>
+			completeAuthorization(
+				new Request(`${WORKER}/authorize/consent`, {
+					method: "POST",
+					headers: { Cookie: cookie },
+					body: consentForm(requestId, consentUrl.searchParams.get("login") ?? "", "approve"),
+				}),
+				env,
+			);
+		await approve();
+		await expect(approve()).rejects.toMatchObject({ code: "expired_authorization_request" });
+	});
+
+	it("rejects unknown clients at /authorize", async () => {
+		env.OAUTH_PROVIDER = {
+			...fakeProvider(completed),
+			parseAuthRequest: async () => ({ ...authRequest, clientId: "someone-else" }),
+		} as OAuthHelpers;
+		const response = await beginAuthorization(new Request(`${WORKER}/authorize`), env);
+		expect(response.status).toBe(400);
+	});
+});
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import {
+	DEFAULT_ORGANIZATION,
+	OrganizationError,
+	formatOrganization,
+	normalizeOrganization,
+	parseOrganization,
+} from "../src/organizations";
+
+describe("normalizeOrganization", () => {
+	it.each([
+		["sfrecpark", "sfrecpark"],
+		["  SFRecPark ", "sfrecpark"],
+		["rec.us/sfrecpark", "sfrecpark"],
+		["https://www.rec.us/sfrecpark", "sfrecpark"],
+		["http://rec.us/sfrecpark/", "sfrecpark"],
+		["https://www.rec.us/sfrecpark/locations?date=2025-08-02", "sfrecpark"],
+		["recus:sfrecpark", "sfrecpark"],
+		["RECUS:Oakland-Parks", "oakland-parks"],
+	])("reads %s as %s", (input, expected) => {
+		expect(normalizeOrganization(input)).toBe(expected);
+	});
+
+	it.each(["", "   ", "s", "-sfrecpark", "sf rec park", "sf_rec_park", "https://www.rec.us/", "a".repeat(64)])(
+		"rejects %j as a slug",
+		(input) => {
+			expect(() => normalizeOrganization(input)).toThrow(
+				expect.objectContaining({ name: "OrganizationError", code: "invalid_organization" }),
+			);
+		},
+	);
+
+	it("rejects booking systems it has no provider for", () => {
+		expect(() => normalizeOrganization("courtreserve:sfrecpark")).toThrow(
+			expect.objectContaining({ code: "unknown_provider", message: expect.stringContaining("Supported: recus") }),
+		);
+	});
+
+	it("names the expected shape in its error", () => {
+		try {
+			normalizeOrganization("sf rec park");
+			expect.unreachable();
+		} catch (error) {
+			expect(error).toBeInstanceOf(OrganizationError);
+			expect((error as OrganizationError).message).toContain(`e.g. "${DEFAULT_ORGANIZATION}"`);
+		}
+	});
+});
+
+describe("parseOrganization", () => {
+	it("splits the provider from the slug", () => {
+		expect(parseOrganization("rec.us/sfrecpark")).toEqual({ provider: "recus", slug: "sfrecpark" });
+	});
+
+	it("round-trips through the stored form", () => {
+		for (const input of ["sfrecpark", "recus:oakland-parks"]) {
+			const organization = parseOrganization(input);
+			expect(parseOrganization(formatOrganization(organization))).toEqual(organization);
+		}
+		expect(formatOrganization({ provider: "recus", slug: "sfrecpark" })).toBe("sfrecpark");
+	});
+});
@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import {
+	MAX_GUESTS,
+	ParticipantError,
+	checkGuests,
+	describeParticipants,
+	matchParticipant,
+	matchParticipants,
+} from "../src/participants";
+
+const OPTIONS = ["Jane Doe (Account Owner)", "John Doe", "Johnny Appleseed", "Mary-Kate O'Neil"];
+
+function matchError(run: () => unknown): ParticipantError {
+	try {
+		run();
+	} catch (error) {
+		if (error instanceof ParticipantError) return error;
+		throw error;
+	}
+	throw new Error("expected a ParticipantError");
+}
+
+describe("matchParticipant", () => {
+	it("matches full names ignoring case and punctuation", () => {
+		expect(matchParticipant("john doe", OPTIONS)).toBe("John Doe");
+		expect(matchParticipant("mary-kate o'neil", OPTIONS)).toBe("Mary-Kate O'Neil");
+		expect(matchParticipant("Jane Doe", OPTIONS)).toBe("Jane Doe (Account Owner)");
+	});
+
+	it("reads me, myself and owner as the account owner", () => {
+		for (const wanted of ["me", "Me", "myself", "owner"]) {
+			expect(matchParticipant(wanted, OPTIONS)).toBe("Jane Doe (Account Owner)");
+		}
+	});
+
+	it("matches a first name or surname that fits only one person", () => {
+		expect(matchParticipant("Johnny", OPTIONS)).toBe("Johnny Appleseed");
+		expect(matchParticipant("Appleseed", OPTIONS)).toBe("Johnny Appleseed");
+		expect(matchParticipant("Mary Kate", OPTIONS)).toBe("Mary-Kate O'Neil");
+	});
+
+	it("asks for the full name when a part fits several people", () => {
+		const error = matchError(() => matchParticipant("Doe", OPTIONS));
+		expect(error.message).toBe('"Doe" could be Jane Doe (Account Owner) or John Doe; use the full name');
+		expect(error).toMatchObject({ code: "invalid_input", step: "choose participants", available: OPTIONS });
+	});
+
+	it("lists the account's people for an unknown name", () => {
+		const error = matchError(() => matchParticipant("Serena", OPTIONS));
+		expect(error.message).toBe(`No participant called "Serena" on the account. Choose from: ${OPTIONS.join(", ")}`);
+		expect(error.retryable).toBe(false);
+	});
+
+	it("never matches part of a word", () => {
+		expect(() => matchParticipant("Jo", OPTIONS)).toThrow(ParticipantError);
+	});
+});
+
+describe("matchParticipants", () => {
+	it("matches each name in order", () => {
+		expect(matchParticipants(["John", "me"], OPTIONS)).toEqual(["John Doe", "Jane Doe (Account Owner)"]);
+	});
+
+	it("refuses the same person twice under different names", () => {
+		expect(() => matchParticipants(["me", "Jane Doe"], OPTIONS)).toThrow("Jane Doe (Account Owner) is listed twice");
+	});
+
+	it("fails on the first name it can't place", () => {
+		expect(() => matchParticipants(["John Doe", "Serena"], OPTIONS)).toThrow(/Serena/);
+	});
+});
+
+describe("checkGuests", () => {
+	it("tidies names before they are typed in", () => {
+		expect(checkGuests(["  Ada   Lovelace ", "Alan Turing"])).toEqual(["Ada Lovelace", "Alan Turing"]);
+		expect(checkGuests([])).toEqual([]);
+	});
+
+	it(`takes at most ${MAX_GUESTS} guests`, () => {
+		const guests = ["A One", "B Two", "C Three", "D Four", "E Five"];
+		expect(checkGuests(guests.slice(0, MAX_GUESTS))).toHaveLength(MAX_GUESTS);
+		expect(() => checkGuests(guests.slice(0, MAX_GUESTS + 1))).toThrow(`At most ${MAX_GUESTS} guests`);
+	});
+
+	it("refuses blank and repeated names", () => {
+		expect(() => checkGuests(["Ada", "  "])).toThrow("can't be blank");
+		expect(() => checkGuests(["Ada Lovelace", "ada  lovelace"])).toThrow("listed twice");
+	});
+});
+
+describe("describeParticipants", () => {
+	it("names the players and any guests", () => {
+		expect(describeParticipants([], [])).toBe("Account Owner");
+		expect(describeParticipants(["John Doe"], [])).toBe("John Doe");
+		expect(describeParticipants(["John Doe", "Jane Doe"], ["Ada"])).toBe("John Doe, Jane Doe + guests Ada");
+	});
+});
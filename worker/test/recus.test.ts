@@ -0,0 +1,110 @@
+import type { Page } from "@cloudflare/playwright";
+import { describe, expect, it } from "vitest";
+import { SiteError } from "../src/failures";
+import {
+	DurationUnavailableError,
+	REC_US_RESERVATIONS_URL,
+	cancellationConfirmed,
+	durationIndex,
+	type BookingRequest,
+} from "../src/recus";
+
+const BOOKING: BookingRequest = { court: "Moscone", date: "2025-08-02", time: "7:00 PM" };
+
+interface PageState {
+	dialogOpen?: boolean;
+	dialogSaysCancelled?: boolean;
+	listLoads?: boolean;
+	cardListed?: boolean;
+	reloadFails?: boolean;
+}
+
+// Just enough of a Playwright page for the cancel check: the dialog, a reload and the card lookup
+function fakePage(state: PageState) {
+	const visited: string[] = [];
+	const visible = (shown: boolean | undefined) => ({ isVisible: async () => shown ?? false });
+	const page = {
+		locator: () => ({
+			first: () => visible(state.dialogOpen),
+			locator: () => ({ first: () => visible(state.dialogSaysCancelled) }),
+		}),
+		waitForTimeout: async () => {},
+		goto: async (url: string) => {
+			if (state.reloadFails) throw new Error("page.goto: net::ERR_CONNECTION_RESET");
+			visited.push(url);
+			return null;
+		},
+		waitForSelector: async () => {
+			if (!state.listLoads) throw new Error("waitForSelector: Timeout 10000ms exceeded.");
+		},
+		evaluate: async () => state.cardListed ?? false,
+	};
+	return { page: page as unknown as Page, visited };
+}
+
+describe("cancellationConfirmed", () => {
+	it("trusts a confirmation inside the cancel dialog without reloading", async () => {
+		const { page, visited } = fakePage({ dialogOpen: true, dialogSaysCancelled: true });
+		expect(await cancellationConfirmed(page, BOOKING)).toBe(true);
+		expect(visited).toEqual([]);
+	});
+
+	it("confirms when a reloaded, fully loaded list no longer has the booking", async () => {
+		const { page, visited } = fakePage({ listLoads: true, cardListed: false });
+		expect(await cancellationConfirmed(page, BOOKING)).toBe(true);
+		expect(visited).toEqual([REC_US_RESERVATIONS_URL]);
+	});
+
+	it("keeps waiting on an open dialog before reloading", async () => {
+		const { page, visited } = fakePage({ dialogOpen: true, listLoads: true, cardListed: true });
+		expect(await cancellationConfirmed(page, BOOKING)).toBe(false);
+		expect(visited).toEqual([REC_US_RESERVATIONS_URL]);
+	});
+
+	it.each<[string, PageState]>([
+		["the booking is still listed", { listLoads: true, cardListed: true }],
+		["the list never finishes loading", { listLoads: false, cardListed: false }],
+		["the reload fails", { reloadFails: true }],
+	])("is not confirmed when %s", async (_, state) => {
+		const { page } = fakePage(state);
+		expect(await cancellationConfirmed(page, BOOKING)).toBe(false);
+	});
+});
+
+function thrownBy(fn: () => unknown): unknown {
+	try {
+		fn();
+	} catch (error) {
+		return error;
+	}
+	throw new Error("expected a throw");
+}
+
+describe("durationIndex", () => {
+	it("takes the first option when no length was asked for", () => {
+		expect(durationIndex([60, 90])).toBe(0);
+		expect(durationIndex([null, 90])).toBe(0);
+	});
+
+	it("finds the length asked for", () => {
+		expect(durationIndex([60, null, 90], 90)).toBe(2);
+	});
+
+	it("lists the readable lengths when the one asked for is missing", () => {
+		const error = thrownBy(() => durationIndex([60, null, 90], 120));
+		expect(error).toBeInstanceOf(DurationUnavailableError);
+		expect(error).toMatchObject({ code: "not_available", requestedMinutes: 120, allowedMinutes: [60, 90] });
+	});
+
+	it.each([
+		["no options", []],
+		["no readable options", [null, null]],
+	])("reports a changed site for %s, asked for or not", (_, allowed: (number | null)[]) => {
+		for (const durationMinutes of [undefined, 60]) {
+			const error = thrownBy(() => durationIndex(allowed, durationMinutes));
+			expect(error).toBeInstanceOf(SiteError);
+			expect(error).not.toBeInstanceOf(DurationUnavailableError);
+			expect(error).toMatchObject({ code: "site_changed", step: "choose the duration" });
+		}
+	});
+});
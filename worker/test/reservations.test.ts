@@ -0,0 +1,176 @@
+import { describe, expect, it } from "vitest";
+import type { BookingRecord, BookingStatus } from "../src/ledger";
+import {
+	parseReservationCards,
+	parseReservationDate,
+	reconcileReservations,
+	type RecUsReservation,
+	type ReservationMismatchKind,
+} from "../src/reservations";
+
+const TODAY = "2025-08-01";
+const COURTS = ["Golden Gate", "Golden Gate Park", "Moscone", "Alice Marble"];
+
+function booking(court: string, date: string, time: string, status: BookingStatus): BookingRecord {
+	return {
+		id: `${court}-${date}-${time}-${status}`,
+		userId: "user-1",
+		userEmail: "player@example.com",
+		organization: "sfrecpark",
+		court,
+		date,
+		time,
+		durationMinutes: 60,
+		participants: [],
+		guests: [],
+		status,
+		error: null,
+		createdAt: 0,
+		updatedAt: 0,
+	};
+}
+
+function reservation(court: string, date: string, time: string, status: RecUsReservation["status"] = "upcoming"): RecUsReservation {
+	return { reservationId: null, court, date, time, durationMinutes: 60, status };
+}
+
+describe("parseReservationDate", () => {
+	it.each([
+		["Sat, Aug 2, 2025", "2025-08-02"],
+		["August 2", "2025-08-02"],
+		["8/2/2025", "2025-08-02"],
+		["on 2025-08-02", "2025-08-02"],
+		["no date here", null],
+	])("reads %s", (text, expected) => {
+		expect(parseReservationDate(text, TODAY)).toBe(expected);
+	});
+
+	it("places a date without a year on the side of New Year closest to today", () => {
+		expect(parseReservationDate("Dec 30", "2026-01-02")).toBe("2025-12-30");
+		expect(parseReservationDate("Jan 3", "2025-12-30")).toBe("2026-01-03");
+	});
+});
+
+describe("parseReservationCards", () => {
+	it("reads court, date, time, length, status and id from each card", () => {
+		const reservations = parseReservationCards(
+			[
+				{ text: "Golden Gate Park\nSat, Aug 2, 2025\n7:00 pm\n1 hr 30 min", href: "/reservations/abc-123" },
+				{ text: "Moscone · Jul 30 · 10:00 AM · Reservation #R77", href: null },
+				{ text: "Alice Marble · Aug 5 · 9:00 AM · Cancelled", href: null },
+			],
+			COURTS,
+			TODAY,
+		);
+		expect(reservations).toEqual([
+			{ reservationId: "R77", court: "Moscone", date: "2025-07-30", time: "10:00 AM", durationMinutes: null, status: "past" },
+			{ reservationId: "abc-123", court: "Golden Gate Park", date: "2025-08-02", time: "7:00 PM", durationMinutes: 90, status: "upcoming" },
+			{ reservationId: null, court: "Alice Marble", date: "2025-08-05", time: "9:00 AM", durationMinutes: null, status: "cancelled" },
+		]);
+	});
+
+	it("skips cards without a known court, a date or a time", () => {
+		const cards = [
+			{ text: "Wimbledon · Aug 2 · 7:00 PM", href: null },
+			{ text: "Moscone · 7:00 PM", href: null },
+			{ text: "Moscone · Aug 2", href: null },
+		];
+		expect(parseReservationCards(cards, COURTS, TODAY)).toEqual([]);
+	});
+});
+
+describe("reconcileReservations", () => {
+	const SLOT = ["Moscone", "2025-08-02", "7:00 PM"] as const;
+
+	it.each<{
+		name: string;
+		reservations: RecUsReservation[];
+		bookings: BookingRecord[];
+		matched: number;
+		mismatches: ReservationMismatchKind[];
+	}>([
+		{
+			name: "a confirmed booking that rec.us also has",
+			reservations: [reservation(...SLOT)],
+			bookings: [booking(...SLOT, "confirmed")],
+			matched: 1,
+			mismatches: [],
+		},
+		{
+			name: "a court name that differs only in case",
+			reservations: [reservation("moscone", "2025-08-02", "7:00 PM")],
+			bookings: [booking(...SLOT, "confirmed")],
+			matched: 1,
+			mismatches: [],
+		},
+		{
+			name: "a reservation only on rec.us",
+			reservations: [reservation(...SLOT)],
+			bookings: [],
+			matched: 0,
+			mismatches: ["not_in_ledger"],
+		},
+		{
+			name: "a confirmed booking missing from rec.us",
+			reservations: [],
+			bookings: [booking(...SLOT, "confirmed")],
+			matched: 0,
+			mismatches: ["missing_on_recus"],
+		},
+		{
+			name: "a confirmed booking whose reservation rec.us shows as cancelled",
+			reservations: [reservation(...SLOT, "cancelled")],
+			bookings: [booking(...SLOT, "confirmed")],
+			matched: 0,
+			mismatches: ["missing_on_recus"],
+		},
+		{
+			name: "a booking cancelled on both sides",
+			reservations: [reservation(...SLOT, "cancelled")],
+			bookings: [booking(...SLOT, "cancelled")],
+			matched: 0,
+			mismatches: [],
+		},
+		{
+			name: "a ledger cancellation that rec.us still holds",
+			reservations: [reservation(...SLOT)],
+			bookings: [booking(...SLOT, "cancelled")],
+			matched: 0,
+			mismatches: ["status_mismatch"],
+		},
+		{
+			name: "pending and failed attempts rec.us never took",
+			reservations: [],
+			bookings: [booking(...SLOT, "pending"), booking("Moscone", "2025-08-03", "7:00 PM", "failed")],
+			matched: 0,
+			mismatches: [],
+		},
+		{
+			name: "a failed retry next to the confirmed booking for the same slot",
+			reservations: [reservation(...SLOT)],
+			bookings: [booking(...SLOT, "failed"), booking(...SLOT, "confirmed")],
+			matched: 1,
+			mismatches: [],
+		},
+	])("$name", ({ reservations, bookings, matched, mismatches }) => {
+		const result = reconcileReservations(reservations, bookings);
+		expect(result.matched).toHaveLength(matched);
+		expect(result.mismatches.map((m) => m.kind)).toEqual(mismatches);
+	});
+
+	it("pairs each side of a mismatch with what it found", () => {
+		const confirmed = booking(...SLOT, "confirmed");
+		const extra = reservation("Alice Marble", "2025-08-04", "9:00 AM");
+		const { matched, mismatches } = reconcileReservations([extra], [confirmed]);
+		expect(matched).toEqual([]);
+		expect(mismatches).toEqual([
+			expect.objectContaining({ kind: "not_in_ledger", reservation: extra, booking: null }),
+			expect.objectContaining({
+				kind: "missing_on_recus",
+				reservation: null,
+				booking: confirmed,
+				message: "Moscone 2025-08-02 7:00 PM is confirmed in your history but not on rec.us",
+			}),
+		]);
+	});
+});
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { computeReleaseAt, formatPacific, zonedTimeToEpoch } from "../src/scheduler";
+
+describe("zonedTimeToEpoch", () => {
+	// 2025 switches to PDT on March 9 and back to PST on November 2
+	it.each([
+		["2025-03-08", "08:00", "2025-03-08T16:00:00Z"], // PST
+		["2025-03-09", "08:00", "2025-03-09T15:00:00Z"], // first PDT morning
+		["2025-03-09", "01:30", "2025-03-09T09:30:00Z"], // before the 2 AM switch
+		["2025-03-10", "08:00", "2025-03-10T15:00:00Z"],
+		["2025-11-01", "08:00", "2025-11-01T15:00:00Z"], // PDT
+		["2025-11-02", "08:00", "2025-11-02T16:00:00Z"], // first PST morning
+		["2025-11-03", "08:00", "2025-11-03T16:00:00Z"],
+		["2025-07-15", "23:45", "2025-07-16T06:45:00Z"],
+		["2025-01-15", "00:00", "2025-01-15T08:00:00Z"],
+	])("%s %s Pacific is %s", (date, time, expected) => {
+		expect(new Date(zonedTimeToEpoch(date, time, "America/Los_Angeles")).toISOString()).toBe(
+			new Date(expected).toISOString(),
+		);
+	});
+
+	it("round-trips through the Pacific wall clock on every day of the year", () => {
+		for (let day = 0; day < 365; day++) {
+			const date = new Date(Date.UTC(2025, 0, 1 + day)).toISOString().slice(0, 10);
+			const epoch = zonedTimeToEpoch(date, "08:00", "America/Los_Angeles");
+			const wall = new Date(epoch).toLocaleString("en-CA", {
+				timeZone: "America/Los_Angeles",
+				hourCycle: "h23",
+				year: "numeric",
+				month: "2-digit",
+				day: "2-digit",
+				hour: "2-digit",
+				minute: "2-digit",
+			});
+			expect(wall).toBe(`${date}, 08:00`);
+		}
+	});
+
+	it("works in other zones", () => {
+		expect(new Date(zonedTimeToEpoch("2025-03-30", "09:00", "Europe/London")).toISOString()).toBe(
+			"2025-03-30T08:00:00.000Z",
+		);
+	});
+});
+
+describe("computeReleaseAt", () => {
+	it("opens a date the given days ahead at the release time in Pacific", () => {
+		const releaseAt = computeReleaseAt("2025-03-16", 7, "08:00");
+		expect(new Date(releaseAt).toISOString()).toBe("2025-03-09T15:00:00.000Z");
+		expect(formatPacific(releaseAt)).toBe("3/9/2025, 8:00:00 AM PDT");
+	});
+
+	it("keeps the local release time across the fall change", () => {
+		expect(formatPacific(computeReleaseAt("2025-11-08", 7, "08:00"))).toBe("11/1/2025, 8:00:00 AM PDT");
+		expect(formatPacific(computeReleaseAt("2025-11-09", 7, "08:00"))).toBe("11/2/2025, 8:00:00 AM PST");
+	});
+});
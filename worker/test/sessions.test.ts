@@ -0,0 +1,91 @@
+import type { Page } from "@cloudflare/playwright";
+import { describe, expect, it } from "vitest";
+import { forgetLoginState, loadLoginState, saveLoginState, sessionOwner, type LoginState } from "../src/sessions";
+import { memoryKV } from "./helpers";
+
+const KEY = "test-encryption-key";
+const LOGIN = { email: "player@example.com", password: "hunter2" };
+const STATE = { cookies: [{ name: "session", value: "abc" }], origins: [] } as unknown as LoginState;
+
+function sessionEnv(key?: string) {
+	return { KV: memoryKV(), CREDENTIALS_ENCRYPTION_KEY: key };
+}
+
+// A page whose context hands back `state` as its storage state
+function loggedInPage(state: LoginState = STATE): Page {
+	return { context: () => ({ storageState: async () => state }) } as unknown as Page;
+}
+
+describe("sessionOwner", () => {
+	it("is the user ID plus a fingerprint that reveals neither the email nor the password", async () => {
+		const owner = await sessionOwner(sessionEnv(KEY), "user-a", LOGIN);
+		expect(owner).toMatch(/^user-a:[0-9a-f]{64}$/);
+		expect(owner).not.toContain(LOGIN.password);
+		expect(owner).not.toContain("player");
+	});
+
+	it("reads the same login the same way whatever the email's case or spacing", async () => {
+		const env = sessionEnv(KEY);
+		expect(await sessionOwner(env, "user-a", { ...LOGIN, email: " Player@Example.com " })).toBe(
+			await sessionOwner(env, "user-a", LOGIN),
+		);
+	});
+
+	it("changes with the user, the password and the encryption key", async () => {
+		const env = sessionEnv(KEY);
+		const owner = await sessionOwner(env, "user-a", LOGIN);
+		const others = await Promise.all([
+			sessionOwner(env, "user-b", LOGIN),
+			sessionOwner(env, "user-a", { ...LOGIN, password: "hunter3" }),
+			sessionOwner(env, "user-a", { ...LOGIN, email: "other@example.com" }),
+			sessionOwner(sessionEnv("rotated-key"), "user-a", LOGIN),
+		]);
+		expect(others).not.toContain(owner);
+		expect(new Set(others).size).toBe(others.length);
+	});
+});
+
+describe("saved login state", () => {
+	it("restores the state saved for the same user and login", async () => {
+		const env = sessionEnv(KEY);
+		await saveLoginState(env, "user-a", LOGIN, loggedInPage());
+		expect(await loadLoginState(env, "user-a", LOGIN)).toEqual(STATE);
+	});
+
+	it("never hands one user's session to another, even with the same login", async () => {
+		const env = sessionEnv(KEY);
+		await saveLoginState(env, "user-a", LOGIN, loggedInPage());
+		expect(await loadLoginState(env, "user-b", LOGIN)).toBeNull();
+	});
+
+	it("starts over once the password changes", async () => {
+		const env = sessionEnv(KEY);
+		await saveLoginState(env, "user-a", LOGIN, loggedInPage());
+		expect(await loadLoginState(env, "user-a", { ...LOGIN, password: "wrong" })).toBeNull();
+	});
+
+	it("forgets a session on request", async () => {
+		const env = sessionEnv(KEY);
+		await saveLoginState(env, "user-a", LOGIN, loggedInPage());
+		await forgetLoginState(env, "user-a", LOGIN);
+		expect(await loadLoginState(env, "user-a", LOGIN)).toBeNull();
+	});
+
+	it("ignores a session sealed under a rotated key", async () => {
+		const env = sessionEnv(KEY);
+		await saveLoginState(env, "user-a", LOGIN, loggedInPage());
+		expect(await loadLoginState({ ...env, CREDENTIALS_ENCRYPTION_KEY: "rotated-key" }, "user-a", LOGIN)).toBeNull();
+	});
+
+	it("saves nothing without the encryption key", async () => {
+		const env = sessionEnv();
+		await saveLoginState(env, "user-a", LOGIN, loggedInPage());
+		expect(await loadLoginState({ ...env, CREDENTIALS_ENCRYPTION_KEY: KEY }, "user-a", LOGIN)).toBeNull();
+		expect(await loadLoginState(env, "user-a", LOGIN)).toBeNull();
+	});
+
+	it("never throws when the page can't give up its state", async () => {
+		const broken = { context: () => ({ storageState: async () => Promise.reject(new Error("Target closed")) }) };
+		await expect(saveLoginState(sessionEnv(KEY), "user-a", LOGIN, broken as unknown as Page)).resolves.toBeUndefined();
+	});
+});
@@ -0,0 +1,177 @@
+import { describe, expect, it } from "vitest";
+import {
+	FORWARDER_SIGNATURE_HEADER,
+	InboundSmsError,
+	LocalSmsSender,
+	SMS_MAX_AGE_MS,
+	SMS_SEEN_TTL_SECONDS,
+	extractVerificationCode,
+	forwarderSignature,
+	maskPhone,
+	normalizePhone,
+	parseInboundSms,
+	seenMessageTtl,
+	twilioSignature,
+} from "../src/sms";
+
+const WEBHOOK = "https://worker.example/sms/inbound";
+const NOW = Date.parse("2025-08-01T15:00:00Z");
+const env = { SMS_WEBHOOK_SECRET: "forwarder-secret", TWILIO_AUTH_TOKEN: "twilio-token" };
+
+async function forwarderRequest(payload: Record<string, unknown>, secret = env.SMS_WEBHOOK_SECRET): Promise<Request> {
+	const body = JSON.stringify(payload);
+	return new Request(WEBHOOK, {
+		method: "POST",
+		headers: {
+			"Content-Type": "application/json",
+			[FORWARDER_SIGNATURE_HEADER]: await forwarderSignature(secret, body),
+		},
+		body,
+	});
+}
+
+async function twilioRequest(params: Record<string, string>, authToken = env.TWILIO_AUTH_TOKEN): Promise<Request> {
+	return new Request(WEBHOOK, {
+		method: "POST",
+		headers: {
+			"Content-Type": "application/x-www-form-urlencoded",
+			"X-Twilio-Signature": await twilioSignature(authToken, WEBHOOK, params),
+		},
+		body: new URLSearchParams(params).toString(),
+	});
+}
+
+async function parseError(request: Request): Promise<InboundSmsError> {
+	const error = await parseInboundSms(request, env, NOW).catch((e) => e);
+	expect(error).toBeInstanceOf(InboundSmsError);
+	return error;
+}
+
+describe("phone numbers", () => {
+	it("normalizes US and E.164 numbers", () => {
+		expect(normalizePhone("(415) 555-0100")).toBe("+14155550100");
+		expect(normalizePhone("1 415.555.0100")).toBe("+14155550100");
+		expect(normalizePhone("+44 20 7946 0958")).toBe("+442079460958");
+		expect(normalizePhone("555-0100")).toBeNull();
+	});
+
+	it("masks all but the country code and last four digits", () => {
+		expect(maskPhone("+14155550100")).toBe("+1••••••0100");
+	});
+});
+
+describe("extractVerificationCode", () => {
+	it("prefers the digits after a code label", () => {
+		expect(extractVerificationCode("Your rec.us code is 482913. Valid for 10 minutes")).toBe("482913");
+		expect(extractVerificationCode("PIN: 7731 (sent 2025)")).toBe("7731");
+	});
+
+	it("takes the only number in an unlabelled text", () => {
+		expect(extractVerificationCode("Use 123456 to sign in")).toBe("123456");
+	});
+
+	it("gives up when several numbers could be the code", () => {
+		expect(extractVerificationCode("Call 5550 or use 123456")).toBeNull();
+		expect(extractVerificationCode("Hello there")).toBeNull();
+	});
+});
+
+describe("forwarder payloads", () => {
+	it("reads a signed, recent payload", async () => {
+		const sms = await parseInboundSms(
+			await forwarderRequest({ to: "(415) 555-0100", text: "Your code is 123456", receivedAt: NOW - 1000, id: "m-1" }),
+			env,
+			NOW,
+		);
+		expect(sms).toEqual({
+			format: "forwarder",
+			phone: "+14155550100",
+			text: "Your code is 123456",
+			receivedAt: NOW - 1000,
+			messageId: "forwarder:m-1",
+		});
+	});
+
+	it("falls back to the signature as the message ID", async () => {
+		const request = await forwarderRequest({ to: "+14155550100", text: "code 123456", receivedAt: NOW });
+		const signature = request.headers.get(FORWARDER_SIGNATURE_HEADER);
+		const sms = await parseInboundSms(request, env, NOW);
+		expect(sms.messageId).toBe(`forwarder:${signature}`);
+	});
+
+	it("rejects a wrong signature", async () => {
+		const request = await forwarderRequest({ to: "+14155550100", text: "code 123456", receivedAt: NOW }, "other");
+		expect((await parseError(request)).code).toBe("bad_signature");
+	});
+
+	it("rejects payloads that are too old, from the future or unstamped", async () => {
+		const old = await forwarderRequest({ to: "+14155550100", text: "code 1", receivedAt: NOW - SMS_MAX_AGE_MS - 1 });
+		expect((await parseError(old)).code).toBe("stale");
+		const early = await forwarderRequest({ to: "+14155550100", text: "code 1", receivedAt: NOW + 60 * 1000 });
+		expect((await parseError(early)).code).toBe("stale");
+		const unstamped = await forwarderRequest({ to: "+14155550100", text: "code 1" });
+		expect((await parseError(unstamped)).code).toBe("bad_request");
+	});
+
+	it("rejects a missing phone or text", async () => {
+		const noPhone = await forwarderRequest({ text: "code 123456", receivedAt: NOW });
+		expect((await parseError(noPhone)).code).toBe("bad_request");
+		const noText = await forwarderRequest({ to: "+14155550100", text: " ", receivedAt: NOW });
+		expect((await parseError(noText)).code).toBe("bad_request");
+	});
+
+	it("is not configured without SMS_WEBHOOK_SECRET", async () => {
+		const request = await forwarderRequest({ to: "+14155550100", text: "code 1", receivedAt: NOW });
+		const error = await parseInboundSms(request, {}, NOW).catch((e) => e);
+		expect(error.code).toBe("not_configured");
+	});
+});
+
+describe("Twilio requests", () => {
+	it("reads a signed request and uses MessageSid as the message ID", async () => {
+		const sms = await parseInboundSms(
+			await twilioRequest({ From: "+14155550100", Body: "Your code is 654321", MessageSid: "SM123" }),
+			env,
+			NOW,
+		);
+		expect(sms).toMatchObject({ format: "twilio", phone: "+14155550100", receivedAt: NOW, messageId: "twilio:SM123" });
+	});
+
+	it("rejects a signature made with another token", async () => {
+		const request = await twilioRequest({ From: "+14155550100", Body: "code 1" }, "wrong-token");
+		expect((await parseError(request)).code).toBe("bad_signature");
+	});
+});
+
+describe("seenMessageTtl", () => {
+	it("remembers a Twilio message long after a forwarder payload would be stale", async () => {
+		const twilio = await parseInboundSms(
+			await twilioRequest({ From: "+14155550100", Body: "Your code is 654321", MessageSid: "SM123" }),
+			env,
+			NOW,
+		);
+		const forwarder = await parseInboundSms(
+			await forwarderRequest({ to: "+14155550100", text: "Your code is 654321", receivedAt: NOW }),
+			env,
+			NOW,
+		);
+		expect(seenMessageTtl(forwarder)).toBe(SMS_SEEN_TTL_SECONDS);
+		expect(seenMessageTtl(forwarder) * 1000).toBeGreaterThan(SMS_MAX_AGE_MS);
+		expect(seenMessageTtl(twilio)).toBeGreaterThanOrEqual(24 * 60 * 60);
+	});
+});
+
+describe("LocalSmsSender", () => {
+	it("builds a request the webhook accepts", async () => {
+		const sender = new LocalSmsSender({ ...env, ALLOW_LOCAL_STANDINS: "true" });
+		const request = await sender.request(WEBHOOK, { phone: "4155550100", text: "code 111222", receivedAt: NOW });
+		expect(await parseInboundSms(request, env, NOW)).toMatchObject({ phone: "+14155550100", text: "code 111222" });
+	});
+
+	it("is refused without ALLOW_LOCAL_STANDINS or in production", () => {
+		expect(() => new LocalSmsSender({ ...env, ENVIRONMENT: "development" })).toThrow(InboundSmsError);
+		expect(() => new LocalSmsSender({ ...env, ALLOW_LOCAL_STANDINS: "true", ENVIRONMENT: "production" })).toThrow(
+			InboundSmsError,
+		);
+	});
+});
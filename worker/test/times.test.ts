@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import {
+	TimeError,
+	formatDuration,
+	matchingTimes,
+	parseDurationMinutes,
+	parseSlots,
+	parseTimeOfDay,
+	parseTimeRequest,
+	pickBestSlot,
+} from "../src/times";
+
+describe("parseTimeOfDay", () => {
+	it("reads 12- and 24-hour times", () => {
+		expect(parseTimeOfDay("7pm")).toBe(19 * 60);
+		expect(parseTimeOfDay("7:30 P.M.")).toBe(19 * 60 + 30);
+		expect(parseTimeOfDay("19:00")).toBe(19 * 60);
+		expect(parseTimeOfDay("12 AM")).toBe(0);
+		expect(parseTimeOfDay("noon")).toBe(12 * 60);
+	});
+
+	it("rejects times that don't exist", () => {
+		expect(parseTimeOfDay("13pm")).toBeNull();
+		expect(parseTimeOfDay("7:60")).toBeNull();
+		expect(parseTimeOfDay("0:00 AM")).toBeNull();
+		expect(parseTimeOfDay("soon")).toBeNull();
+	});
+});
+
+describe("durations", () => {
+	it("reads and formats lengths", () => {
+		expect(parseDurationMinutes("1 hr 30 min")).toBe(90);
+		expect(parseDurationMinutes("1.5 hours")).toBe(90);
+		expect(parseDurationMinutes("Duration")).toBeNull();
+		expect(formatDuration(90)).toBe("1 hour 30 minutes");
+		expect(formatDuration(120)).toBe("2 hours");
+	});
+});
+
+describe("parseSlots", () => {
+	it("reads each slot once, in page order", () => {
+		expect(parseSlots("10:00 AM\n7:00 PM - 8:00 PM\n7:00 PM")).toEqual([
+			{ label: "10:00 AM", start: 10 * 60, end: null },
+			{ label: "7:00 PM", start: 19 * 60, end: 20 * 60 },
+		]);
+	});
+
+	it("never finds a slot inside a longer time", () => {
+		expect(parseSlots("10:00 AM").map((slot) => slot.label)).toEqual(["10:00 AM"]);
+		expect(parseSlots("11:00 PM").map((slot) => slot.label)).toEqual(["11:00 PM"]);
+	});
+
+	it("lends a range's AM/PM to its start and skips bare 24-hour numbers", () => {
+		expect(parseSlots("7:00 - 8:00 PM")[0]).toMatchObject({ start: 19 * 60, end: 20 * 60 });
+		expect(parseSlots("Updated 19:00")).toEqual([]);
+	});
+});
+
+describe("parseTimeRequest", () => {
+	it("reads exact times", () => {
+		expect(parseTimeRequest("at 7pm")).toEqual({ kind: "exact", start: 19 * 60, label: "7:00 PM" });
+	});
+
+	it("reads ranges, settling a missing AM/PM from the other end", () => {
+		expect(parseTimeRequest("between 5 and 8pm")).toMatchObject({ kind: "window", start: 17 * 60, end: 20 * 60 });
+		expect(parseTimeRequest("11 to 1pm")).toMatchObject({ start: 11 * 60, end: 13 * 60 });
+		expect(parseTimeRequest("after 6pm")).toMatchObject({ start: 18 * 60, end: 23 * 60 });
+		expect(parseTimeRequest("before 10am")).toMatchObject({ start: 0, end: 10 * 60 - 1 });
+	});
+
+	it("reads named windows", () => {
+		expect(parseTimeRequest("in the evening")).toMatchObject({ kind: "window", start: 17 * 60, preferred: 18 * 60 });
+	});
+
+	it("rejects backwards ranges and unreadable text", () => {
+		expect(() => parseTimeRequest("8pm to 5pm")).toThrow(TimeError);
+		expect(() => parseTimeRequest("whenever")).toThrow(TimeError);
+	});
+});
+
+describe("picking slots", () => {
+	const slots = parseSlots("5:00 PM\n6:30 PM\n7:00 PM\n9:00 PM");
+
+	it("takes the slot nearest the window's preferred time", () => {
+		const choice = pickBestSlot(slots, parseTimeRequest("evening"));
+		expect(choice?.slot.label).toBe("6:30 PM");
+		expect(choice?.reason).toContain("also open in the window: 5:00 PM, 7:00 PM");
+	});
+
+	it("prefers the earlier slot on a tie", () => {
+		const tied = parseSlots("5:00 PM\n7:00 PM");
+		expect(pickBestSlot(tied, parseTimeRequest("evening"))?.slot.label).toBe("5:00 PM");
+	});
+
+	it("only takes an exact time when it is open", () => {
+		expect(pickBestSlot(slots, parseTimeRequest("7pm"))?.slot.label).toBe("7:00 PM");
+		expect(pickBestSlot(slots, parseTimeRequest("8pm"))).toBeNull();
+	});
+
+	it("lists the available labels that match a request", () => {
+		expect(matchingTimes(["9:00 AM", "5:00 PM", "9:00 PM"], "after work")).toEqual(["5:00 PM"]);
+		expect(matchingTimes(["9:00 AM"], "whenever")).toEqual([]);
+	});
+});
@@ -0,0 +1,177 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { NotificationError, confirmWebhookCode, isWebhookVerified, sendWebhookCode } from "../src/notifications";
+import { compareWatchSlots, describeWindow, newlyOpenedSlots, slotInWindow, type CourtWatch } from "../src/watches";
+import { memoryKV } from "./helpers";
+
+type WatchState = Pick<CourtWatch, "windowStart" | "windowEnd" | "lastSnapshot">;
+
+describe("slotInWindow", () => {
+	it("includes both ends of the window", () => {
+		expect(slotInWindow("6:00 PM", "6:00 PM", "8:00 PM")).toBe(true);
+		expect(slotInWindow("8:00 PM", "6:00 PM", "8:00 PM")).toBe(true);
+		expect(slotInWindow("5:30 PM", "6:00 PM", "8:00 PM")).toBe(false);
+		expect(slotInWindow("8:30 PM", "6:00 PM", "8:00 PM")).toBe(false);
+	});
+
+	it("leaves an open end unbounded", () => {
+		expect(slotInWindow("7:00 AM", null, "8:00 AM")).toBe(true);
+		expect(slotInWindow("9:00 PM", "6:00 PM", null)).toBe(true);
+		expect(slotInWindow("3:00 AM", null, null)).toBe(true);
+	});
+
+	it("skips text that isn't a time", () => {
+		expect(slotInWindow("No free slots", null, null)).toBe(false);
+		expect(slotInWindow("7:00  PM", "6:00 PM", null)).toBe(true);
+	});
+});
+
+describe("newlyOpenedSlots", () => {
+	it("reports everything open on the first check", () => {
+		expect(newlyOpenedSlots(null, ["6:00 PM", "7:00 PM"])).toEqual(["6:00 PM", "7:00 PM"]);
+	});
+
+	it("reports only slots missing from the previous snapshot", () => {
+		expect(newlyOpenedSlots(["6:00 PM"], ["6:00 PM", "7:00 PM"])).toEqual(["7:00 PM"]);
+		expect(newlyOpenedSlots(["6:00 PM", "7:00 PM"], ["7:00 PM"])).toEqual([]);
+		expect(newlyOpenedSlots([], [])).toEqual([]);
+	});
+});
+
+describe("compareWatchSlots", () => {
+	const evening = { windowStart: "6:00 PM", windowEnd: "8:00 PM" };
+
+	// Runs checks the way UserBookings does: the snapshot moves on only once the owner was told
+	function runChecks(checks: { available: string[]; delivered?: boolean }[]): string[][] {
+		let watch: WatchState = { ...evening, lastSnapshot: null };
+		const notified: string[][] = [];
+		for (const { available, delivered = true } of checks) {
+			const { current, opened } = compareWatchSlots(watch, available);
+			if (opened.length === 0) {
+				watch = { ...watch, lastSnapshot: current };
+			} else if (delivered) {
+				notified.push(opened);
+				watch = { ...watch, lastSnapshot: current };
+			}
+		}
+		return notified;
+	}
+
+	it("keeps only slots in the window, trimmed", () => {
+		expect(compareWatchSlots({ ...evening, lastSnapshot: null }, [" 5:00 PM", "6:30 PM ", "9:00 PM"])).toEqual({
+			current: ["6:30 PM"],
+			opened: ["6:30 PM"],
+		});
+	});
+
+	it("never announces the same open slot twice", () => {
+		expect(
+			runChecks([
+				{ available: ["6:00 PM"] },
+				{ available: ["6:00 PM"] },
+				{ available: ["6:00 PM", "9:00 PM"] },
+				{ available: ["6:00 PM", "7:00 PM"] },
+				{ available: ["7:00 PM", "6:00 PM"] },
+			]),
+		).toEqual([["6:00 PM"], ["7:00 PM"]]);
+	});
+
+	it("announces a slot again once it was taken and freed up again", () => {
+		expect(runChecks([{ available: ["7:00 PM"] }, { available: [] }, { available: ["7:00 PM"] }])).toEqual([
+			["7:00 PM"],
+			["7:00 PM"],
+		]);
+	});
+
+	it("retries a notification that couldn't be delivered", () => {
+		expect(
+			runChecks([{ available: ["7:00 PM"], delivered: false }, { available: ["7:00 PM"] }, { available: ["7:00 PM"] }]),
+		).toEqual([["7:00 PM"]]);
+	});
+});
+
+describe("describeWindow", () => {
+	it("says which part of the day is watched", () => {
+		expect(describeWindow({ windowStart: "6:00 PM", windowEnd: "8:00 PM" })).toBe("6:00 PM–8:00 PM");
+		expect(describeWindow({ windowStart: "6:00 PM", windowEnd: null })).toBe("from 6:00 PM");
+		expect(describeWindow({ windowStart: null, windowEnd: "10:00 AM" })).toBe("until 10:00 AM");
+		expect(describeWindow({ windowStart: null, windowEnd: null })).toBe("any time");
+	});
+});
+
+describe("webhook verification", () => {
+	const WEBHOOK_URL = "https://hooks.example/court-watch";
+
+	// Captures what was posted to the webhook
+	function stubWebhook(status = 200) {
+		const posted: { url: string; body: { verificationCode: string; text: string } }[] = [];
+		vi.stubGlobal("fetch", async (url: string, init: RequestInit) => {
+			posted.push({ url, body: JSON.parse(String(init.body)) });
+			return new Response(null, { status });
+		});
+		return posted;
+	}
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	it("trusts a webhook once the code posted to it is given back", async () => {
+		const kv = memoryKV();
+		const posted = stubWebhook();
+		await sendWebhookCode(kv, "user-a", WEBHOOK_URL);
+
+		expect(posted).toHaveLength(1);
+		expect(posted[0].url).toBe(WEBHOOK_URL);
+		const code = posted[0].body.verificationCode;
+		expect(code).toMatch(/^\d{6}$/);
+		expect(posted[0].body.text).toContain(code);
+
+		expect(await isWebhookVerified(kv, "user-a", WEBHOOK_URL)).toBe(false);
+		expect(await confirmWebhookCode(kv, "user-a", WEBHOOK_URL, ` ${code} `)).toBe(true);
+		expect(await isWebhookVerified(kv, "user-a", WEBHOOK_URL)).toBe(true);
+	});
+
+	it("rejects a wrong code and keeps the right one usable", async () => {
+		const kv = memoryKV();
+		const posted = stubWebhook();
+		await sendWebhookCode(kv, "user-a", WEBHOOK_URL);
+		const code = posted[0].body.verificationCode;
+		const wrong = code === "000000" ? "000001" : "000000";
+
+		expect(await confirmWebhookCode(kv, "user-a", WEBHOOK_URL, wrong)).toBe(false);
+		expect(await isWebhookVerified(kv, "user-a", WEBHOOK_URL)).toBe(false);
+		expect(await confirmWebhookCode(kv, "user-a", WEBHOOK_URL, code)).toBe(true);
+	});
+
+	it("uses each code once", async () => {
+		const kv = memoryKV();
+		const posted = stubWebhook();
+		await sendWebhookCode(kv, "user-a", WEBHOOK_URL);
+		const code = posted[0].body.verificationCode;
+		expect(await confirmWebhookCode(kv, "user-a", WEBHOOK_URL, code)).toBe(true);
+		expect(await confirmWebhookCode(kv, "user-a", WEBHOOK_URL, code)).toBe(false);
+	});
+
+	it("binds a code to the user and the WEBHOOK_URL it was sent for", async () => {
+		const kv = memoryKV();
+		const posted = stubWebhook();
+		await sendWebhookCode(kv, "user-a", WEBHOOK_URL);
+		const code = posted[0].body.verificationCode;
+
+		expect(await confirmWebhookCode(kv, "user-b", WEBHOOK_URL, code)).toBe(false);
+		expect(await confirmWebhookCode(kv, "user-a", `${WEBHOOK_URL}/other`, code)).toBe(false);
+		expect(await confirmWebhookCode(kv, "user-a", WEBHOOK_URL, code)).toBe(true);
+		expect(await isWebhookVerified(kv, "user-b", WEBHOOK_URL)).toBe(false);
+	});
+
+	it("needs a code to have been sent", async () => {
+		expect(await confirmWebhookCode(memoryKV(), "user-a", WEBHOOK_URL, "123456")).toBe(false);
+	});
+
+	it("keeps no code when the webhook refuses it", async () => {
+		const kv = memoryKV();
+		stubWebhook(500);
+		await expect(sendWebhookCode(kv, "user-a", WEBHOOK_URL)).rejects.toBeInstanceOf(NotificationError);
+		expect(await confirmWebhookCode(kv, "user-a", WEBHOOK_URL, "000000")).toBe(false);
+	});
+});